@@ -108,6 +108,8 @@ async function createServerSession(info) {
           hasJsessionId: !!info?.jsessionId,
           userGroups,
         },
+        // Server queries Clarity as this user instead of the service account
+        clarityCredentials: info?.jsessionId ? { sessionId: info.jsessionId } : undefined,
         expiresInMinutes: 60,
       }),
     });
@@ -184,7 +186,19 @@ async function sendChatMessage(message) {
     
     if (!response.ok) throw new Error(`Server returned ${response.status}`);
     
-    return await response.json();
+    const data = await response.json();
+    
+    // Export and chart image links are relative when the server has no PUBLIC_BASE_URL
+    const sessionUrl = (url) => `${url.startsWith('/') ? `${apiUrl}${url}` : url}?sessionId=${encodeURIComponent(sessionId)}`;
+    if (data.download?.url) {
+      data.download.url = sessionUrl(data.download.url);
+    }
+    if (data.chartImage?.url) {
+      data.chartImage.url = sessionUrl(data.chartImage.url);
+      if (data.chartImage.pngUrl) data.chartImage.pngUrl = sessionUrl(data.chartImage.pngUrl);
+    }
+    
+    return data;
   } catch (error) {
     console.error('[Background] Chat error:', error);
     return { error: error.message };
@@ -40,6 +40,20 @@ async function initAnalytics() {
       
       const { groupableFields, chartData, fieldMetadata } = response.chartData;
       
+      if (response.chartData.chartType === 'stacked-bar' && response.chartData.pivot) {
+        console.log('[Analytics] Rendering stacked pivot chart');
+        this.createStackedChart(response.chartData.pivot, container, response.chartData);
+        return true;
+      }
+      
+      if (response.chartData.chartType === 'line') {
+        const fieldName = groupableFields?.[0];
+        if (!fieldName || !chartData[fieldName]?.length) return false;
+        console.log('[Analytics] Rendering time series');
+        this.createLineChart(chartData[fieldName], fieldMetadata[fieldName], container, response.chartData);
+        return true;
+      }
+      
       if (!groupableFields || groupableFields.length === 0) {
         console.log('[Analytics] No groupable fields');
         return false;
@@ -64,6 +78,14 @@ async function initAnalytics() {
       const total = data.reduce((sum, item) => sum + item.value, 0);
       const maxValue = Math.max(...data.map(d => d.value));
       
+      // Measure charts aggregate a numeric field; shares only make sense for sums
+      const measure = chartDataFull?.measure;
+      const aggregateLabels = { sum: 'Total', avg: 'Average', min: 'Minimum', max: 'Maximum' };
+      const showPct = !measure || measure.aggregate === 'sum';
+      const formatValue = value => measure
+        ? value.toLocaleString('en-US', { maximumFractionDigits: 2 })
+        : String(value);
+      
       const colors = [
         '#667eea', '#764ba2', '#34d399', '#fb923c', '#ef4444', 
         '#3b82f6', '#a855f7', '#ec4899', '#14b8a6', '#f59e0b'
@@ -74,12 +96,14 @@ async function initAnalytics() {
       
       const title = document.createElement('div');
       title.style.cssText = 'font-size:16px;font-weight:bold;margin-bottom:20px;color:#333;text-align:center;';
-      title.textContent = `${displayName} Distribution (${total} items)`;
+      title.textContent = measure
+        ? `${aggregateLabels[measure.aggregate]} ${measure.displayName} by ${displayName}`
+        : `${displayName} Distribution (${total} items)`;
       chartDiv.appendChild(title);
       
       data.forEach((item, i) => {
-        const pct = ((item.value / total) * 100).toFixed(1);
-        const barPct = (item.value / maxValue) * 100;
+        const pct = total ? ((item.value / total) * 100).toFixed(1) : '0.0';
+        const barPct = maxValue > 0 ? (item.value / maxValue) * 100 : 0;
         const color = colors[i % colors.length];
         
         const row = document.createElement('div');
@@ -102,7 +126,7 @@ async function initAnalytics() {
         labelRow.style.cssText = 'display:flex;justify-content:space-between;margin-bottom:4px;font-size:13px;';
         
         const displayLabel = item.label || '(No value)';
-        labelRow.innerHTML = `<span style="color:#333;font-weight:500;">${escapeHtml(displayLabel)}</span><span style="color:#666;">${item.value} (${pct}%)</span>`;
+        labelRow.innerHTML = `<span style="color:#333;font-weight:500;">${escapeHtml(displayLabel)}</span><span style="color:#666;">${formatValue(item.value)}${showPct ? ` (${pct}%)` : ''}</span>`;
         row.appendChild(labelRow);
         
         const barBg = document.createElement('div');
@@ -126,7 +150,158 @@ async function initAnalytics() {
       
       const summary = document.createElement('div');
       summary.style.cssText = 'margin-top:15px;padding-top:15px;border-top:1px solid #e5e7eb;font-size:12px;color:#666;text-align:center;';
-      summary.textContent = `${data.length} categories - ${total} total items`;
+      summary.textContent = measure
+        ? `${data.length} categories - ${data.reduce((sum, item) => sum + (item.count || 0), 0)} records`
+        : `${data.length} categories - ${total} total items`;
+      chartDiv.appendChild(summary);
+      
+      container.appendChild(chartDiv);
+    },
+    
+    // Time series as an SVG line; points are in time order
+    createLineChart(data, metadata, container, chartDataFull) {
+      const width = 460;
+      const height = 200;
+      const pad = 30;
+      const maxValue = Math.max(...data.map(d => d.value), 0);
+      const minValue = Math.min(...data.map(d => d.value), 0);
+      const range = maxValue - minValue || 1;
+      const step = data.length > 1 ? (width - pad * 2) / (data.length - 1) : 0;
+      const point = (item, i) => ({
+        x: pad + i * step,
+        y: height - pad - ((item.value - minValue) / range) * (height - pad * 2),
+      });
+      const format = value => chartDataFull?.measure
+        ? value.toLocaleString('en-US', { maximumFractionDigits: 2 })
+        : String(value);
+      
+      const chartDiv = document.createElement('div');
+      chartDiv.style.cssText = 'background:#fff;padding:20px;border-radius:12px;margin-top:15px;box-shadow:0 4px 12px rgba(0,0,0,0.15);';
+      
+      const title = document.createElement('div');
+      title.style.cssText = 'font-size:16px;font-weight:bold;margin-bottom:12px;color:#333;text-align:center;';
+      title.textContent = `${metadata?.displayName || 'Date'} per ${chartDataFull?.interval || 'period'}`;
+      chartDiv.appendChild(title);
+      
+      const svgNs = 'http://www.w3.org/2000/svg';
+      const svg = document.createElementNS(svgNs, 'svg');
+      svg.setAttribute('viewBox', `0 0 ${width} ${height}`);
+      svg.style.cssText = 'width:100%;height:auto;';
+      
+      const line = document.createElementNS(svgNs, 'polyline');
+      line.setAttribute('points', data.map((item, i) => { const p = point(item, i); return `${p.x},${p.y}`; }).join(' '));
+      line.setAttribute('fill', 'none');
+      line.setAttribute('stroke', '#667eea');
+      line.setAttribute('stroke-width', '2');
+      svg.appendChild(line);
+      
+      data.forEach((item, i) => {
+        const p = point(item, i);
+        const dot = document.createElementNS(svgNs, 'circle');
+        dot.setAttribute('cx', p.x);
+        dot.setAttribute('cy', p.y);
+        dot.setAttribute('r', '4');
+        dot.setAttribute('fill', '#764ba2');
+        dot.style.cursor = 'pointer';
+        
+        const tip = document.createElementNS(svgNs, 'title');
+        tip.textContent = `${item.label}: ${format(item.value)}`;
+        dot.appendChild(tip);
+        
+        // Click a point to drill into that period
+        if (chartDataFull?.drillDownEnabled) {
+          dot.onclick = () => {
+            const input = document.getElementById('chat-input');
+            input.value = `show me the ${item.label} ones`;
+            sendMessage();
+          };
+        }
+        svg.appendChild(dot);
+      });
+      
+      chartDiv.appendChild(svg);
+      
+      const summary = document.createElement('div');
+      summary.style.cssText = 'margin-top:10px;font-size:12px;color:#666;text-align:center;';
+      summary.textContent = `${data[0].label} – ${data[data.length - 1].label} · max ${format(maxValue)}`;
+      chartDiv.appendChild(summary);
+      
+      container.appendChild(chartDiv);
+    },
+    
+    // One stacked bar per row value, one segment per column value
+    createStackedChart(pivot, container, chartDataFull) {
+      const maxColumns = 8;
+      const columns = pivot.columns.slice(0, maxColumns);
+      const maxRowTotal = Math.max(...pivot.rows.map(row => row.value), 0);
+      const format = value => chartDataFull?.measure
+        ? value.toLocaleString('en-US', { maximumFractionDigits: 2 })
+        : String(value);
+      
+      const colors = [
+        '#667eea', '#764ba2', '#34d399', '#fb923c', '#ef4444', 
+        '#3b82f6', '#a855f7', '#ec4899', '#14b8a6', '#f59e0b'
+      ];
+      
+      const chartDiv = document.createElement('div');
+      chartDiv.style.cssText = 'background:#fff;padding:20px;border-radius:12px;margin-top:15px;box-shadow:0 4px 12px rgba(0,0,0,0.15);';
+      
+      const title = document.createElement('div');
+      title.style.cssText = 'font-size:16px;font-weight:bold;margin-bottom:12px;color:#333;text-align:center;';
+      title.textContent = `${pivot.rowDisplayName} by ${pivot.columnDisplayName} (${format(pivot.grandTotal)})`;
+      chartDiv.appendChild(title);
+      
+      // Legend
+      const legend = document.createElement('div');
+      legend.style.cssText = 'display:flex;flex-wrap:wrap;gap:10px;justify-content:center;margin-bottom:16px;font-size:12px;color:#555;';
+      columns.forEach((column, c) => {
+        const entry = document.createElement('span');
+        entry.innerHTML = `<span style="display:inline-block;width:10px;height:10px;border-radius:2px;margin-right:4px;background:${colors[c % colors.length]};"></span>${escapeHtml(column.label)}`;
+        legend.appendChild(entry);
+      });
+      chartDiv.appendChild(legend);
+      
+      pivot.rows.forEach((row, r) => {
+        const rowDiv = document.createElement('div');
+        rowDiv.style.cssText = 'margin-bottom:12px;';
+        
+        const labelRow = document.createElement('div');
+        labelRow.style.cssText = 'display:flex;justify-content:space-between;margin-bottom:4px;font-size:13px;';
+        labelRow.innerHTML = `<span style="color:#333;font-weight:500;">${escapeHtml(row.label)}</span><span style="color:#666;">${format(row.value)}</span>`;
+        rowDiv.appendChild(labelRow);
+        
+        const bar = document.createElement('div');
+        const barPct = maxRowTotal > 0 ? (row.value / maxRowTotal) * 100 : 0;
+        bar.style.cssText = `display:flex;background:#e5e7eb;border-radius:6px;height:24px;overflow:hidden;width:${barPct}%;`;
+        
+        columns.forEach((column, c) => {
+          const value = pivot.cells[r]?.[c] ?? 0;
+          if (value <= 0) return;
+          
+          const segment = document.createElement('div');
+          segment.style.cssText = `background:${colors[c % colors.length]};height:100%;width:${(value / row.value) * 100}%;cursor:pointer;`;
+          segment.title = `${row.label} / ${column.label}: ${format(value)}`;
+          
+          // Click a segment to drill into that cell
+          if (chartDataFull?.drillDownEnabled) {
+            segment.onclick = () => {
+              const input = document.getElementById('chat-input');
+              input.value = `show me the ${row.label} ones in ${column.label}`;
+              sendMessage();
+            };
+          }
+          bar.appendChild(segment);
+        });
+        
+        rowDiv.appendChild(bar);
+        chartDiv.appendChild(rowDiv);
+      });
+      
+      const summary = document.createElement('div');
+      summary.style.cssText = 'margin-top:15px;padding-top:15px;border-top:1px solid #e5e7eb;font-size:12px;color:#666;text-align:center;';
+      summary.textContent = pivot.columns.length > maxColumns
+        ? `${pivot.rows.length} × ${pivot.columns.length} (first ${maxColumns} ${pivot.columnDisplayName} values shown)`
+        : `${pivot.rows.length} × ${pivot.columns.length}`;
       chartDiv.appendChild(summary);
       
       container.appendChild(chartDiv);
@@ -400,7 +575,16 @@ async function sendMessage() {
       return;
     }
     
-    const aiDiv = addMessage(data.reply || 'No response', 'assistant');
+    // A record table is drawn as a grid instead of its markdown copy
+    const reply = data.table
+      ? (data.reply || '').split('\n').filter(line => !line.startsWith('|')).join('\n')
+      : data.reply;
+    const aiDiv = addMessage(reply || 'No response', 'assistant');
+    
+    // Record table
+    if (data.table) {
+      addTable(data.table, aiDiv);
+    }
     
     // Charts
     if (analytics && data.success && data.chartData) {
@@ -417,6 +601,16 @@ async function sendMessage() {
       addDeepLink(data.deepLink, aiDiv);
     }
     
+    // Export download
+    if (data.download) {
+      addDownload(data.download, aiDiv);
+    }
+    
+    // Chart as an image file
+    if (data.chartImage) {
+      addChartImageLink(data.chartImage, aiDiv);
+    }
+    
   } catch (error) {
     console.error('[Chat] Error:', error);
     if (currentAIMessage) currentAIMessage.remove();
@@ -449,6 +643,56 @@ function addDeepLink(url, container) {
   container.appendChild(linkDiv);
 }
 
+function addDownload(download, container) {
+  const linkDiv = document.createElement('div');
+  linkDiv.className = 'deep-link';
+  linkDiv.innerHTML = `<a href="${escapeHtml(download.url)}" target="_blank">⬇️ Download ${escapeHtml(download.filename)}</a>`;
+  container.appendChild(linkDiv);
+}
+
+function addChartImageLink(image, container) {
+  const linkDiv = document.createElement('div');
+  linkDiv.className = 'deep-link';
+  linkDiv.innerHTML = `<a href="${escapeHtml(image.pngUrl || image.url)}" target="_blank">🖼️ Chart image</a>`;
+  container.appendChild(linkDiv);
+}
+
+function addTable(table, container) {
+  const format = (cell, column) => {
+    if (cell === null || cell === undefined) return '-';
+    if (column.type === 'boolean') return cell ? 'Yes' : 'No';
+    if (column.type === 'number' && typeof cell === 'number') {
+      return cell.toLocaleString('en-US', { maximumFractionDigits: 2 });
+    }
+    return String(cell);
+  };
+  
+  const wrapper = document.createElement('div');
+  wrapper.style.cssText = 'overflow-x:auto;margin-top:10px;background:#fff;border-radius:8px;box-shadow:0 2px 6px rgba(0,0,0,0.1);';
+  
+  const grid = document.createElement('table');
+  grid.style.cssText = 'border-collapse:collapse;width:100%;font-size:12px;color:#333;';
+  
+  const header = table.columns.map(column =>
+    `<th style="text-align:${column.type === 'number' ? 'right' : 'left'};padding:6px 8px;border-bottom:2px solid #e0e0e0;white-space:nowrap;">${escapeHtml(column.displayName)}</th>`
+  ).join('');
+  const rows = table.rows.map(row => {
+    const cells = table.columns.map((column, c) => {
+      let text = escapeHtml(format(row.cells[c], column));
+      // The first column links to the record
+      if (c === 0 && row.link) {
+        text = `<a href="${escapeHtml(row.link)}" target="_blank" style="color:#1976d2;text-decoration:none;">${text}</a>`;
+      }
+      return `<td style="text-align:${column.type === 'number' ? 'right' : 'left'};padding:5px 8px;border-bottom:1px solid #f0f0f0;">${text}</td>`;
+    }).join('');
+    return `<tr>${cells}</tr>`;
+  }).join('');
+  
+  grid.innerHTML = `<thead><tr>${header}</tr></thead><tbody>${rows}</tbody>`;
+  wrapper.appendChild(grid);
+  container.appendChild(wrapper);
+}
+
 function addMessage(text, sender, isThinking) {
   const container = document.getElementById('chat-messages');
   
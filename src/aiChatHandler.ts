@@ -9,16 +9,89 @@
  */
 
 import Anthropic from '@anthropic-ai/sdk';
-import type { ClarityApiClient } from './services/ClarityApiClient.js';
+import type { ClarityClientPool } from './services/ClarityClientPool.js';
+import { ClarityCallBudget, CallBudgetExceededError, type ClarityRequester } from './services/ClarityCallBudget.js';
 import type { MetadataService } from './services/MetadataService.js';
 import type { LookupService } from './services/LookupService.js';
-import type { ObjectMetadata } from './types/clarity.js';
+import type { AttributeMetadata, ObjectMetadata } from './types/clarity.js';
 import { ContextService } from './services/ContextService.js';
 import { DeepLinkService } from './services/DeepLinkService.js';
 import { SuggestionService, type Suggestion } from './services/SuggestionService.js';
+import { ExportService, type ExportLink } from './services/ExportService.js';
+import { ChartImageService, type ChartImageLink } from './services/ChartImageService.js';
+import {
+  PendingActionService,
+  type FieldChange,
+  type PendingAction,
+  type PendingActionPreview,
+} from './services/PendingActionService.js';
+import {
+  OperationJournalService,
+  type JournalEntry,
+  type JournalOperation,
+  type JournalRecord,
+} from './services/OperationJournalService.js';
 import { detectFollowUpIntent } from './types/context.js';
-import type { ConversationContext } from './types/context.js';
-import { toolRegistry } from './tools/ToolRegistry.js';
+import type {
+  ConversationContext,
+  ChartBucket,
+  ChartMeasure,
+  PivotData,
+  DateInterval,
+  TableBlock,
+  TableColumn,
+  RecordCursor,
+  ChartData,
+  ChartType,
+  CreateDraft,
+} from './types/context.js';
+import {
+  toolRegistry,
+  ALL_TOOLS,
+  buildToolInputSchema,
+  validateToolInput,
+  type Permission,
+  type ToolDefinition,
+} from './tools/ToolRegistry.js';
+import { sessionManager } from './tools/SessionManager.js';
+import { objectPolicy } from './tools/ObjectPolicy.js';
+import { filterCompiler, FilterValidationError } from './query/FilterCompiler.js';
+import {
+  buildChartBuckets,
+  buildPivot,
+  bucketFilter,
+  resolveMeasure,
+  describeMeasure,
+  formatMeasureValue,
+  getLookupCode,
+} from './query/ChartBuckets.js';
+import { buildDateSeries } from './query/DateBuckets.js';
+import { joinRecords, joinedFieldName, resolveFieldNames, resolveRelation } from './query/RecordJoiner.js';
+import { resolveSort, toSortParam, topBuckets, topPivotRows, type SortDirection } from './query/Sorting.js';
+import {
+  buildTable,
+  changeColumns,
+  cursorEndpoint,
+  defaultTableFields,
+  formatCell,
+  parseColumnNames,
+  tableColumns,
+  withFields,
+  type ColumnChange,
+} from './query/TableBuilder.js';
+import {
+  describeExpected,
+  missingRequired,
+  parseFieldAnswers,
+  takesBareValue,
+  validateValues,
+  writableAttributes,
+  type FieldIssue,
+} from './query/RecordValues.js';
+import { EXPORT_FORMATS, type ExportFormat } from './query/ExportFormats.js';
+import { applyBulkUpdate, selectBulkTargets, type BulkOutcome, type BulkSelection } from './query/BulkUpdate.js';
+import type { FilterNode } from './types/filter.js';
+import { ANALYSIS_PAGING, BULK_UPDATES, DATE_DATA_TYPES, RECORD_PAGING } from './constants.js';
 
 // ============================================================================
 // TYPES
@@ -28,9 +101,15 @@ interface AIResponse {
   success: boolean;
   reply: string;
   chartData: ChartData | null;
+  table?: TableBlock;
   timestamp: string;
   suggestions?: Array<{ label: string; value: string }>;
   deepLink?: string;
+  download?: ExportLink;
+  chartImage?: ChartImageLink;
+  pendingAction?: PendingActionPreview;
+  bulkUpdate?: { updated: number; failed: number; records: BulkOutcome[] };
+  refusal?: AccessRefusal;
   debug?: {
     aiPlan?: string;
     apiCalls?: string[];
@@ -38,66 +117,180 @@ interface AIResponse {
   };
 }
 
-interface ChartData {
-  groupableFields: string[];
-  chartData: Record<string, Array<{ label: string; value: number }>>;
-  fieldMetadata: Record<string, { displayName: string; dataType: string }>;
-  // NEW: Support for different chart types
-  chartType?: 'bar' | 'pie' | 'line' | 'doughnut' | 'horizontal-bar';
-  // NEW: Drill-down info
-  drillDownEnabled?: boolean;
+// single: one planned tool call per message; agent: several tool calls that see each other's results
+export type ChatMode = 'single' | 'agent';
+
+// The part of the Anthropic client the planner calls
+export interface PlannerClient {
+  messages: {
+    create(body: Anthropic.MessageCreateParamsNonStreaming): Promise<Anthropic.Message>;
+  };
+}
+
+// Result of running one plan (data is only shown to the agent, never returned to clients)
+type PlanResult = Omit<AIResponse, 'timestamp' | 'debug' | 'suggestions'> & { data?: unknown };
+
+// Tool schemas and system prompt for one planning request
+interface PlannerRequest {
+  systemPrompt: string;
+  tools: ToolDefinition[];
+  objectType: string;
+  foundFieldApiName: string;
+}
+
+// Why a request was not executed for this session
+interface AccessRefusal {
+  code: 'tool_denied' | 'tool_unavailable' | 'object_denied';
+  toolId: string;
   objectType?: string;
-  groupByField?: string;
+  missingPermissions?: Permission[];
+  reason: string;
 }
 
+// Plan built from a validated tool_use call (or a plain text answer)
 interface APIPlan {
-  action: 'query' | 'create' | 'update' | 'delete' | 'analyze' | 'describe' | 'help' | 'drilldown';
+  action: 'query' | 'join' | 'count' | 'get' | 'create' | 'update' | 'bulkUpdate' | 'delete' | 'analyze' | 'describe'
+    | 'drilldown' | 'link' | 'export' | 'objects' | 'answer';
+  toolId: string | null;
+  input: Record<string, unknown>;
   objectType: string;
-  method: 'GET' | 'POST' | 'PATCH' | 'DELETE';
-  endpoint: string;
-  queryParams?: Record<string, string>;
-  body?: Record<string, unknown>;
+  project?: string;
+  limit?: number;
+  filter?: FilterNode;
+  sortBy?: string;
+  sortDirection?: string;
+  relatedObject?: string;
+  via?: string;
+  fields?: string[];
+  relatedFields?: string[];
+  relatedFilter?: FilterNode;
   groupByField?: string;
-  filterField?: string;
+  measureField?: string;
+  aggregate?: string;
+  columnField?: string;
+  interval?: DateInterval;
   filterValue?: string;
+  columnValue?: string;
+  recordId?: string;
+  name?: string;
+  values?: Record<string, unknown>;
   explanation: string;
 }
 
+// Plan action for each registry tool the planner can call
+const TOOL_ACTION_MAP: Record<string, APIPlan['action']> = {
+  list_records: 'query',
+  join_records: 'join',
+  count_records: 'count',
+  get_record: 'get',
+  create_chart: 'analyze',
+  drill_down: 'drilldown',
+  get_deep_link: 'link',
+  create_record: 'create',
+  update_record: 'update',
+  bulk_update_records: 'bulkUpdate',
+  delete_record: 'delete',
+  export_data: 'export',
+  list_objects: 'objects',
+  describe_object: 'describe',
+};
+
+// Attempts the planner gets to produce a tool call that passes validation
+const MAX_PLANNER_ATTEMPTS = 2;
+
+// Longest tool result handed back to the agent
+const MAX_OBSERVATION_CHARS = 6000;
+
+// Tool whose permissions undoing an operation needs
+const UNDO_TOOL_MAP: Record<JournalOperation, string> = {
+  create: 'delete_record',
+  update: 'update_record',
+  delete: 'create_record',
+};
+
+// Registry tool that each follow-up intent runs as
+const FOLLOW_UP_TOOL_MAP: Record<string, string> = {
+  showSelected: 'drill_down',
+  count: 'count_records',
+  export: 'export_data',
+  link: 'get_deep_link',
+  addColumn: 'list_records',
+  hideColumn: 'list_records',
+  nextPage: 'list_records',
+  previousPage: 'list_records',
+  showAll: 'list_records',
+};
+
 // ============================================================================
 // AI CHAT HANDLER
 // ============================================================================
 
 export class AIChatHandler {
-  private anthropic: Anthropic;
-  private client: ClarityApiClient;
+  private anthropic: PlannerClient;
+  private clientPool: ClarityClientPool;
   private metadataService: MetadataService;
+  private lookupService: LookupService;
   private contextService: ContextService;
   private deepLinkService: DeepLinkService;
   private suggestionService: SuggestionService;
+  private exportService: ExportService;
+  private chartImageService: ChartImageService;
+  private pendingActionService: PendingActionService;
+  private operationJournal: OperationJournalService;
+  private defaultMode: ChatMode;
+  private agentMaxSteps: number;
+  private agentMaxClarityCalls: number;
+  private bulkUpdateMaxRecords: number;
   
-  // Metadata cache
+  // Discovery cache
   private discoveredObjects: string[] = [];
-  private metadataCache: Map<string, ObjectMetadata> = new Map();
+  
+  // Clarity call budgets of agent turns in progress, by session
+  private callBudgets: Map<string, ClarityCallBudget> = new Map();
 
   constructor(
-    client: ClarityApiClient,
+    clientPool: ClarityClientPool,
     metadataService: MetadataService,
-    _lookupService: LookupService,
-    clarityBaseUrl: string
+    lookupService: LookupService,
+    clarityBaseUrl: string,
+    options?: {
+      defaultMode?: ChatMode;
+      agentMaxSteps?: number;
+      agentMaxClarityCalls?: number;
+      exportService?: ExportService;
+      chartImageService?: ChartImageService;
+      pendingActionService?: PendingActionService;
+      operationJournal?: OperationJournalService;
+      bulkUpdateMaxRecords?: number;
+      anthropic?: PlannerClient;
+    }
   ) {
-    this.anthropic = new Anthropic();
-    this.client = client;
+    this.anthropic = options?.anthropic ?? new Anthropic();
+    this.defaultMode = options?.defaultMode ?? 'single';
+    this.agentMaxSteps = options?.agentMaxSteps ?? 6;
+    this.agentMaxClarityCalls = options?.agentMaxClarityCalls ?? 20;
+    this.bulkUpdateMaxRecords = options?.bulkUpdateMaxRecords ?? BULK_UPDATES.MAX_RECORDS;
+    this.clientPool = clientPool;
     this.metadataService = metadataService;
+    this.lookupService = lookupService;
     this.contextService = new ContextService();
     this.deepLinkService = new DeepLinkService(clarityBaseUrl);
     this.suggestionService = new SuggestionService();
+    this.exportService = options?.exportService ?? new ExportService();
+    this.chartImageService = options?.chartImageService ?? new ChartImageService();
+    this.pendingActionService = options?.pendingActionService ?? new PendingActionService();
+    this.operationJournal = options?.operationJournal ?? new OperationJournalService();
   }
 
   // ============================================================================
   // MAIN HANDLER
   // ============================================================================
 
-  async handleMessage(message: string, sessionId: string = 'default'): Promise<AIResponse> {
+  async handleMessage(
+    message: string,
+    sessionId: string = 'default',
+    options?: { mode?: ChatMode }
+  ): Promise<AIResponse> {
     const timestamp = new Date().toISOString();
     const startTime = Date.now();
     
@@ -124,9 +317,41 @@ export class AIChatHandler {
         return this.getHelpResponse(timestamp);
       }
       
+      // Step 2b: Values for a record still waiting for required fields
+      const draft = this.contextService.getCreateDraft(sessionId);
+      const answers = draft ? await this.readDraftAnswers(draft, message, sessionId) : null;
+      if (draft && answers) {
+        const createRefusal = this.checkAccess(sessionId, 'create_record', [draft.objectType]);
+        if (createRefusal) {
+          return this.getRefusalResponse(createRefusal, timestamp, sessionId);
+        }
+        
+        const draftResult = await this.continueCreate(sessionId, draft, answers);
+        this.contextService.addToHistory(sessionId, {
+          timestamp: new Date().toISOString(),
+          role: 'assistant',
+          message: draftResult.reply.substring(0, 200),
+          action: 'create',
+          objectType: draft.objectType,
+          success: draftResult.success,
+        });
+        return {
+          ...draftResult,
+          timestamp,
+          suggestions: this.suggestionService.formatSuggestionsAsButtons(
+            this.suggestionService.generateSuggestions(this.contextService.getContext(sessionId), 'create')
+          ),
+        };
+      }
+      
       // Step 3: Check for LINK requests FIRST (independent of drill-down context)
       const lowerMessage = message.toLowerCase();
       if (lowerMessage.includes('link') && !lowerMessage.includes('create') && !lowerMessage.includes('new')) {
+        const linkRefusal = this.checkAccess(sessionId, 'get_deep_link', []);
+        if (linkRefusal) {
+          return this.getRefusalResponse(linkRefusal, timestamp, sessionId);
+        }
+        
         const linkResult = await this.handleLinkRequest(sessionId, timestamp, message);
         // Always return link result (success or failure) - don't fall through to AI
         const suggestions = this.suggestionService.generateSuggestions(
@@ -138,9 +363,20 @@ export class AIChatHandler {
         return { ...linkResult, suggestions: suggestions.map(s => ({ label: `${s.emoji} ${s.text}`, value: s.action })) };
       }
       
-      // Step 4: Check for follow-up intent (drill-down, export, count - NOT link)
+      // Step 4: Check for follow-up intent (drill-down, export, count, table columns - NOT link)
       const followUp = detectFollowUpIntent(message);
-      if (followUp.type && followUp.type !== 'link' && this.contextService.canDrillDown(sessionId)) {
+      if (followUp.type && followUp.type !== 'link' && this.hasFollowUpContext(sessionId, followUp.type)) {
+        const followUpTool = FOLLOW_UP_TOOL_MAP[followUp.type];
+        const lastObjectType = this.contextService.getLastObjectType(sessionId);
+        if (followUpTool) {
+          const followUpRefusal = this.checkAccess(
+            sessionId, followUpTool, lastObjectType ? [lastObjectType] : []
+          );
+          if (followUpRefusal) {
+            return this.getRefusalResponse(followUpRefusal, timestamp, sessionId);
+          }
+        }
+        
         const followUpResult = await this.handleFollowUp(
           sessionId, 
           followUp.type, 
@@ -163,20 +399,42 @@ export class AIChatHandler {
           !lowerMessage.includes('fields') &&
           !lowerMessage.includes('תאר') &&
           !lowerMessage.includes('שדות')) {
-        return await this.handleCustomObjectsQuery(message, timestamp);
+        const listRefusal = this.checkAccess(sessionId, 'list_objects', []);
+        if (listRefusal) {
+          return this.getRefusalResponse(listRefusal, timestamp, sessionId);
+        }
+        return await this.handleCustomObjectsQuery(message, timestamp, sessionId);
       }
       
-      // Step 5: Use AI to understand the request and plan API calls
+      // Step 6: Agent mode works through the request over several tool calls
+      if ((options?.mode ?? this.defaultMode) === 'agent') {
+        return await this.runAgent(message, context, timestamp);
+      }
+      
+      // Step 7: Otherwise use AI to pick a single tool and its parameters
       const plan = await this.getAIPlan(message, context);
       console.log(`[AI] Plan:`, JSON.stringify(plan, null, 2));
       
-      // Step 6: Execute the plan
-      const result = await this.executePlan(plan, message, sessionId);
+      // Step 8: Enforce session permissions and object ACLs before anything runs
+      const refusal = this.authorizePlan(plan, sessionId);
+      if (refusal) {
+        return {
+          ...this.getRefusalResponse(refusal, timestamp, sessionId),
+          debug: {
+            aiPlan: plan.explanation,
+            apiCalls: [],
+            context: this.contextService.getContextSummary(sessionId),
+          },
+        };
+      }
+      
+      // Step 9: Execute the plan
+      const { data: _data, ...result } = await this.executePlan(plan, message, sessionId, timestamp);
       
-      // Step 7: Generate suggestions based on action
+      // Step 10: Generate suggestions based on action
       const suggestions = this.suggestionService.generateSuggestions(
         this.contextService.getContext(sessionId),
-        plan.action
+        result.pendingAction ? 'pending' : plan.action
       );
       
       // Add to history
@@ -198,7 +456,7 @@ export class AIChatHandler {
         suggestions: this.suggestionService.formatSuggestionsAsButtons(suggestions),
         debug: {
           aiPlan: plan.explanation,
-          apiCalls: [plan.endpoint],
+          apiCalls: plan.toolId ? [`${plan.toolId} ${JSON.stringify(plan.input)}`] : [],
           context: this.contextService.getContextSummary(sessionId),
         },
       };
@@ -209,6 +467,94 @@ export class AIChatHandler {
     }
   }
 
+  // ============================================================================
+  // AUTHORIZATION
+  // ============================================================================
+
+  /**
+   * Check a plan against the session's tools and object ACLs.
+   * The parent project is checked along with the target object.
+   */
+  private authorizePlan(plan: APIPlan, sessionId: string): AccessRefusal | null {
+    if (!plan.toolId) return null;
+    
+    const objectTypes = new Set<string>();
+    if (plan.objectType) objectTypes.add(plan.objectType);
+    if (plan.project) objectTypes.add('projects');
+    if (plan.relatedObject) objectTypes.add(plan.relatedObject);
+    
+    return this.checkAccess(sessionId, plan.toolId, Array.from(objectTypes));
+  }
+
+  /**
+   * Check tool permission and object access for a session
+   */
+  private checkAccess(sessionId: string, toolId: string, objectTypes: string[]): AccessRefusal | null {
+    if (!toolRegistry.canUseTool(sessionId, toolId)) {
+      const missingPermissions = toolRegistry.getMissingPermissions(sessionId, toolId);
+      
+      if (missingPermissions.length > 0) {
+        return {
+          code: 'tool_denied',
+          toolId,
+          missingPermissions,
+          reason: `This session lacks the ${missingPermissions.join(', ')} permission for ${toolId}`,
+        };
+      }
+      
+      return {
+        code: 'tool_unavailable',
+        toolId,
+        reason: `${toolId} is not available on this Clarity server right now`,
+      };
+    }
+    
+    for (const objectType of objectTypes) {
+      const access = sessionManager.validateObjectAccess(sessionId, objectType);
+      if (!access.allowed) {
+        const family = objectPolicy.getObjectFamily(objectType);
+        const permissions = toolRegistry.getEffectivePermissions(sessionId);
+        const missingFamily = family && !objectPolicy.canAccessFamily(permissions, objectType);
+        
+        return {
+          code: 'object_denied',
+          toolId,
+          objectType,
+          missingPermissions: missingFamily ? [family] : undefined,
+          reason: access.reason ?? `Access denied to object: ${objectType}`,
+        };
+      }
+    }
+    
+    return null;
+  }
+
+  private getRefusalResponse(refusal: AccessRefusal, timestamp: string, sessionId: string): AIResponse {
+    console.log(`[AI] Refused ${refusal.toolId} for session ${sessionId}: ${refusal.reason}`);
+    
+    let reply = `🚫 **Not permitted**\n\n${refusal.reason}.`;
+    if (refusal.missingPermissions?.length) {
+      reply += `\n\nAsk an administrator for the **${refusal.missingPermissions.join(', ')}** permission.`;
+    }
+    
+    this.contextService.addToHistory(sessionId, {
+      timestamp: new Date().toISOString(),
+      role: 'assistant',
+      message: reply.substring(0, 200),
+      action: 'refused',
+      objectType: refusal.objectType,
+      success: false,
+    });
+    
+    return {
+      success: false,
+      reply,
+      chartData: null,
+      timestamp,
+      refusal,
+    };
+  }
+
   // ============================================================================
   // FOLLOW-UP HANDLER (Drill-down, Export, etc.)
   // ============================================================================
@@ -223,6 +569,18 @@ export class AIChatHandler {
     const context = this.contextService.getContext(sessionId);
     
     switch (intentType) {
+      case 'confirm': {
+        // Tokens are case-sensitive; the pattern matched the lower-cased message
+        const token = originalMessage.match(/confirm\s+([\w-]{20,})/i)?.[1];
+        return this.confirmAction(sessionId, token);
+      }
+      
+      case 'cancel':
+        return this.cancelAction(sessionId);
+      
+      case 'undo':
+        return this.undoLastChange(sessionId);
+      
       case 'showSelected':
         return this.handleDrillDown(sessionId, extractedValue, originalMessage, timestamp);
       
@@ -232,20 +590,56 @@ export class AIChatHandler {
       case 'count':
         return this.handleCountFollowUp(sessionId, timestamp);
       
+      case 'addColumn':
+        return this.handleColumnFollowUp(sessionId, 'add', extractedValue, timestamp);
+      
+      case 'hideColumn':
+        return this.handleColumnFollowUp(sessionId, 'hide', extractedValue, timestamp);
+      
+      case 'nextPage':
+        return this.handlePageFollowUp(sessionId, 'next', extractedValue, timestamp);
+      
+      case 'previousPage':
+        return this.handlePageFollowUp(sessionId, 'previous', extractedValue, timestamp);
+      
+      case 'showAll':
+        return this.handlePageFollowUp(sessionId, 'all', extractedValue, timestamp);
+      
       case 'export':
-        // Export functionality - could be implemented later
-        return {
-          success: true,
-          reply: `📥 **Export Feature**\n\nExport functionality is coming soon! For now, you can:\n• Copy the data from above\n• Use the deep link to open in Clarity and export from there`,
-          chartData: null,
-          timestamp,
-        };
+        return this.handleExport(sessionId, extractedValue, originalMessage, timestamp);
       
       default:
         return null; // Let the normal flow handle it
     }
   }
 
+  /**
+   * Whether the last reply gives a follow-up something to act on: a pending
+   * action to confirm or cancel, a table for column changes, a paged list for
+   * paging, a chart for the rest
+   */
+  private hasFollowUpContext(sessionId: string, intentType: string): boolean {
+    switch (intentType) {
+      case 'confirm':
+        return this.pendingActionService.get(sessionId) !== null;
+      case 'cancel':
+        return this.pendingActionService.get(sessionId) !== null || this.contextService.getCreateDraft(sessionId) !== null;
+      case 'undo':
+        return true;
+      case 'addColumn':
+      case 'hideColumn':
+        return this.contextService.hasTable(sessionId);
+      case 'nextPage':
+      case 'previousPage':
+      case 'showAll':
+        return this.contextService.canPage(sessionId);
+      case 'export':
+        return this.contextService.canDrillDown(sessionId) || this.contextService.hasTable(sessionId);
+      default:
+        return this.contextService.canDrillDown(sessionId);
+    }
+  }
+
   // ============================================================================
   // DRILL-DOWN HANDLER
   // ============================================================================
@@ -254,7 +648,8 @@ export class AIChatHandler {
     sessionId: string,
     extractedValue: string | undefined,
     originalMessage: string,
-    timestamp: string
+    timestamp: string,
+    columnValue?: string
   ): Promise<AIResponse | null> {
     const context = this.contextService.getContext(sessionId);
     
@@ -291,27 +686,59 @@ export class AIChatHandler {
       };
     }
     
+    // On a pivot, a column value narrows the drill-down to one cell
+    const pivot = context.lastQuery.pivot;
+    let matchedColumn: string | null = null;
+    if (pivot) {
+      matchedColumn = columnValue
+        ? this.contextService.findDrillDownColumnMatch(sessionId, columnValue)
+        : this.contextService.getDrillDownColumnOptions(sessionId)
+            .find(option => option !== matchedValue && originalMessage.toLowerCase().includes(option.toLowerCase())) ?? null;
+    }
+    
     // Execute drill-down
-    const objectType = context.lastQuery.objectType;
+    const request = this.contextService.buildDrillDownRequest(sessionId, matchedValue, matchedColumn ?? undefined)!;
+    const objectType = request.objectType;
     const objectLabel = context.lastQuery.objectLabel;
-    const groupByField = context.lastQuery.groupByField;
+    const groupByField = request.fromField;
     const groupByDisplayName = context.lastQuery.groupByDisplayName || groupByField;
+    const measure = request.measure;
+    
+    let condition = `${groupByDisplayName} = "${matchedValue}"`;
+    if (request.columnField && request.columnValue) {
+      condition += ` and ${pivot?.columnDisplayName ?? request.columnField} = "${request.columnValue}"`;
+    }
     
-    console.log(`[AI] Drill-down: ${objectType} where ${groupByField} = "${matchedValue}"`);
+    console.log(`[AI] Drill-down: ${objectType} where ${condition}`);
     
     try {
-      // Build filter - handle lookup fields vs simple values
-      let filterValue = matchedValue;
-      if (matchedValue === '(No value)') {
-        // Can't filter by null easily, just get all and filter client-side
-        // Or use special API syntax if available
+      // Build filter - lookups by the bucket's code, the "(No value)" bucket as an empty field
+      let filter: FilterNode = bucketFilter(groupByField, matchedValue, request.selectedCode, request.selectedRange);
+      if (request.columnField && request.columnValue) {
+        filter = {
+          op: 'and',
+          filters: [filter, bucketFilter(request.columnField, request.columnValue, request.columnCode)],
+        };
       }
       
-      const endpoint = `/${objectType}?filter=((${groupByField} = '${filterValue}'))&fields=_internalId,name,code,status&limit=50`;
+      const metadata = await this.getObjectMetadata(objectType, sessionId);
+      const columns = tableColumns(metadata.attributes, defaultTableFields(metadata.attributes, measure ? [measure.field] : []));
+      const cursor: RecordCursor = {
+        path: `/${objectType}`,
+        filterParam: await this.buildFilterParam(objectType, filter, sessionId),
+        offset: 0,
+        pageSize: RECORD_PAGING.PAGE_SIZE,
+      };
       
-      const response = await this.client.get<Record<string, unknown>>(endpoint);
+      const response = await this.clientFor(sessionId).get<Record<string, unknown>>(
+        cursorEndpoint(cursor, columns.map(c => c.field), { offset: 0, limit: 50 })
+      );
       const records = (response._results ?? []) as Array<Record<string, unknown>>;
       const totalCount = (response._totalCount as number) ?? records.length;
+      const table = buildTable(
+        objectType, columns, records.slice(0, cursor.pageSize), totalCount,
+        id => this.deepLinkService.generateRecordLink(objectType, id)
+      );
       
       // Generate deep link
       const deepLink = this.deepLinkService.generateFilteredLink(
@@ -321,21 +748,16 @@ export class AIChatHandler {
       );
       
       // Format response
-      let reply = `🔍 **${objectLabel} where ${groupByDisplayName} = "${matchedValue}"**\n`;
-      reply += `Found **${totalCount}** records\n\n`;
-      
-      for (const record of records.slice(0, 15)) {
-        const name = record['name'] ?? record['code'] ?? record['_internalId'];
-        const status = this.formatFieldValue(record['status']);
-        reply += `• **${name}**`;
-        if (status) reply += ` (${status})`;
-        reply += '\n';
+      let reply = `🔍 **${objectLabel} where ${condition}**\n`;
+      reply += `Found **${totalCount}** records`;
+      const measureValue = request.columnValue
+        ? this.contextService.getPivotCell(sessionId, matchedValue, request.columnValue)
+        : this.contextService.getDrillDownBucket(sessionId, matchedValue)?.value ?? null;
+      if (measure && measureValue !== null) {
+        reply += ` · ${describeMeasure(measure)}: **${formatMeasureValue(measureValue)}**`;
       }
-      
-      if (totalCount > 15) {
-        reply += `\n_...and ${totalCount - 15} more_`;
-      }
-      
+      reply += '\n\n';
+      reply += this.formatRecordTable(table, { paged: true });
       reply += `\n\n🔗 [Open in Clarity](${deepLink})`;
       
       // Update context with drill-down results
@@ -343,9 +765,14 @@ export class AIChatHandler {
         objectType,
         objectLabel: objectLabel ?? objectType,
         action: 'drilldown',
-        filters: { [groupByField]: matchedValue },
+        filters: {
+          [groupByField]: matchedValue,
+          ...(request.columnField && request.columnValue && { [request.columnField]: request.columnValue }),
+        },
         results: records,
         totalCount,
+        table: { columns },
+        cursor,
         timestamp: new Date().toISOString(),
       });
       
@@ -353,6 +780,7 @@ export class AIChatHandler {
         success: true,
         reply,
         chartData: null,
+        table,
         timestamp,
         deepLink,
       };
@@ -368,6 +796,238 @@ export class AIChatHandler {
     }
   }
 
+  // ============================================================================
+  // TABLE COLUMN FOLLOW-UP ("add the finish date column", "hide status")
+  // ============================================================================
+
+  private async handleColumnFollowUp(
+    sessionId: string,
+    change: ColumnChange,
+    extractedValue: string | undefined,
+    timestamp: string
+  ): Promise<AIResponse | null> {
+    const lastQuery = this.contextService.getContext(sessionId).lastQuery;
+    if (!lastQuery?.table || !extractedValue) {
+      return null;
+    }
+    
+    const { objectType, objectLabel } = lastQuery;
+    const metadata = await this.getObjectMetadata(objectType, sessionId);
+    const changed = changeColumns(
+      lastQuery.table.columns, metadata.attributes, change, parseColumnNames(extractedValue), objectType
+    );
+    if ('error' in changed) {
+      return { success: false, reply: `❌ ${changed.error}`, chartData: null, timestamp };
+    }
+    
+    let records = lastQuery.results ?? [];
+    let totalCount = lastQuery.totalCount ?? records.length;
+    const cursor = lastQuery.cursor;
+    
+    // New columns the cached records don't carry are read again with the last request
+    const missing = changed.columns.filter(c => records.length > 0 && !records.some(r => c.field in r));
+    if (missing.length > 0) {
+      if (!cursor) {
+        return {
+          success: false,
+          reply: `❌ ${missing.map(c => c.displayName).join(', ')} was not read for these ${objectLabel}. Ask for them again including that field.`,
+          chartData: null,
+          timestamp,
+        };
+      }
+      
+      try {
+        const response = await this.clientFor(sessionId).get<Record<string, unknown>>(
+          cursorEndpoint(cursor, changed.columns.map(c => c.field), {
+            offset: cursor.offset,
+            limit: Math.max(records.length, cursor.pageSize),
+          })
+        );
+        records = (response._results ?? []) as Array<Record<string, unknown>>;
+        totalCount = (response._totalCount as number) ?? records.length;
+      } catch (error) {
+        console.error('[AI] Column follow-up error:', error);
+        return {
+          success: false,
+          reply: `❌ Could not read ${missing.map(c => c.displayName).join(', ')} for ${objectLabel}.\n\nError: ${error instanceof Error ? error.message : String(error)}`,
+          chartData: null,
+          timestamp,
+        };
+      }
+    }
+    
+    console.log(`[AI] Table columns: ${changed.columns.map(c => c.field).join(', ')}`);
+    
+    // Paged lists show the current page; joins show their rows as before
+    const offset = cursor?.offset ?? 0;
+    const table = buildTable(
+      objectType, changed.columns, cursor ? records.slice(0, cursor.pageSize) : records, totalCount,
+      id => this.deepLinkService.generateRecordLink(objectType, id)
+    );
+    this.contextService.updateLastQuery(sessionId, {
+      ...lastQuery,
+      results: records,
+      totalCount,
+      table: { columns: changed.columns },
+      timestamp: new Date().toISOString(),
+    });
+    
+    const heading = this.pageHeading(objectLabel, offset, table.rows.length, totalCount);
+    const text = this.formatRecordTable(table, { maxRows: cursor?.pageSize, offset, paged: !!cursor });
+    return {
+      success: true,
+      reply: `✅ **${heading}**\n\n${text}`,
+      chartData: null,
+      table,
+      timestamp,
+    };
+  }
+
+  // ============================================================================
+  // PAGING FOLLOW-UP ("next", "previous page", "show all")
+  // ============================================================================
+
+  private async handlePageFollowUp(
+    sessionId: string,
+    move: 'next' | 'previous' | 'all',
+    extractedValue: string | undefined,
+    timestamp: string
+  ): Promise<AIResponse | null> {
+    const lastQuery = this.contextService.getContext(sessionId).lastQuery;
+    const cursor = lastQuery?.cursor;
+    if (!lastQuery?.table || !cursor) {
+      return null;
+    }
+    
+    const { objectType, objectLabel } = lastQuery;
+    const requested = Number(extractedValue);
+    const pageSize = Number.isInteger(requested) && requested > 0
+      ? Math.min(requested, RECORD_PAGING.MAX_PAGE_SIZE)
+      : Math.min(cursor.pageSize, RECORD_PAGING.MAX_PAGE_SIZE);
+    
+    let offset = 0;
+    if (move === 'next') {
+      offset = cursor.offset + cursor.pageSize;
+      if (offset >= (lastQuery.totalCount ?? 0)) {
+        return { success: true, reply: `ℹ️ That was the last page - all ${lastQuery.totalCount} ${objectLabel} are shown.`, chartData: null, timestamp };
+      }
+    } else if (move === 'previous') {
+      if (cursor.offset === 0) {
+        return { success: true, reply: `ℹ️ This is already the first page of ${objectLabel}.`, chartData: null, timestamp };
+      }
+      offset = Math.max(0, cursor.offset - pageSize);
+    }
+    
+    console.log(`[AI] Page: ${objectType} ${move} from ${offset}`);
+    
+    const fields = lastQuery.table.columns.map(c => c.field);
+    let records: Array<Record<string, unknown>>;
+    let totalCount: number;
+    let capped = false;
+    
+    try {
+      if (move === 'all') {
+        const result = await this.clientFor(sessionId).getAll(
+          cursorEndpoint(cursor, fields),
+          { maxRecords: RECORD_PAGING.MAX_ALL }
+        );
+        ({ records, totalCount, capped } = result);
+      } else {
+        const response = await this.clientFor(sessionId).get<Record<string, unknown>>(
+          cursorEndpoint(cursor, fields, { offset, limit: pageSize })
+        );
+        records = (response._results ?? []) as Array<Record<string, unknown>>;
+        totalCount = (response._totalCount as number) ?? offset + records.length;
+      }
+    } catch (error) {
+      console.error('[AI] Paging error:', error);
+      return {
+        success: false,
+        reply: `❌ Could not read more ${objectLabel}.\n\nError: ${error instanceof Error ? error.message : String(error)}`,
+        chartData: null,
+        timestamp,
+      };
+    }
+    
+    if (records.length === 0) {
+      return { success: true, reply: `ℹ️ No more ${objectLabel} to show.`, chartData: null, timestamp };
+    }
+    
+    // "show all" counts as one page, so "next" continues after it
+    const nextCursor: RecordCursor = { ...cursor, offset, pageSize: move === 'all' ? records.length : pageSize };
+    this.contextService.updateLastQuery(sessionId, {
+      ...lastQuery,
+      results: records,
+      totalCount,
+      cursor: nextCursor,
+      timestamp: new Date().toISOString(),
+    });
+    
+    const table = buildTable(
+      objectType, lastQuery.table.columns, records, totalCount,
+      id => this.deepLinkService.generateRecordLink(objectType, id)
+    );
+    
+    let reply = `✅ **${this.pageHeading(objectLabel, offset, records.length, totalCount)}**\n\n`;
+    reply += this.formatRecordTable(table, { maxRows: records.length, offset, paged: true });
+    if (capped) {
+      reply += `\n\n⚠️ Showing the first ${records.length} of ${totalCount} ${objectLabel}`;
+    }
+    
+    return { success: true, reply, chartData: null, table, timestamp };
+  }
+
+  // ============================================================================
+  // EXPORT
+  // ============================================================================
+
+  private async handleExport(
+    sessionId: string,
+    requestedFormat: string | undefined,
+    originalMessage: string,
+    timestamp: string
+  ): Promise<AIResponse> {
+    const format = this.resolveExportFormat(requestedFormat, originalMessage);
+    const lastQuery = this.contextService.getContext(sessionId).lastQuery;
+    
+    try {
+      const result = await this.exportService.exportLastQuery(sessionId, lastQuery, this.clientFor(sessionId), format);
+      if ('error' in result) {
+        return { success: false, reply: `❌ ${result.error}`, chartData: null, timestamp };
+      }
+      
+      const minutes = Math.round((Date.parse(result.expiresAt) - Date.now()) / 60000);
+      let reply = `📥 **[${result.filename}](${result.url})**\n`;
+      reply += `${result.rows} rows · the link works for ${minutes} minutes`;
+      if (result.capped) {
+        reply += `\n\n⚠️ Only the first ${result.rows} of ${result.totalCount} records are included`;
+      }
+      
+      return { success: true, reply, chartData: null, download: result, timestamp };
+    } catch (error) {
+      if (error instanceof CallBudgetExceededError) throw error;
+      console.error('[AI] Export error:', error);
+      return {
+        success: false,
+        reply: `❌ Export failed: ${error instanceof Error ? error.message : String(error)}`,
+        chartData: null,
+        timestamp,
+      };
+    }
+  }
+
+  /**
+   * Format named by the tool call, or mentioned in the message ("to excel"); CSV otherwise
+   */
+  private resolveExportFormat(requested: string | undefined, message: string): ExportFormat {
+    if (requested && EXPORT_FORMATS.includes(requested as ExportFormat)) {
+      return requested as ExportFormat;
+    }
+    if (/xlsx|excel|אקסל/i.test(message)) return 'xlsx';
+    if (/json/i.test(message)) return 'json';
+    return 'csv';
+  }
+
   // ============================================================================
   // LINK REQUEST HANDLER
   // ============================================================================
@@ -451,7 +1111,7 @@ export class AIChatHandler {
         }
         
         // Try to find as a project record
-        const record = await this.findRecordByName('projects', recordName);
+        const record = await this.findRecordByName(sessionId, 'projects', recordName);
         
         if (record) {
           const deepLink = this.deepLinkService.generateRecordLink('projects', record._internalId, 'properties');
@@ -517,31 +1177,32 @@ export class AIChatHandler {
    * Find a record by name or code (without using unsupported fields)
    */
   private async findRecordByName(
+    sessionId: string,
     objectType: string,
     nameOrCode: string
   ): Promise<{ _internalId: number; name?: string; code?: string } | null> {
     try {
-      // Escape special characters for filter
-      const escapedName = nameOrCode.replace(/'/g, "''");
+      const byField = (op: '=' | 'contains', field: string): string =>
+        filterCompiler.toQueryParam({ op, field, value: nameOrCode });
       
       // Strategy 1: Try exact code match (case-sensitive)
-      let response = await this.client.get<Record<string, unknown>>(
-        `/${objectType}?filter=((code = '${escapedName}'))&fields=_internalId,name,code&limit=1`
+      let response = await this.clientFor(sessionId).get<Record<string, unknown>>(
+        `/${objectType}?${byField('=', 'code')}&fields=_internalId,name,code&limit=1`
       );
       let records = (response._results ?? []) as Array<Record<string, unknown>>;
       
       // Strategy 2: Try exact name match
       if (records.length === 0) {
-        response = await this.client.get<Record<string, unknown>>(
-          `/${objectType}?filter=((name = '${escapedName}'))&fields=_internalId,name,code&limit=1`
+        response = await this.clientFor(sessionId).get<Record<string, unknown>>(
+          `/${objectType}?${byField('=', 'name')}&fields=_internalId,name,code&limit=1`
         );
         records = (response._results ?? []) as Array<Record<string, unknown>>;
       }
       
       // Strategy 3: Try name contains (partial match, case-insensitive on most DBs)
       if (records.length === 0) {
-        response = await this.client.get<Record<string, unknown>>(
-          `/${objectType}?filter=((name contains '${escapedName}'))&fields=_internalId,name,code&limit=5`
+        response = await this.clientFor(sessionId).get<Record<string, unknown>>(
+          `/${objectType}?${byField('contains', 'name')}&fields=_internalId,name,code&limit=5`
         );
         records = (response._results ?? []) as Array<Record<string, unknown>>;
         
@@ -559,8 +1220,8 @@ export class AIChatHandler {
       
       // Strategy 4: Try code contains (for partial code matches)
       if (records.length === 0) {
-        response = await this.client.get<Record<string, unknown>>(
-          `/${objectType}?filter=((code contains '${escapedName}'))&fields=_internalId,name,code&limit=5`
+        response = await this.clientFor(sessionId).get<Record<string, unknown>>(
+          `/${objectType}?${byField('contains', 'code')}&fields=_internalId,name,code&limit=5`
         );
         records = (response._results ?? []) as Array<Record<string, unknown>>;
         
@@ -673,12 +1334,35 @@ export class AIChatHandler {
     console.log(`[AI] Discovered ${this.discoveredObjects.length} objects`);
   }
 
-  private async getObjectMetadata(objectType: string): Promise<ObjectMetadata> {
-    if (!this.metadataCache.has(objectType)) {
-      const metadata = await this.metadataService.getObjectMetadata(objectType);
-      this.metadataCache.set(objectType, metadata);
-    }
-    return this.metadataCache.get(objectType)!;
+  /**
+   * Object metadata as this session may see it (financial fields stripped without 'financials')
+   */
+  private async getObjectMetadata(objectType: string, sessionId: string): Promise<ObjectMetadata> {
+    const metadata = await this.metadataService.getObjectMetadata(objectType);
+    return objectPolicy.filterMetadata(toolRegistry.getEffectivePermissions(sessionId), metadata);
+  }
+
+  /**
+   * `filter=` query parameter, validated against the session's view of the object
+   * and with lookup display values resolved to codes
+   */
+  private async buildFilterParam(objectType: string, filter: FilterNode, sessionId: string): Promise<string> {
+    const metadata = await this.getObjectMetadata(objectType, sessionId);
+    const resolved = await filterCompiler.resolveLookups(
+      filter,
+      metadata,
+      (lookupType, value) => this.lookupService.resolveToCode(lookupType, value)
+    );
+    return filterCompiler.toQueryParam(resolved, metadata);
+  }
+
+  private async redact(
+    sessionId: string,
+    objectType: string,
+    records: Array<Record<string, unknown>>
+  ): Promise<Array<Record<string, unknown>>> {
+    const metadata = await this.metadataService.getObjectMetadata(objectType);
+    return objectPolicy.redactRecords(toolRegistry.getEffectivePermissions(sessionId), metadata, records);
   }
 
   // ============================================================================
@@ -757,7 +1441,7 @@ export class AIChatHandler {
   // CUSTOM OBJECTS HANDLER (bypasses AI)
   // ============================================================================
 
-  private async handleCustomObjectsQuery(message: string, timestamp: string): Promise<AIResponse> {
+  private async handleCustomObjectsQuery(message: string, timestamp: string, sessionId: string): Promise<AIResponse> {
     const lowerMessage = message.toLowerCase();
     const customObjects = await this.metadataService.getCustomObjects();
     
@@ -787,7 +1471,7 @@ export class AIChatHandler {
       
       for (const obj of customObjects) {
         try {
-          const response = await this.client.get<Record<string, unknown>>(
+          const response = await this.clientFor(sessionId).get<Record<string, unknown>>(
             `/${obj.resourceName}?fields=_internalId&limit=1`
           );
           const count = (response._totalCount as number) ?? 0;
@@ -839,7 +1523,14 @@ export class AIChatHandler {
   // AI PLANNING (with context)
   // ============================================================================
 
-  private async getAIPlan(userMessage: string, context: ConversationContext): Promise<APIPlan> {
+  /**
+   * System prompt and the session's tools for planning a message
+   */
+  private async buildPlannerRequest(
+    userMessage: string,
+    context: ConversationContext,
+    mode: ChatMode
+  ): Promise<PlannerRequest> {
     // Detect target object - pass sessionId for context awareness
     const targetObject = await this.detectTargetObject(userMessage, context.sessionId);
     const objectType = targetObject?.objectType ?? 'projects';
@@ -848,7 +1539,7 @@ export class AIChatHandler {
     console.log(`[AI] Target object: ${objectLabel} (${objectType})`);
     
     // Get metadata for the target object
-    const targetMetadata = await this.getObjectMetadata(objectType);
+    const targetMetadata = await this.getObjectMetadata(objectType, context.sessionId);
     const customObjects = await this.metadataService.getCustomObjects();
     
     // Build context about available objects and fields
@@ -879,6 +1570,11 @@ export class AIChatHandler {
       .map(a => `"${a.apiName}" (${a.displayName})`)
       .join(', ');
     
+    const measureList = this.metadataService.getMeasureFields(targetMetadata)
+      .slice(0, 30)
+      .map(a => `"${a.apiName}" (${a.displayName})`)
+      .join(', ');
+    
     // Get ALL fields mapping
     const allFieldMappings = targetMetadata.attributes
       .filter(a => !a.apiName.startsWith('_') || a.apiName === '_internalId')
@@ -888,7 +1584,17 @@ export class AIChatHandler {
     // Add context summary to prompt
     const contextSummary = this.contextService.getContextSummary(context.sessionId);
 
-    const systemPrompt = `You are a Clarity PPM API expert. Your job is to understand user requests and create the correct REST API plan.
+    // Only the tools this session may use are offered to the model
+    const tools = toolRegistry.getAvailableTools(context.sessionId);
+    const withheldTools = ALL_TOOLS
+      .filter(t => !tools.some(available => available.id === t.id))
+      .map(t => t.name);
+
+    const task = mode === 'agent'
+      ? `Work through the user's request step by step: call tools, read their results, and call more tools until you can answer. Then reply with the final answer in plain language.`
+      : `Understand the user's request and call the one tool that fulfils it.`;
+
+    const systemPrompt = `You are a Clarity PPM assistant. ${task}
 
 CONVERSATION CONTEXT:
 ${contextSummary || 'No previous context'}
@@ -896,7 +1602,7 @@ ${contextSummary || 'No previous context'}
 DETECTED TARGET OBJECT: ${objectLabel} (${objectType})
 
 CRITICAL RULES:
-1. ALWAYS use apiName (not displayName) in endpoints and groupByField
+1. ALWAYS use apiName (not displayName) for objects, fields, groupBy and filters
 2. The user is asking about: ${objectLabel} (${objectType})
 3. If user mentions a field by display name, find the apiName from the mapping below
 4. Hebrew display names are common - always map them to their apiName
@@ -909,93 +1615,396 @@ CUSTOM OBJECTS: ${customObjectList}
 
 FIELDS FOR "${objectLabel}" (${objectType}):
 GROUPABLE FIELDS: ${groupableList}
+NUMERIC FIELDS (measures): ${measureList || 'none'}
 
 FIELD MAPPINGS (displayName → apiName):
     ${allFieldMappings}
 
-CLARITY REST API RULES:
-1. Base endpoints: /{objectType}
-2. TASKS ARE CHILD OF PROJECTS: /projects/{projectId}/tasks
-3. Filter syntax: filter=((field = 'value'))
-4. Supported operators: =, !=, >, <, >=, <=, in, notIn (NO 'like'!)
+TOOL RULES:
+1. ${mode === 'agent' ? `You have at most ${this.agentMaxSteps} tool calls - plan them` : 'Call exactly one tool'}
+2. TASKS ARE CHILDREN OF PROJECTS: pass the project name or code in "project"
+3. Filters are JSON: {"op":"=","field":"status","value":"x"}; combine with {"op":"and"|"or","filters":[...]} or {"op":"not","filter":{...}}
+4. Filter operators: =, !=, >, <, >=, <= (numbers and dates), in / notIn with "values", contains / startsWith (text), isNull / isNotNull, between with "from"/"to" (dates as YYYY-MM-DD; today is ${new Date().toISOString().slice(0, 10)})
 5. MAXIMUM LIMIT IS 500!
-6. For counting: use limit=1 and read _totalCount
-7. Fields selection: fields=field1,field2,field3
-
-RESPONSE FORMAT - Return ONLY valid JSON:
-{
-  "action": "query|create|update|delete|analyze|describe|help|drilldown",
-  "objectType": "${objectType}",
-  "method": "GET|POST|PATCH|DELETE",
-  "endpoint": "the full endpoint path",
-  "groupByField": "${foundFieldApiName || 'field to group by'}",
-  "filterField": "field to filter by (for drilldown)",
-  "filterValue": "value to filter by (for drilldown)",
-  "explanation": "brief explanation"
-}`;
-
-    const response = await this.anthropic.messages.create({
-      model: 'claude-sonnet-4-20250514',
-      max_tokens: 1024,
-      system: systemPrompt,
-      messages: [
-        {
-          role: 'user',
-          content: `User request: "${userMessage}"\n\nReturn ONLY the JSON plan.`,
-        },
-      ],
-    });
-
-    const content = response.content[0];
-    if (!content || content.type !== 'text') {
-      throw new Error('Unexpected response type from AI');
-    }
+6. For "how many" questions use count_records
+7. For totals, averages, minimums or maximums per group use create_chart with "measure" (a numeric field) and "aggregate" (sum, avg, min, max)
+8. For "X per month / week / quarter" group by a date field with "interval" (day, week, month, quarter, year)
+9. For "the N largest / latest / smallest ..." use list_records with "sortBy", "sortDirection" and "limit"; for the top or bottom N groups of a chart use create_chart with "limit" and "sortDirection"
+10. For records together with fields of a related object ("tasks with their project manager") use join_records
+11. For "X by A and by B" (a cross-tab) use create_chart with "groupBy" A and "columnBy" B; to open one cell use drill_down with "value" (row) and "column"
+12. If no tool fits, or the request needs a tool you were not given, do not call a tool - answer in one or two sentences
 
-    const jsonMatch = content.text.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error('Could not parse AI response as JSON');
-    }
+NOT AVAILABLE IN THIS SESSION: ${withheldTools.join(', ') || 'none'}`;
 
-    const plan = JSON.parse(jsonMatch[0]) as APIPlan;
-    
-    // Force field if we found a match
-    if (foundFieldApiName && plan.action === 'analyze') {
-      plan.groupByField = foundFieldApiName;
-    }
+    return { systemPrompt, tools, objectType, foundFieldApiName };
+  }
 
-    return plan;
+  /**
+   * Anthropic tool definitions for registry tools
+   */
+  private toAnthropicTools(tools: ToolDefinition[]): Anthropic.Tool[] | undefined {
+    if (tools.length === 0) return undefined;
+
+    return tools.map(tool => ({
+      name: tool.id,
+      description: tool.description,
+      input_schema: { ...buildToolInputSchema(tool) },
+    }));
   }
 
-  // ============================================================================
-  // PLAN EXECUTION
+  private async getAIPlan(userMessage: string, context: ConversationContext): Promise<APIPlan> {
+    const { systemPrompt, tools, objectType, foundFieldApiName } =
+      await this.buildPlannerRequest(userMessage, context, 'single');
+
+    const messages: Anthropic.MessageParam[] = [
+      { role: 'user', content: `User request: "${userMessage}"` },
+    ];
+
+    for (let attempt = 1; attempt <= MAX_PLANNER_ATTEMPTS; attempt++) {
+      const response = await this.anthropic.messages.create({
+        model: 'claude-sonnet-4-20250514',
+        max_tokens: 1024,
+        system: systemPrompt,
+        tools: this.toAnthropicTools(tools),
+        messages,
+      });
+
+      const text = response.content
+        .filter((block): block is Anthropic.TextBlock => block.type === 'text')
+        .map(block => block.text)
+        .join('\n')
+        .trim();
+      const toolUse = response.content.find(
+        (block): block is Anthropic.ToolUseBlock => block.type === 'tool_use'
+      );
+
+      // No tool call: the model answered directly
+      if (!toolUse) {
+        return this.answerPlan(objectType, text || 'I could not work out what to do with that request.');
+      }
+
+      const tool = tools.find(t => t.id === toolUse.name);
+      const errors = tool
+        ? validateToolInput(tool, toolUse.input)
+        : [`Unknown tool "${toolUse.name}"`];
+
+      if (tool && errors.length === 0) {
+        const input = toolUse.input as Record<string, unknown>;
+        const plan = this.toPlan(tool, input, objectType, context.sessionId, text || `${tool.name} (${tool.id})`);
+
+        // Force field if we found a match (unless it is the field being aggregated)
+        if (foundFieldApiName && plan.action === 'analyze'
+          && foundFieldApiName !== plan.measureField && foundFieldApiName !== plan.columnField) {
+          plan.groupByField = foundFieldApiName;
+        }
+
+        return plan;
+      }
+
+      console.warn(`[AI] Invalid ${toolUse.name} call (attempt ${attempt}): ${errors.join('; ')}`);
+      if (attempt === MAX_PLANNER_ATTEMPTS) {
+        throw new Error(`AI returned an invalid ${toolUse.name} call: ${errors.join('; ')}`);
+      }
+
+      // Hand the errors back so the model can correct the call
+      messages.push(
+        { role: 'assistant', content: response.content },
+        {
+          role: 'user',
+          content: [{
+            type: 'tool_result',
+            tool_use_id: toolUse.id,
+            is_error: true,
+            content: `Invalid input:\n${errors.join('\n')}`,
+          }],
+        }
+      );
+    }
+
+    throw new Error('AI did not return a plan');
+  }
+
+  /**
+   * Map validated tool input onto a plan
+   */
+  private toPlan(
+    tool: ToolDefinition,
+    input: Record<string, unknown>,
+    detectedObject: string,
+    sessionId: string,
+    explanation: string
+  ): APIPlan {
+    const str = (key: string): string | undefined =>
+      typeof input[key] === 'string' ? input[key] as string : undefined;
+    const list = (key: string): string[] | undefined =>
+      str(key)?.split(',').map(item => item.trim()).filter(Boolean);
+    const values = input['values'];
+    
+    // Tools without a required object act on the last queried object
+    const fallbackObject = tool.parameters?.some(p => p.name === 'object' && p.required)
+      ? detectedObject
+      : this.contextService.getLastObjectType(sessionId) ?? '';
+
+    return {
+      action: TOOL_ACTION_MAP[tool.id] ?? 'answer',
+      toolId: tool.id,
+      input,
+      objectType: str('object') ?? fallbackObject,
+      project: str('project'),
+      limit: typeof input['limit'] === 'number' ? input['limit'] : undefined,
+      filter: typeof input['filter'] === 'object' && input['filter'] !== null ? input['filter'] as FilterNode : undefined,
+      sortBy: str('sortBy'),
+      sortDirection: str('sortDirection'),
+      relatedObject: str('related'),
+      via: str('via'),
+      fields: list('fields'),
+      relatedFields: list('relatedFields'),
+      relatedFilter: typeof input['relatedFilter'] === 'object' && input['relatedFilter'] !== null
+        ? input['relatedFilter'] as FilterNode
+        : undefined,
+      groupByField: str('groupBy'),
+      measureField: str('measure'),
+      aggregate: str('aggregate'),
+      columnField: str('columnBy'),
+      interval: str('interval') as DateInterval | undefined,
+      columnValue: str('column'),
+      filterValue: str('value'),
+      recordId: str('id'),
+      name: str('name'),
+      values: typeof values === 'object' && values !== null ? values as Record<string, unknown> : undefined,
+      explanation,
+    };
+  }
+
+  private answerPlan(objectType: string, text: string): APIPlan {
+    return { action: 'answer', toolId: null, input: {}, objectType, explanation: text };
+  }
+
+  // ============================================================================
+  // AGENT LOOP
+  // ============================================================================
+
+  /**
+   * Answer a message over several tool calls, handing each result back to the model.
+   * Stops calling tools once the step budget or the turn's Clarity call budget is spent.
+   */
+  private async runAgent(message: string, context: ConversationContext, timestamp: string): Promise<AIResponse> {
+    const sessionId = context.sessionId;
+    const { systemPrompt, tools, objectType } = await this.buildPlannerRequest(message, context, 'agent');
+    const anthropicTools = this.toAnthropicTools(tools);
+
+    const budget = new ClarityCallBudget(this.agentMaxClarityCalls);
+    this.callBudgets.set(sessionId, budget);
+
+    const messages: Anthropic.MessageParam[] = [
+      { role: 'user', content: `User request: "${message}"` },
+    ];
+    const apiCalls: string[] = [];
+    let steps = 0;
+    let lastAction = 'query';
+    let chartData: ChartData | null = null;
+    let table: TableBlock | undefined;
+    let deepLink: string | undefined;
+    let download: ExportLink | undefined;
+    let chartImage: ChartImageLink | undefined;
+    let pendingAction: PendingActionPreview | undefined;
+    let reply = '';
+
+    try {
+      // Every turn but the last carries at least one tool call, so this ends
+      for (let turn = 0; turn <= this.agentMaxSteps; turn++) {
+        const outOfBudget = turn === this.agentMaxSteps || steps >= this.agentMaxSteps || budget.exhausted;
+
+        const response = await this.anthropic.messages.create({
+          model: 'claude-sonnet-4-20250514',
+          max_tokens: 2048,
+          system: systemPrompt,
+          tools: anthropicTools,
+          tool_choice: outOfBudget && anthropicTools ? { type: 'none' } : undefined,
+          messages,
+        });
+
+        reply = response.content
+          .filter((block): block is Anthropic.TextBlock => block.type === 'text')
+          .map(block => block.text)
+          .join('\n')
+          .trim();
+        const toolUses = response.content.filter(
+          (block): block is Anthropic.ToolUseBlock => block.type === 'tool_use'
+        );
+        if (toolUses.length === 0 || outOfBudget) break;
+
+        const results: Anthropic.ToolResultBlockParam[] = [];
+        for (const toolUse of toolUses) {
+          const tool = tools.find(t => t.id === toolUse.name);
+          const errors = tool
+            ? validateToolInput(tool, toolUse.input)
+            : [`Unknown tool "${toolUse.name}"`];
+          if (!tool || errors.length > 0) {
+            results.push(this.toolResult(toolUse.id, `Invalid input:\n${errors.join('\n')}`, true));
+            continue;
+          }
+          if (steps >= this.agentMaxSteps) {
+            results.push(this.toolResult(toolUse.id, 'Step budget used up - answer with what you have', true));
+            continue;
+          }
+
+          steps++;
+          const plan = this.toPlan(tool, toolUse.input as Record<string, unknown>, objectType, sessionId, tool.name);
+          apiCalls.push(`[step ${steps}] ${tool.id} ${JSON.stringify(plan.input)}`);
+
+          const refusal = this.authorizePlan(plan, sessionId);
+          if (refusal) {
+            apiCalls.push(`  → refused: ${refusal.reason}`);
+            results.push(this.toolResult(toolUse.id, `Not permitted: ${refusal.reason}`, true));
+            continue;
+          }
+
+          const callsBefore = budget.used;
+          try {
+            const result = await this.executePlan(plan, message, sessionId, timestamp);
+            lastAction = result.pendingAction ? 'pending' : plan.action;
+            chartData = result.chartData ?? chartData;
+            table = result.table ?? table;
+            deepLink = result.deepLink ?? deepLink;
+            download = result.download ?? download;
+            chartImage = result.chartImage ?? chartImage;
+            pendingAction = result.pendingAction ?? pendingAction;
+            results.push(this.toolResult(toolUse.id, this.formatObservation(result), !result.success));
+          } catch (error) {
+            const reason = error instanceof CallBudgetExceededError
+              ? `${error.message} - answer with what you have`
+              : `Failed: ${error instanceof Error ? error.message : String(error)}`;
+            results.push(this.toolResult(toolUse.id, reason, true));
+          } finally {
+            apiCalls.push(...budget.getCalls().slice(callsBefore).map(call => `  → ${call}`));
+          }
+        }
+
+        messages.push(
+          { role: 'assistant', content: response.content },
+          { role: 'user', content: results }
+        );
+      }
+    } finally {
+      this.callBudgets.delete(sessionId);
+    }
+
+    console.log(`[AI] Agent finished: ${steps} steps, ${budget.used} Clarity calls`);
+
+    reply = reply || '❓ I could not reach an answer within the step budget.';
+    const suggestions = this.suggestionService.generateSuggestions(
+      this.contextService.getContext(sessionId),
+      lastAction
+    );
+
+    this.contextService.addToHistory(sessionId, {
+      timestamp: new Date().toISOString(),
+      role: 'assistant',
+      message: reply.substring(0, 200),
+      action: 'agent',
+      success: true,
+    });
+
+    return {
+      success: true,
+      reply,
+      chartData,
+      table,
+      deepLink,
+      download,
+      chartImage,
+      pendingAction,
+      timestamp,
+      suggestions: this.suggestionService.formatSuggestionsAsButtons(suggestions),
+      debug: {
+        aiPlan: `Agent: ${steps}/${this.agentMaxSteps} steps, ${budget.used}/${budget.maxCalls} Clarity calls`,
+        apiCalls,
+        context: this.contextService.getContextSummary(sessionId),
+      },
+    };
+  }
+
+  private toolResult(toolUseId: string, content: string, isError: boolean): Anthropic.ToolResultBlockParam {
+    return { type: 'tool_result', tool_use_id: toolUseId, content, is_error: isError };
+  }
+
+  /**
+   * What the agent sees of a step: the reply plus any records or chart data
+   */
+  private formatObservation(result: PlanResult): string {
+    let observation = result.reply;
+    if (result.data !== undefined) {
+      observation += `\n\nDATA: ${JSON.stringify(result.data)}`;
+    }
+    if (result.chartData) {
+      observation += `\n\nCHART: ${JSON.stringify(result.chartData.chartData)}`;
+    }
+
+    return observation.length > MAX_OBSERVATION_CHARS
+      ? `${observation.slice(0, MAX_OBSERVATION_CHARS)}\n...(truncated)`
+      : observation;
+  }
+
+  // ============================================================================
+  // PLAN EXECUTION
   // ============================================================================
 
   private async executePlan(
     plan: APIPlan, 
     originalMessage: string,
-    sessionId: string
-  ): Promise<Omit<AIResponse, 'timestamp' | 'debug' | 'suggestions'>> {
+    sessionId: string,
+    timestamp: string
+  ): Promise<PlanResult> {
     switch (plan.action) {
-      case 'help':
-        return this.getHelpResponse('').then(r => ({ success: r.success, reply: r.reply, chartData: r.chartData }));
+      case 'answer':
+        return { success: true, reply: plan.explanation, chartData: null };
       
       case 'describe':
-        return this.executeDescribe(plan);
+        return this.executeDescribe(plan, sessionId);
       
       case 'query':
-        return this.executeQuery(plan, originalMessage, sessionId);
+        return this.executeQuery(plan, sessionId);
+      
+      case 'join':
+        return this.executeJoin(plan, sessionId);
+      
+      case 'count':
+        return this.executeCount(plan, sessionId);
+      
+      case 'get':
+        return this.executeGetRecord(plan, sessionId);
       
       case 'analyze':
         return this.executeAnalyze(plan, sessionId);
       
+      case 'drilldown':
+        return await this.handleDrillDown(sessionId, plan.filterValue, originalMessage, timestamp, plan.columnValue) ?? {
+          success: false,
+          reply: '❓ There is no chart to drill into yet. Create a chart first, then pick a value.',
+          chartData: null,
+        };
+      
+      case 'link':
+        return this.handleLinkRequest(sessionId, timestamp, originalMessage);
+      
+      case 'export':
+        return this.handleExport(sessionId, plan.input['format'] as string | undefined, originalMessage, timestamp);
+      
+      case 'objects':
+        return this.handleCustomObjectsQuery(originalMessage, timestamp, sessionId);
+      
       case 'create':
-        return this.executeCreate(plan, originalMessage);
+        return this.executeCreate(plan, sessionId);
       
       case 'update':
-        return this.executeUpdate(plan, originalMessage);
+        return this.executeUpdate(plan, sessionId);
+      
+      case 'bulkUpdate':
+        return this.executeBulkUpdate(plan, sessionId);
       
       case 'delete':
-        return this.executeDelete(plan, originalMessage);
+        return this.executeDelete(plan, sessionId);
       
       default:
         return {
@@ -1006,8 +2015,8 @@ RESPONSE FORMAT - Return ONLY valid JSON:
     }
   }
 
-  private async executeDescribe(plan: APIPlan): Promise<Omit<AIResponse, 'timestamp' | 'debug' | 'suggestions'>> {
-    const metadata = await this.getObjectMetadata(plan.objectType);
+  private async executeDescribe(plan: APIPlan, sessionId: string): Promise<PlanResult> {
+    const metadata = await this.getObjectMetadata(plan.objectType, sessionId);
     const groupableFields = this.metadataService.getGroupableFields(metadata);
     const lookupFields = metadata.attributes.filter(a => a.isLookup);
 
@@ -1032,34 +2041,53 @@ RESPONSE FORMAT - Return ONLY valid JSON:
 
   private async executeQuery(
     plan: APIPlan, 
-    originalMessage: string,
     sessionId: string
-  ): Promise<Omit<AIResponse, 'timestamp' | 'debug' | 'suggestions'>> {
-    let endpoint = plan.endpoint;
-    
-    // Ensure limit never exceeds 500
-    endpoint = endpoint.replace(/limit=\d+/, (match) => {
-      const limit = parseInt(match.split('=')[1] ?? '500');
-      return `limit=${Math.min(limit, 500)}`;
-    });
+  ): Promise<PlanResult> {
+    const resolvedPath = await this.resolveObjectPath(plan, sessionId);
+    if ('error' in resolvedPath) {
+      return { success: false, reply: `❌ ${resolvedPath.error}`, chartData: null };
+    }
+    const path = resolvedPath.path;
     
-    // Handle project lookup for child objects
-    if (endpoint.includes('{projectId}')) {
-      const projectName = this.extractProjectName(originalMessage);
-      if (projectName) {
-        const project = await this.findRecord('projects', projectName);
-        if (project) {
-          endpoint = endpoint.replace('{projectId}', String(project._internalId));
-        } else {
-          return { success: false, reply: `❌ Could not find project "${projectName}"`, chartData: null };
-        }
-      } else {
-        return { success: false, reply: `❌ Please specify a project name`, chartData: null };
-      }
+    const metadata = await this.getObjectMetadata(plan.objectType, sessionId);
+    const resolvedSort = resolveSort(metadata.attributes, plan.sortBy, plan.sortDirection);
+    if ('error' in resolvedSort) {
+      return { success: false, reply: `❌ ${resolvedSort.error}`, chartData: null };
     }
+    const sort = resolvedSort.sort;
+
+    // Requested columns, or name and status plus the sort field
+    const fields = plan.fields
+      ? resolveFieldNames(metadata.attributes, plan.fields, plan.objectType)
+      : { fields: defaultTableFields(metadata.attributes, sort ? [sort.field] : []) };
+    if ('error' in fields) {
+      return { success: false, reply: `❌ ${fields.error}`, chartData: null };
+    }
+    const columns = tableColumns(metadata.attributes, fields.fields);
+
+    // Limit never exceeds 500
+    let endpoint = `${path}?limit=${Math.min(plan.limit ?? 20, 500)}`;
 
     try {
-      const response = await this.client.get<Record<string, unknown>>(endpoint);
+      // An explicit limit (top-N) is shown in full, and pages continue at that size
+      const cursor: RecordCursor = {
+        path,
+        filterParam: plan.filter ? await this.buildFilterParam(plan.objectType, plan.filter, sessionId) : undefined,
+        sortParam: sort ? toSortParam(sort) : undefined,
+        offset: 0,
+        pageSize: plan.limit ? Math.min(plan.limit, RECORD_PAGING.MAX_PAGE_SIZE) : RECORD_PAGING.PAGE_SIZE,
+      };
+      if (cursor.filterParam) {
+        endpoint += `&${cursor.filterParam}`;
+      }
+      if (cursor.sortParam) {
+        endpoint += `&${cursor.sortParam}`;
+      }
+      if (plan.fields) {
+        endpoint = withFields(endpoint, fields.fields);
+      }
+      
+      const response = await this.clientFor(sessionId).get<Record<string, unknown>>(endpoint);
       const records = (response._results ?? []) as Array<Record<string, unknown>>;
       const totalCount = (response._totalCount as number) ?? records.length;
 
@@ -1071,53 +2099,218 @@ RESPONSE FORMAT - Return ONLY valid JSON:
         action: 'query',
         results: records,
         totalCount,
+        table: { columns },
+        cursor,
         timestamp: new Date().toISOString(),
       });
 
-      // Check if count query
-      if (endpoint.includes('limit=1') && !endpoint.includes('limit=10')) {
-        const projectName = this.extractProjectName(originalMessage);
-        const contextStr = projectName ? ` in project "${projectName}"` : '';
-        
+      const table = buildTable(
+        plan.objectType, columns, records.slice(0, cursor.pageSize), totalCount,
+        id => this.deepLinkService.generateRecordLink(plan.objectType, id)
+      );
+
+      let reply = `✅ **${totalCount} ${label}**`;
+      if (sort) {
+        reply += ` · by ${sort.displayName} (${sort.direction === 'desc' ? 'descending' : 'ascending'})`;
+      }
+      reply += '\n\n';
+      reply += this.formatRecordTable(table, { maxRows: cursor.pageSize, paged: true });
+
+      return {
+        success: true,
+        reply,
+        chartData: null,
+        table,
+        data: { totalCount, records: await this.redact(sessionId, plan.objectType, records) },
+      };
+      
+    } catch (error) {
+      if (error instanceof FilterValidationError) {
         return {
-          success: true,
-          reply: `📊 **Found ${totalCount} ${label}**${contextStr}`,
+          success: false,
+          reply: `❌ Invalid filter:\n${error.issues.map(issue => `• ${issue}`).join('\n')}`,
           chartData: null,
         };
       }
+      return {
+        success: false,
+        reply: `❌ Query failed: ${error instanceof Error ? error.message : String(error)}`,
+        chartData: null,
+      };
+    }
+  }
+
+  private async executeJoin(
+    plan: APIPlan,
+    sessionId: string
+  ): Promise<PlanResult> {
+    const relatedObject = plan.relatedObject ?? '';
+    const [metadata, relatedMetadata] = await Promise.all([
+      this.getObjectMetadata(plan.objectType, sessionId),
+      this.getObjectMetadata(relatedObject, sessionId),
+    ]);
+
+    const relation = resolveRelation(plan.objectType, relatedObject, metadata.attributes, plan.via);
+    if ('error' in relation) {
+      return { success: false, reply: `❌ ${relation.error}`, chartData: null };
+    }
+    if (plan.relatedFilter && relation.relation.kind !== 'parent') {
+      return { success: false, reply: `❌ A filter on ${relatedObject} only applies when it is the parent of ${plan.objectType}.`, chartData: null };
+    }
+
+    const defaultFields = ['name', 'code'].filter(f => metadata.attributes.some(a => a.apiName === f));
+    const fields = resolveFieldNames(metadata.attributes, plan.fields ?? defaultFields, plan.objectType);
+    if ('error' in fields) {
+      return { success: false, reply: `❌ ${fields.error}`, chartData: null };
+    }
+    const relatedFields = resolveFieldNames(relatedMetadata.attributes, plan.relatedFields ?? ['name'], relatedObject);
+    if ('error' in relatedFields) {
+      return { success: false, reply: `❌ ${relatedFields.error}`, chartData: null };
+    }
+
+    try {
+      const result = await joinRecords(this.clientFor(sessionId), {
+        object: plan.objectType,
+        relatedObject,
+        relation: relation.relation,
+        fields: fields.fields,
+        relatedFields: relatedFields.fields,
+        filterParam: plan.filter ? await this.buildFilterParam(plan.objectType, plan.filter, sessionId) : undefined,
+        relatedFilterParam: plan.relatedFilter
+          ? await this.buildFilterParam(relatedObject, plan.relatedFilter, sessionId)
+          : undefined,
+        limit: Math.min(plan.limit ?? 50, 500),
+      });
 
-      // Format as list
-      let reply = `✅ **${totalCount} ${label}**\n\n`;
+      const label = await this.metadataService.getObjectLabel(plan.objectType);
+      const relatedLabel = relatedMetadata.label || relatedObject;
+
+      // Related columns are labelled with the related object ("Project Manager")
+      const columns: TableColumn[] = [
+        ...tableColumns(metadata.attributes, fields.fields),
+        ...tableColumns(relatedMetadata.attributes, relatedFields.fields).map(column => ({
+          ...column,
+          field: joinedFieldName(relatedObject, column.field),
+          displayName: `${relatedLabel} ${column.displayName}`,
+        })),
+      ];
+      const table = buildTable(
+        plan.objectType, columns, result.rows, result.rows.length,
+        id => this.deepLinkService.generateRecordLink(plan.objectType, id)
+      );
+
+      this.contextService.updateLastQuery(sessionId, {
+        objectType: plan.objectType,
+        objectLabel: label,
+        action: 'join',
+        results: result.rows,
+        totalCount: result.rows.length,
+        table: { columns },
+        timestamp: new Date().toISOString(),
+      });
 
-      for (const record of records.slice(0, 15)) {
-        const name = record['name'] ?? record['code'] ?? record['_internalId'];
-        const status = this.formatFieldValue(record['status']);
-        reply += `• **${name}**`;
-        if (status) reply += ` (${status})`;
-        reply += '\n';
+      let reply = `🧩 **${result.rows.length} ${label} with ${relatedLabel}**\n\n`;
+      reply += this.formatRecordTable(table);
+      if (result.truncated) {
+        reply += relation.relation.kind === 'parent'
+          ? `\n_More may match - ${result.relatedCount} ${relatedLabel} were checked. Narrow the filters to see the rest._`
+          : `\n_More ${label} match - narrow the filter to see the rest._`;
       }
 
-      if (totalCount > 15) {
-        reply += `\n_...and ${totalCount - 15} more_`;
+      return {
+        success: true,
+        reply,
+        chartData: null,
+        table,
+        data: { rows: result.rows, truncated: result.truncated },
+      };
+
+    } catch (error) {
+      if (error instanceof CallBudgetExceededError) throw error;
+      if (error instanceof FilterValidationError) {
+        return {
+          success: false,
+          reply: `❌ Invalid filter:\n${error.issues.map(issue => `• ${issue}`).join('\n')}`,
+          chartData: null,
+        };
       }
+      return {
+        success: false,
+        reply: `❌ Join failed: ${error instanceof Error ? error.message : String(error)}`,
+        chartData: null,
+      };
+    }
+  }
 
-      return { success: true, reply, chartData: null };
-      
+  private async executeCount(
+    plan: APIPlan,
+    sessionId: string
+  ): Promise<PlanResult> {
+    const resolvedPath = await this.resolveObjectPath(plan, sessionId);
+    if ('error' in resolvedPath) {
+      return { success: false, reply: `❌ ${resolvedPath.error}`, chartData: null };
+    }
+    const path = resolvedPath.path;
+
+    try {
+      const response = await this.clientFor(sessionId).get<Record<string, unknown>>(
+        `${path}?fields=_internalId&limit=1`
+      );
+      const totalCount = (response._totalCount as number) ?? 0;
+      const label = await this.metadataService.getObjectLabel(plan.objectType);
+      const contextStr = plan.project ? ` in project "${plan.project}"` : '';
+
+      return {
+        success: true,
+        reply: `📊 **Found ${totalCount} ${label}**${contextStr}`,
+        chartData: null,
+      };
     } catch (error) {
       return {
         success: false,
-        reply: `❌ Query failed: ${error instanceof Error ? error.message : String(error)}`,
+        reply: `❌ Count failed: ${error instanceof Error ? error.message : String(error)}`,
         chartData: null,
       };
     }
   }
 
+  private async executeGetRecord(
+    plan: APIPlan,
+    sessionId: string
+  ): Promise<PlanResult> {
+    const recordId = plan.recordId ?? '';
+    const found = await this.findRecord(sessionId, plan.objectType, recordId);
+    if (!found) {
+      return { success: false, reply: `❌ Could not find ${plan.objectType} "${recordId}"`, chartData: null };
+    }
+    if ('error' in found) {
+      return { success: false, reply: `❌ ${found.error}`, chartData: null };
+    }
+
+    const [metadata, record] = await Promise.all([
+      this.getObjectMetadata(plan.objectType, sessionId),
+      this.clientFor(sessionId).get<Record<string, unknown>>(`/${plan.objectType}/${found._internalId}`),
+    ]);
+    const [visible = {}] = await this.redact(sessionId, plan.objectType, [record]);
+
+    let reply = `🔍 **${found.name ?? recordId}**\n\n`;
+    for (const attr of metadata.attributes.filter(a => !a.apiName.startsWith('_')).slice(0, 20)) {
+      const value = this.formatFieldValue(visible[attr.apiName]);
+      if (value) reply += `• **${attr.displayName}:** ${value}\n`;
+    }
+
+    const deepLink = this.deepLinkService.generateRecordLink(plan.objectType, found._internalId);
+    reply += `\n🔗 [Open in Clarity](${deepLink})`;
+
+    return { success: true, reply, chartData: null, deepLink, data: visible };
+  }
+
   private async executeAnalyze(
     plan: APIPlan,
     sessionId: string
-  ): Promise<Omit<AIResponse, 'timestamp' | 'debug' | 'suggestions'>> {
+  ): Promise<PlanResult> {
     const groupByField = plan.groupByField ?? 'status';
-    const metadata = await this.getObjectMetadata(plan.objectType);
+    const metadata = await this.getObjectMetadata(plan.objectType, sessionId);
     
     // Validate field
     let actualFieldName = groupByField;
@@ -1141,47 +2334,150 @@ RESPONSE FORMAT - Return ONLY valid JSON:
     }
     
     actualFieldName = fieldMeta.apiName;
-    const endpoint = `/${plan.objectType}?fields=_internalId,${actualFieldName}&limit=500`;
+
+    const resolved = resolveMeasure(this.metadataService.getMeasureFields(metadata), plan.measureField, plan.aggregate);
+    if ('error' in resolved) {
+      return { success: false, reply: `❌ ${resolved.error}`, chartData: null };
+    }
+    const measure = resolved.measure;
+
+    // A second grouping field turns the chart into a pivot
+    const columnMeta = plan.columnField
+      ? metadata.attributes.find(a =>
+          a.apiName.toLowerCase() === plan.columnField!.toLowerCase() ||
+          a.displayName.toLowerCase() === plan.columnField!.toLowerCase()
+        )
+      : undefined;
+    if (plan.columnField && !columnMeta) {
+      return { success: false, reply: `❌ Field "${plan.columnField}" not found in ${metadata.label}.`, chartData: null };
+    }
+    if (columnMeta?.apiName === actualFieldName) {
+      return { success: false, reply: `❌ A pivot needs two different fields.`, chartData: null };
+    }
+
+    // Date fields chart as a time series
+    const isDate = DATE_DATA_TYPES.includes(fieldMeta.dataType);
+    if (plan.interval && !isDate) {
+      return { success: false, reply: `❌ "${fieldMeta.displayName}" is not a date field, so it cannot be grouped by ${plan.interval}.`, chartData: null };
+    }
+    if (isDate && columnMeta) {
+      return { success: false, reply: `❌ A date field cannot be combined with a second grouping field.`, chartData: null };
+    }
+    const interval = isDate ? plan.interval ?? 'month' : undefined;
+    if (interval && plan.limit !== undefined) {
+      return { success: false, reply: `❌ Top-N applies to groups, not to a time series.`, chartData: null };
+    }
+
+    const fields = [
+      '_internalId',
+      actualFieldName,
+      ...(columnMeta ? [columnMeta.apiName] : []),
+      ...(measure ? [measure.field] : []),
+    ];
+    const endpoint = `/${plan.objectType}?fields=${fields.join(',')}`;
 
     try {
-      const response = await this.client.get<Record<string, unknown>>(endpoint);
-      const records = (response._results ?? []) as Array<Record<string, unknown>>;
+      // Aggregate over every page, up to the analysis cap
+      const { records, totalCount, capped } = await this.clientFor(sessionId).getAll(endpoint, {
+        pageSize: ANALYSIS_PAGING.PAGE_SIZE,
+        concurrency: ANALYSIS_PAGING.CONCURRENCY,
+        maxRecords: ANALYSIS_PAGING.MAX_RECORDS,
+      });
 
-      // Build distribution
-      const distribution = new Map<string, number>();
-      for (const record of records) {
-        const rawValue = record[actualFieldName];
-        const displayValue = this.formatFieldValue(rawValue) || '(No value)';
-        distribution.set(displayValue, (distribution.get(displayValue) ?? 0) + 1);
-      }
+      const fieldDisplayName = fieldMeta.displayName;
 
-      const chartDataArray = Array.from(distribution.entries())
-        .map(([label, value]) => ({ label, value }))
-        .sort((a, b) => b.value - a.value);
+      // Build distribution (buckets keep lookup codes for drill-down);
+      // a pivot's row buckets are the same distribution, with row totals
+      let pivot: PivotData | undefined = columnMeta
+        ? {
+            rowField: actualFieldName,
+            rowDisplayName: fieldDisplayName,
+            columnField: columnMeta.apiName,
+            columnDisplayName: columnMeta.displayName,
+            ...buildPivot(records, actualFieldName, columnMeta.apiName, measure),
+          }
+        : undefined;
+      const series = interval ? buildDateSeries(records, actualFieldName, interval, measure) : undefined;
+      if (series && 'error' in series) {
+        return { success: false, reply: `❌ ${series.error}`, chartData: null };
+      }
+      let chartDataArray = pivot?.rows ?? series?.buckets ?? buildChartBuckets(records, actualFieldName, measure);
+
+      // Top-N / bottom-N groups (shares are still of the whole)
+      const groupCount = chartDataArray.length;
+      const groupTotal = chartDataArray.reduce((sum, item) => sum + item.value, 0);
+      const direction = (plan.sortDirection ?? 'desc') as SortDirection;
+      if (plan.limit !== undefined) {
+        const limit = Math.max(1, Math.floor(plan.limit));
+        if (pivot) {
+          pivot = topPivotRows(pivot, limit, direction);
+          chartDataArray = pivot.rows;
+        } else {
+          chartDataArray = topBuckets(chartDataArray, limit, direction);
+        }
+      }
 
       const label = await this.metadataService.getObjectLabel(plan.objectType);
-      const fieldDisplayName = fieldMeta.displayName;
 
       // Update context with chart data
       this.contextService.updateLastQuery(sessionId, {
         objectType: plan.objectType,
         objectLabel: label,
         action: 'analyze',
-        totalCount: records.length,
+        totalCount,
         groupByField: actualFieldName,
         groupByDisplayName: fieldDisplayName,
         chartData: { [actualFieldName]: chartDataArray },
+        measure,
+        pivot,
+        interval,
         timestamp: new Date().toISOString(),
       });
 
-      let reply = `📊 **${label} by ${fieldDisplayName}** (${records.length} records)\n\n`;
-      for (const item of chartDataArray.slice(0, 10)) {
-        const pct = ((item.value / records.length) * 100).toFixed(1);
-        reply += `• **${item.label}:** ${item.value} (${pct}%)\n`;
+      const groupedBy = pivot
+        ? `${fieldDisplayName} and ${pivot.columnDisplayName}`
+        : interval ? `${fieldDisplayName} (per ${interval})` : fieldDisplayName;
+      const title = measure ? `${describeMeasure(measure)} by ${groupedBy}` : `${label} by ${groupedBy}`;
+      let reply = `📊 **${title}** (${totalCount} records)\n\n`;
+      if (capped) {
+        reply += `⚠️ _Based on the first ${records.length} of ${totalCount} records - ${measure ? 'values' : 'percentages'} are for that sample._\n\n`;
       }
+      if (chartDataArray.length < groupCount) {
+        reply += `_${direction === 'desc' ? 'Top' : 'Bottom'} ${chartDataArray.length} of ${groupCount} ${fieldDisplayName} values_\n\n`;
+      }
+
+      if (pivot) {
+        reply += this.formatPivotTable(pivot, measure);
+      } else if (series) {
+        // Time order, most recent periods last
+        const shown = chartDataArray.slice(-24);
+        if (shown.length < chartDataArray.length) {
+          reply += `_...${chartDataArray.length - shown.length} earlier periods_\n`;
+        }
+        for (const item of shown) {
+          reply += `• **${item.label}:** ${measure ? formatMeasureValue(item.value) : item.value}\n`;
+        }
+        if (series.undated > 0) {
+          reply += `\n_${series.undated} records have no ${fieldDisplayName} and are not shown_`;
+        }
+      } else {
+        // Shares only make sense for counts and sums
+        const listed = plan.limit !== undefined ? Math.min(chartDataArray.length, 50) : 10;
+        for (const item of chartDataArray.slice(0, listed)) {
+          if (!measure) {
+            const pct = ((item.value / records.length) * 100).toFixed(1);
+            reply += `• **${item.label}:** ${item.value} (${pct}%)\n`;
+          } else if (measure.aggregate === 'sum' && groupTotal !== 0) {
+            const pct = ((item.value / groupTotal) * 100).toFixed(1);
+            reply += `• **${item.label}:** ${formatMeasureValue(item.value)} (${pct}%, ${item.count} records)\n`;
+          } else {
+            reply += `• **${item.label}:** ${formatMeasureValue(item.value)} (${item.count} records)\n`;
+          }
+        }
 
-      if (chartDataArray.length > 10) {
-        reply += `\n_...and ${chartDataArray.length - 10} more categories_`;
+        if (chartDataArray.length > listed) {
+          reply += `\n_...and ${chartDataArray.length - listed} more categories_`;
+        }
       }
 
       reply += `\n\n✨ Click on any value to see the records`;
@@ -1194,15 +2490,31 @@ RESPONSE FORMAT - Return ONLY valid JSON:
             displayName: fieldDisplayName,
             dataType: fieldMeta.dataType ?? 'string',
           },
+          ...(columnMeta && {
+            [columnMeta.apiName]: {
+              displayName: columnMeta.displayName,
+              dataType: columnMeta.dataType ?? 'string',
+            },
+          }),
         },
+        // Averages, minimums and maximums do not stack
+        chartType: (plan.input['chartType'] as ChartType | undefined) ?? (interval ? 'line'
+          : pivot && (!measure || measure.aggregate === 'sum') ? 'stacked-bar' : undefined),
         drillDownEnabled: true,
         objectType: plan.objectType,
         groupByField: actualFieldName,
+        measure,
+        pivot,
+        interval,
+        coverage: { analyzed: records.length, total: totalCount, capped },
       };
+      const chartImage = await this.chartImageService.publish(sessionId, chartData, title);
 
-      return { success: true, reply, chartData };
+      return { success: true, reply, chartData, chartImage };
       
     } catch (error) {
+      if (error instanceof CallBudgetExceededError) throw error;
+
       const groupableFields = this.metadataService.getGroupableFields(metadata);
       const suggestions = groupableFields
         .slice(0, 10)
@@ -1217,122 +2529,926 @@ RESPONSE FORMAT - Return ONLY valid JSON:
     }
   }
 
-  private async executeCreate(plan: APIPlan, originalMessage: string): Promise<Omit<AIResponse, 'timestamp' | 'debug' | 'suggestions'>> {
-    let endpoint = plan.endpoint;
-    let body = plan.body ?? {};
-
-    if (endpoint.includes('/projects/') && !/\/projects\/\d+/.test(endpoint)) {
-      const projectName = this.extractProjectName(originalMessage);
-      if (projectName) {
-        const project = await this.findRecord('projects', projectName);
-        if (project) {
-          endpoint = endpoint.replace(/\/projects\/[^/]+\//, `/projects/${project._internalId}/`);
-        } else {
-          return { success: false, reply: `❌ Could not find project "${projectName}"`, chartData: null };
-        }
-      }
-    }
-
-    if (!body['name']) {
-      const nameMatch = originalMessage.match(/(?:named?|called)\s+["']?([^"']+?)["']?(?:\s+in|\s+for|$)/i);
-      if (nameMatch) {
-        body['name'] = nameMatch[1]?.trim();
-      }
+  /**
+   * Markdown version of a record table, for clients that don't render `table`.
+   * `offset` is the position of the first row in the whole result set; lists
+   * that can be paged point at the "next" follow-up.
+   */
+  private formatRecordTable(
+    table: TableBlock,
+    options: { maxRows?: number; offset?: number; paged?: boolean } = {}
+  ): string {
+    const rows = table.rows.slice(0, options.maxRows ?? RECORD_PAGING.PAGE_SIZE);
+
+    let text = `| ${table.columns.map(c => c.displayName).join(' | ')} |\n`;
+    text += `|${' --- |'.repeat(table.columns.length)}\n`;
+    for (const row of rows) {
+      text += `| ${row.cells.map(formatCell).join(' | ')} |\n`;
     }
 
-    if (!body['code'] && (endpoint === '/projects' || /^\/cust|^\/oba/.test(endpoint))) {
-      const name = body['name'] as string;
-      if (name) {
-        body['code'] = name.replace(/[^a-zA-Z0-9]/g, '_').toLowerCase() + '_' + Date.now();
-      }
+    const remaining = table.totalCount - (options.offset ?? 0) - rows.length;
+    if (remaining > 0) {
+      text += options.paged
+        ? `\n_...and ${remaining} more - say "next" to see them_`
+        : `\n_...and ${remaining} more_`;
     }
 
-    const result = await this.client.post(endpoint, body);
-    const newId = result._internalId;
-    const label = await this.metadataService.getObjectLabel(plan.objectType);
-
-    return {
-      success: true,
-      reply: `✅ **${label} Created!**\n\n• **Name:** ${body['name']}\n• **ID:** ${newId}`,
-      chartData: null,
-    };
+    return text;
   }
 
-  private async executeUpdate(plan: APIPlan, originalMessage: string): Promise<Omit<AIResponse, 'timestamp' | 'debug' | 'suggestions'>> {
-    const recordName = this.extractRecordName(originalMessage);
-    if (!recordName) {
-      return { success: false, reply: '❌ Could not determine which record to update', chartData: null };
-    }
+  /**
+   * Heading of a record list: "42 Projects", or "Projects 16-30 of 42" past the first page
+   */
+  private pageHeading(label: string, offset: number, count: number, totalCount: number): string {
+    return offset === 0 ? `${totalCount} ${label}` : `${label} ${offset + 1}-${offset + count} of ${totalCount}`;
+  }
 
-    const record = await this.findRecord(plan.objectType, recordName);
-    if (!record) {
+  /**
+   * Markdown cross-tab of the largest rows and columns, with totals
+   */
+  private formatPivotTable(pivot: PivotData, measure?: ChartMeasure): string {
+    const maxRows = 10;
+    const maxColumns = 6;
+    const format = (value: number) => measure ? formatMeasureValue(value) : String(value);
+    const columns = pivot.columns.slice(0, maxColumns);
+
+    let table = `| ${pivot.rowDisplayName} | ${columns.map(c => c.label).join(' | ')} | Total |\n`;
+    table += `|${' --- |'.repeat(columns.length + 2)}\n`;
+    pivot.rows.slice(0, maxRows).forEach((row, r) => {
+      const cells = columns.map((_, c) => format(pivot.cells[r]?.[c] ?? 0));
+      table += `| ${row.label} | ${cells.join(' | ')} | **${format(row.value)}** |\n`;
+    });
+    table += `| **Total** | ${columns.map(c => `**${format(c.value)}**`).join(' | ')} | **${format(pivot.grandTotal)}** |\n`;
+
+    const hidden: string[] = [];
+    if (pivot.rows.length > maxRows) hidden.push(`${pivot.rows.length - maxRows} more ${pivot.rowDisplayName} values`);
+    if (pivot.columns.length > maxColumns) hidden.push(`${pivot.columns.length - maxColumns} more ${pivot.columnDisplayName} values`);
+    if (hidden.length > 0) {
+      table += `\n_...and ${hidden.join(', ')}_`;
+    }
+
+    return table;
+  }
+
+  /**
+   * Create a record from the plan's values, converted for their fields. Required
+   * fields without a value are asked for first; the answers arrive as later messages.
+   */
+  private async executeCreate(plan: APIPlan, sessionId: string): Promise<PlanResult> {
+    const resolvedPath = await this.resolveObjectPath(plan, sessionId);
+    if ('error' in resolvedPath) {
+      return { success: false, reply: `❌ ${resolvedPath.error}`, chartData: null };
+    }
+    const endpoint = resolvedPath.path;
+
+    const metadata = await this.getObjectMetadata(plan.objectType, sessionId);
+    const validated = await validateValues(
+      metadata,
+      { ...plan.values, ...(plan.name && { name: plan.name }) },
+      (lookupType, value) => this.lookupService.resolveWriteValue(lookupType, value),
+      { mode: 'create' }
+    );
+
+    // Unknown and read-only fields cannot be asked for again, so the request is refused
+    const writable = writableAttributes(metadata);
+    if (validated.issues.some(issue => !writable.some(attr => attr.apiName === issue.field))) {
+      return {
+        success: false,
+        reply: `❌ **Cannot create the ${metadata.label}:**\n\n${this.formatFieldIssues(validated.issues)}`,
+        chartData: null,
+      };
+    }
+
+    return this.advanceCreate(sessionId, {
+      objectType: plan.objectType,
+      objectLabel: metadata.label,
+      path: endpoint,
+      values: validated.values,
+      missing: [],
+      timestamp: new Date().toISOString(),
+    }, metadata, validated.issues);
+  }
+
+  /**
+   * Preview an update: the record, its link and each field before and after.
+   * Nothing is written until the user confirms.
+   */
+  private async executeUpdate(plan: APIPlan, sessionId: string): Promise<PlanResult> {
+    const resolvedPath = await this.resolveObjectPath(plan, sessionId);
+    if ('error' in resolvedPath) {
+      return { success: false, reply: `❌ ${resolvedPath.error}`, chartData: null };
+    }
+    const path = resolvedPath.path;
+
+    const recordName = plan.recordId ?? '';
+    const record = await this.findRecord(sessionId, plan.objectType, recordName, path);
+    if (!record) {
       return { success: false, reply: `❌ Could not find ${plan.objectType} "${recordName}"`, chartData: null };
     }
+    if ('error' in record) {
+      return { success: false, reply: `❌ ${record.error}`, chartData: null };
+    }
+
+    if (Object.keys(plan.values ?? {}).length === 0) {
+      return { success: false, reply: `❌ Say which fields of "${record.name ?? recordName}" to change, and to what`, chartData: null };
+    }
+
+    const metadata = await this.getObjectMetadata(plan.objectType, sessionId);
+    const validated = await validateValues(
+      metadata,
+      plan.values ?? {},
+      (lookupType, value) => this.lookupService.resolveWriteValue(lookupType, value),
+      { mode: 'update' }
+    );
+    if (validated.issues.length > 0) {
+      return {
+        success: false,
+        reply: `❌ **Cannot update "${record.name ?? recordName}":**\n\n${this.formatFieldIssues(validated.issues)}\n\nCorrect the values and ask again.`,
+        chartData: null,
+      };
+    }
 
-    const endpoint = `/${plan.objectType}/${record._internalId}`;
-    await this.client.patch(endpoint, plan.body ?? {});
+    const values = validated.values;
+    const fields = Object.keys(values);
+    const current = await this.clientFor(sessionId).get<Record<string, unknown>>(
+      `/${plan.objectType}/${record._internalId}?fields=${fields.join(',')}`
+    );
+    const changes: FieldChange[] = fields.map(field => ({
+      field,
+      displayName: metadata.attributes.find(a => a.apiName === field)?.displayName ?? field,
+      before: current[field] ?? null,
+      after: values[field],
+    }));
+
+    return this.holdAction(sessionId, {
+      kind: 'update',
+      toolId: 'update_record',
+      objectType: plan.objectType,
+      objectLabel: metadata.label,
+      path,
+      record: { _internalId: record._internalId, name: record.name ?? recordName },
+      changes,
+      values,
+    });
+  }
+
+  /**
+   * Preview a delete; the record is only deleted once the user confirms
+   */
+  private async executeDelete(plan: APIPlan, sessionId: string): Promise<PlanResult> {
+    const resolvedPath = await this.resolveObjectPath(plan, sessionId);
+    if ('error' in resolvedPath) {
+      return { success: false, reply: `❌ ${resolvedPath.error}`, chartData: null };
+    }
+    const path = resolvedPath.path;
+
+    const recordName = plan.recordId ?? '';
+    const record = await this.findRecord(sessionId, plan.objectType, recordName, path);
+    if (!record) {
+      return { success: false, reply: `❌ Could not find ${plan.objectType} "${recordName}"`, chartData: null };
+    }
+    if ('error' in record) {
+      return { success: false, reply: `❌ ${record.error}`, chartData: null };
+    }
 
     const label = await this.metadataService.getObjectLabel(plan.objectType);
+    return this.holdAction(sessionId, {
+      kind: 'delete',
+      toolId: 'delete_record',
+      objectType: plan.objectType,
+      objectLabel: label,
+      path,
+      record: { _internalId: record._internalId, name: record.name ?? recordName },
+      changes: [],
+    });
+  }
+
+  /**
+   * Preview a bulk update: how many records the filter selects, a sample of them
+   * and the values they get. Nothing is written until the user confirms.
+   */
+  private async executeBulkUpdate(plan: APIPlan, sessionId: string): Promise<PlanResult> {
+    if (!plan.filter && !plan.project) {
+      return { success: false, reply: '❌ Say which records to update - give a filter or a project', chartData: null };
+    }
+    if (Object.keys(plan.values ?? {}).length === 0) {
+      return { success: false, reply: '❌ Say which fields to set on the records, and to what', chartData: null };
+    }
+
+    const resolvedPath = await this.resolveObjectPath(plan, sessionId);
+    if ('error' in resolvedPath) {
+      return { success: false, reply: `❌ ${resolvedPath.error}`, chartData: null };
+    }
+    const path = resolvedPath.path;
+
+    const metadata = await this.getObjectMetadata(plan.objectType, sessionId);
+    const validated = await validateValues(
+      metadata,
+      plan.values ?? {},
+      (lookupType, value) => this.lookupService.resolveWriteValue(lookupType, value),
+      { mode: 'update' }
+    );
+    if (validated.issues.length > 0) {
+      return {
+        success: false,
+        reply: `❌ **Cannot update the ${metadata.pluralLabel}:**\n\n${this.formatFieldIssues(validated.issues)}\n\nCorrect the values and ask again.`,
+        chartData: null,
+      };
+    }
+
+    const values = validated.values;
+    const fields = Object.keys(values);
+    let selection: BulkSelection;
+    try {
+      selection = await selectBulkTargets(this.clientFor(sessionId), {
+        path,
+        filterParam: plan.filter ? await this.buildFilterParam(plan.objectType, plan.filter, sessionId) : undefined,
+        fields,
+        nameFields: ['name', 'code'].filter(field => metadata.attributes.some(a => a.apiName === field)),
+        maxRecords: this.bulkUpdateMaxRecords,
+      });
+    } catch (error) {
+      if (error instanceof FilterValidationError) {
+        return {
+          success: false,
+          reply: `❌ Invalid filter:\n${error.issues.map(issue => `• ${issue}`).join('\n')}`,
+          chartData: null,
+        };
+      }
+      throw error;
+    }
+
+    if (selection.totalCount === 0) {
+      return { success: false, reply: `❌ No ${metadata.pluralLabel} match - nothing to update.`, chartData: null };
+    }
+    if (selection.overLimit) {
+      return {
+        success: false,
+        reply: `❌ ${selection.totalCount} ${metadata.pluralLabel} match, more than the ${this.bulkUpdateMaxRecords} one bulk update may change. Narrow the filter and ask again.`,
+        chartData: null,
+      };
+    }
+
+    const displayName = (field: string) => metadata.attributes.find(a => a.apiName === field)?.displayName ?? field;
+    const deepLink = this.deepLinkService.generateListLink(plan.objectType);
+    const pending = this.pendingActionService.create({
+      sessionId,
+      kind: 'bulkUpdate',
+      toolId: 'bulk_update_records',
+      objectType: plan.objectType,
+      objectLabel: metadata.label,
+      recordName: `${selection.targets.length} ${metadata.pluralLabel}`,
+      deepLink,
+      changes: fields.map(field => ({ field, displayName: displayName(field), before: null, after: values[field] })),
+      values,
+      records: selection.targets,
+    });
+
+    const sample = selection.targets.slice(0, BULK_UPDATES.SAMPLE_SIZE);
+    const minutes = Math.round((pending.expiresAt - Date.now()) / 60000);
+    let reply = `⚠️ **Update ${pending.recordName}?**\n\n`;
+    reply += pending.changes.map(change => `• **${change.displayName}** → ${this.formatChangeValue(change.after)}`).join('\n');
+    reply += `\n\n**${sample.length < selection.targets.length ? `Sample (${sample.length} of ${selection.targets.length})` : 'Records'}:**\n\n`;
+    reply += `| ${metadata.label} | ${fields.map(field => `${displayName(field)} now`).join(' | ')} |\n`;
+    reply += `|${' --- |'.repeat(fields.length + 1)}\n`;
+    reply += sample.map(target =>
+      `| ${target.recordName.replace(/\|/g, '\\|')} | ${fields.map(field => this.formatChangeValue(target.before[field] ?? null)).join(' | ')} |`
+    ).join('\n');
+    reply += `\n\nReply **confirm** to update all ${selection.targets.length} or **cancel** to drop it (expires in ${minutes} minutes).`;
+
     return {
       success: true,
-      reply: `✅ **${label} Updated!**\n\n• **Record:** ${record.name ?? recordName}`,
+      reply,
       chartData: null,
+      deepLink,
+      pendingAction: this.pendingActionService.preview(pending),
     };
   }
 
-  private async executeDelete(plan: APIPlan, originalMessage: string): Promise<Omit<AIResponse, 'timestamp' | 'debug' | 'suggestions'>> {
-    const recordName = this.extractRecordName(originalMessage);
-    if (!recordName) {
-      return { success: false, reply: '❌ Could not determine which record to delete', chartData: null };
+  // ============================================================================
+  // CREATE (required fields over several messages)
+  // ============================================================================
+
+  /**
+   * Field values in a reply to a create that waits for required fields, or null
+   * when the message is something else. A bare value answers a single question
+   * when it is a valid value of that field.
+   */
+  private async readDraftAnswers(
+    draft: CreateDraft,
+    message: string,
+    sessionId: string
+  ): Promise<Record<string, string> | null> {
+    const followUp = detectFollowUpIntent(message);
+    if (followUp.type && this.hasFollowUpContext(sessionId, followUp.type)) {
+      return null;
+    }
+
+    const metadata = await this.getObjectMetadata(draft.objectType, sessionId);
+    const answers = parseFieldAnswers(message, writableAttributes(metadata));
+    if (Object.keys(answers).length > 0) {
+      return answers;
     }
 
-    const record = await this.findRecord(plan.objectType, recordName);
-    if (!record) {
-      return { success: false, reply: `❌ Could not find ${plan.objectType} "${recordName}"`, chartData: null };
+    const attr = draft.missing.length === 1 ? metadata.attributes.find(a => a.apiName === draft.missing[0]) : undefined;
+    if (!attr || !takesBareValue(attr)) {
+      return null;
     }
+    const answer = { [attr.apiName]: message.trim() };
+    const validated = await validateValues(
+      metadata,
+      answer,
+      (lookupType, value) => this.lookupService.resolveWriteValue(lookupType, value),
+      { mode: 'create' }
+    );
+    return validated.issues.length === 0 ? answer : null;
+  }
 
-    const endpoint = `/${plan.objectType}/${record._internalId}`;
-    await this.client.delete(endpoint);
+  private async continueCreate(
+    sessionId: string,
+    draft: CreateDraft,
+    answers: Record<string, string>
+  ): Promise<PlanResult> {
+    const metadata = await this.getObjectMetadata(draft.objectType, sessionId);
+    const validated = await validateValues(
+      metadata,
+      answers,
+      (lookupType, value) => this.lookupService.resolveWriteValue(lookupType, value),
+      { mode: 'create' }
+    );
+    return this.advanceCreate(
+      sessionId,
+      { ...draft, values: { ...draft.values, ...validated.values } },
+      metadata,
+      validated.issues
+    );
+  }
+
+  /**
+   * Ask for the fields that are missing or did not fit, or create the record
+   * once every required field has a value
+   */
+  private async advanceCreate(
+    sessionId: string,
+    draft: CreateDraft,
+    metadata: ObjectMetadata,
+    issues: FieldIssue[]
+  ): Promise<PlanResult> {
+    const autoCode = this.generatesCode(draft.objectType, metadata);
+    const asked = missingRequired(metadata, draft.values).filter(attr => !(autoCode && attr.apiName === 'code'));
+    for (const issue of issues) {
+      const attr = writableAttributes(metadata).find(a => a.apiName === issue.field);
+      if (attr && !asked.includes(attr)) asked.push(attr);
+    }
+
+    if (asked.length > 0) {
+      this.contextService.setCreateDraft(sessionId, {
+        ...draft,
+        missing: asked.map(attr => attr.apiName),
+        timestamp: new Date().toISOString(),
+      });
+      return {
+        success: issues.length === 0,
+        reply: await this.askForFields(draft, asked, issues, metadata),
+        chartData: null,
+      };
+    }
+
+    this.contextService.clearCreateDraft(sessionId);
+    const body: Record<string, unknown> = { ...draft.values };
+    if (autoCode && !body['code']) {
+      const base = String(body['name'] ?? draft.objectType);
+      body['code'] = base.replace(/[^a-zA-Z0-9]/g, '_').toLowerCase() + '_' + Date.now();
+    }
+
+    const result = await this.clientFor(sessionId).post(draft.path, body);
+    const newId = result._internalId;
+
+    if (typeof newId === 'number') {
+      this.operationJournal.record({
+        sessionId,
+        operation: 'create',
+        objectType: draft.objectType,
+        objectLabel: draft.objectLabel,
+        path: draft.path,
+        records: [{ recordId: newId, recordName: String(body['name'] ?? newId) }],
+      });
+    }
 
-    const label = await this.metadataService.getObjectLabel(plan.objectType);
     return {
       success: true,
-      reply: `✅ **${label} Deleted!**\n\n• **ID:** ${record._internalId}`,
+      reply: `✅ **${draft.objectLabel} Created!**\n\n• **Name:** ${body['name'] ?? ''}\n• **ID:** ${newId}`,
       chartData: null,
+      deepLink: typeof newId === 'number' ? this.deepLinkService.generateRecordLink(draft.objectType, newId) : undefined,
     };
   }
 
+  private async askForFields(
+    draft: CreateDraft,
+    fields: AttributeMetadata[],
+    issues: FieldIssue[],
+    metadata: ObjectMetadata
+  ): Promise<string> {
+    let reply = '';
+    if (issues.length > 0) {
+      reply += `❌ Some values do not fit:\n\n${this.formatFieldIssues(issues)}\n\n`;
+    }
+
+    reply += `📝 **New ${draft.objectLabel}** - please give:\n\n`;
+    for (const attr of fields) {
+      reply += `• **${attr.displayName}** - ${await this.describeField(attr)}\n`;
+    }
+
+    const given = Object.entries(draft.values).map(([field, value]) =>
+      `${metadata.attributes.find(a => a.apiName === field)?.displayName ?? field}: ${this.formatFieldValue(value)}`
+    );
+    if (given.length > 0) {
+      reply += `\n_So far: ${given.join(', ')}_\n`;
+    }
+
+    reply += fields.length > 1
+      ? `\nReply like "${fields[0]!.displayName}: ..., ${fields[1]!.displayName}: ...", or **cancel**.`
+      : takesBareValue(fields[0]!)
+        ? '\nReply with the value, or **cancel**.'
+        : `\nReply like "${fields[0]!.displayName}: ...", or **cancel**.`;
+    return reply;
+  }
+
+  private formatFieldIssues(issues: FieldIssue[]): string {
+    return issues.map(issue => `• **${issue.displayName}:** ${issue.message}`).join('\n');
+  }
+
+  /**
+   * What a field expects; lookups list their first values
+   */
+  private async describeField(attr: AttributeMetadata): Promise<string> {
+    const options = attr.lookupType ? await this.lookupService.getLookupValues(attr.lookupType) : [];
+    if (options.length === 0) {
+      return describeExpected(attr);
+    }
+    const shown = options.slice(0, 8).map(o => o.displayValue).join(', ');
+    return `one of ${shown}${options.length > 8 ? ', ...' : ''}`;
+  }
+
+  /**
+   * Whether a new record gets a code made from its name: projects and custom
+   * objects, and any object whose code is required
+   */
+  private generatesCode(objectType: string, metadata: ObjectMetadata): boolean {
+    const code = metadata.attributes.find(a => a.apiName === 'code');
+    if (code?.isReadOnly) return false;
+    return objectType === 'projects' || /^cust|^oba/.test(objectType) || code?.isRequired === true;
+  }
+
+  // ============================================================================
+  // PENDING ACTIONS (confirm / cancel)
+  // ============================================================================
+
+  private holdAction(
+    sessionId: string,
+    action: Pick<PendingAction, 'kind' | 'toolId' | 'objectType' | 'objectLabel' | 'path' | 'changes' | 'values'> & {
+      record: { _internalId: number; name: string };
+    }
+  ): PlanResult {
+    const { record, ...rest } = action;
+    const deepLink = this.deepLinkService.generateRecordLink(action.objectType, record._internalId);
+    const pending = this.pendingActionService.create({
+      ...rest,
+      sessionId,
+      recordId: record._internalId,
+      recordName: record.name,
+      deepLink,
+    });
+
+    const minutes = Math.round((pending.expiresAt - Date.now()) / 60000);
+    let reply = pending.kind === 'delete'
+      ? `⚠️ **Delete ${pending.objectLabel} "${pending.recordName}"?** (ID ${pending.recordId})\n\nOnce it is deleted, reply **undo** to recreate it.`
+      : `⚠️ **Update ${pending.objectLabel} "${pending.recordName}"?** (ID ${pending.recordId})\n\n` +
+        `| Field | Before | After |\n|---|---|---|\n` +
+        pending.changes.map(change =>
+          `| ${change.displayName} | ${this.formatChangeValue(change.before)} | ${this.formatChangeValue(change.after)} |`
+        ).join('\n');
+    reply += `\n\nReply **confirm** to apply or **cancel** to drop it (expires in ${minutes} minutes).`;
+
+    return {
+      success: true,
+      reply,
+      chartData: null,
+      deepLink,
+      pendingAction: this.pendingActionService.preview(pending),
+    };
+  }
+
+  /**
+   * Run the session's pending action - the latest one, or the one carrying
+   * `token`. Permissions are checked again, and an update is refused when the
+   * record changed since the preview.
+   */
+  async confirmAction(sessionId: string, token?: string): Promise<AIResponse> {
+    const timestamp = new Date().toISOString();
+    const pending = this.pendingActionService.take(sessionId, token);
+    if (!pending) {
+      return { success: false, reply: '❌ Nothing to confirm - the action expired or was already handled.', chartData: null, timestamp };
+    }
+
+    const refusal = this.checkAccess(sessionId, pending.toolId, [pending.objectType]);
+    if (refusal) {
+      return this.getRefusalResponse(refusal, timestamp, sessionId);
+    }
+    if (pending.kind === 'bulkUpdate') {
+      return this.confirmBulkUpdate(sessionId, pending, timestamp);
+    }
+
+    const endpoint = `/${pending.objectType}/${pending.recordId}`;
+    const client = this.clientFor(sessionId);
+    let reply: string;
+
+    try {
+      if (pending.kind === 'update') {
+        const current = await client.get<Record<string, unknown>>(
+          `${endpoint}?fields=${pending.changes.map(c => c.field).join(',')}`
+        );
+        const changed = pending.changes.filter(change =>
+          this.formatChangeValue(current[change.field] ?? null) !== this.formatChangeValue(change.before)
+        );
+        if (changed.length > 0) {
+          return {
+            success: false,
+            reply: `❌ ${changed.map(c => c.displayName).join(', ')} of "${pending.recordName}" changed since the preview. Ask again to see the current values.`,
+            chartData: null,
+            deepLink: pending.deepLink,
+            timestamp,
+          };
+        }
+
+        await client.patch(endpoint, pending.values ?? {});
+        this.journalChange(sessionId, pending, [{
+          recordId: pending.recordId!,
+          recordName: pending.recordName,
+          before: Object.fromEntries(pending.changes.map(c => [c.field, current[c.field] ?? null])),
+          after: pending.values,
+        }]);
+        reply = `✅ **${pending.objectLabel} Updated!**\n\n• **Record:** ${pending.recordName}\n` +
+          pending.changes.map(c => `• **${c.displayName}:** ${this.formatChangeValue(c.after)}`).join('\n');
+      } else {
+        // The whole record is kept, so the delete can be undone by recreating it
+        const before = await client.get<Record<string, unknown>>(endpoint);
+        await client.delete(endpoint);
+        this.journalChange(sessionId, pending, [{ recordId: pending.recordId!, recordName: pending.recordName, before }]);
+        reply = `✅ **${pending.objectLabel} Deleted!**\n\n• **Record:** ${pending.recordName}\n• **ID:** ${pending.recordId}`;
+      }
+    } catch (error) {
+      console.error(`[AI] Confirmed ${pending.kind} failed:`, error);
+      return {
+        success: false,
+        reply: `❌ ${pending.kind === 'update' ? 'Update' : 'Delete'} failed: ${error instanceof Error ? error.message : String(error)}`,
+        chartData: null,
+        timestamp,
+      };
+    }
+
+    console.log(`[AI] Confirmed ${pending.kind} of ${pending.objectType}/${pending.recordId} (session ${sessionId})`);
+    this.contextService.addToHistory(sessionId, {
+      timestamp,
+      role: 'assistant',
+      message: reply.substring(0, 200),
+      action: pending.kind,
+      objectType: pending.objectType,
+      success: true,
+    });
+
+    return {
+      success: true,
+      reply,
+      chartData: null,
+      deepLink: pending.kind === 'update' ? pending.deepLink : undefined,
+      timestamp,
+      suggestions: this.suggestionService.formatSuggestionsAsButtons(
+        this.suggestionService.generateSuggestions(this.contextService.getContext(sessionId), pending.kind)
+      ),
+    };
+  }
+
+  /**
+   * Apply a confirmed bulk update a few records at a time. Records that fail do
+   * not stop the rest; the reply and `bulkUpdate` list each record's outcome.
+   */
+  private async confirmBulkUpdate(sessionId: string, pending: PendingAction, timestamp: string): Promise<AIResponse> {
+    const targets = pending.records ?? [];
+    const values = pending.values ?? {};
+    const outcomes = await applyBulkUpdate(this.clientFor(sessionId), pending.objectType, targets, values, {
+      concurrency: BULK_UPDATES.CONCURRENCY,
+      onProgress: progress => {
+        if (progress.done % 25 === 0 || progress.done === progress.total) {
+          console.log(`[AI] Bulk update of ${pending.objectType}: ${progress.done}/${progress.total} (${progress.failed} failed, session ${sessionId})`);
+        }
+      },
+    });
+
+    const failed = outcomes.filter(outcome => outcome.error);
+    const updated = targets.filter((_, i) => !outcomes[i]!.error);
+    if (updated.length > 0) {
+      this.journalChange(sessionId, pending, updated.map(target => ({
+        recordId: target.recordId,
+        recordName: target.recordName,
+        before: target.before,
+        after: values,
+      })));
+    }
+
+    const setLines = pending.changes.map(c => `• **${c.displayName}:** ${this.formatChangeValue(c.after)}`).join('\n');
+    let reply = failed.length === 0
+      ? `✅ **${pending.recordName} Updated!**\n\n${setLines}`
+      : updated.length === 0
+        ? `❌ **No ${pending.objectLabel} records were updated**`
+        : `⚠️ **Updated ${updated.length} of ${pending.recordName}**\n\n${setLines}`;
+
+    if (failed.length > 0) {
+      reply += `\n\n**Failed (${failed.length}):**\n` + failed.slice(0, 20)
+        .map(outcome => `• ${outcome.recordName} (ID ${outcome.recordId}): ${outcome.error}`)
+        .join('\n');
+      if (failed.length > 20) reply += `\n_...and ${failed.length - 20} more_`;
+    }
+    if (updated.length > 0 && failed.length > 0) {
+      const names = updated.slice(0, 10).map(target => target.recordName).join(', ');
+      reply += `\n\n**Updated:** ${names}${updated.length > 10 ? `, ...and ${updated.length - 10} more` : ''}`;
+    }
+
+    console.log(`[AI] Confirmed bulk update of ${pending.objectType}: ${updated.length}/${targets.length} updated (session ${sessionId})`);
+    this.contextService.addToHistory(sessionId, {
+      timestamp,
+      role: 'assistant',
+      message: reply.substring(0, 200),
+      action: 'update',
+      objectType: pending.objectType,
+      success: updated.length > 0,
+    });
+
+    return {
+      success: failed.length === 0,
+      reply,
+      chartData: null,
+      deepLink: pending.deepLink,
+      bulkUpdate: { updated: updated.length, failed: failed.length, records: outcomes },
+      timestamp,
+      suggestions: this.suggestionService.formatSuggestionsAsButtons(
+        this.suggestionService.generateSuggestions(this.contextService.getContext(sessionId), 'update')
+      ),
+    };
+  }
+
+  /**
+   * Drop the session's pending action (the one carrying `token`, when given),
+   * or else a create still waiting for required fields
+   */
+  async cancelAction(sessionId: string, token?: string): Promise<AIResponse> {
+    const timestamp = new Date().toISOString();
+    const pending = this.pendingActionService.take(sessionId, token);
+    const draft = token === undefined ? this.contextService.getCreateDraft(sessionId) : null;
+    if (!pending && draft) {
+      this.contextService.clearCreateDraft(sessionId);
+      return { success: true, reply: `👍 Cancelled - no ${draft.objectLabel} was created.`, chartData: null, timestamp };
+    }
+    if (!pending) {
+      return { success: false, reply: '❌ Nothing to cancel.', chartData: null, timestamp };
+    }
+
+    return {
+      success: true,
+      reply: pending.kind === 'bulkUpdate'
+        ? `👍 Cancelled - the ${pending.recordName} were not changed.`
+        : `👍 Cancelled - ${pending.objectLabel} "${pending.recordName}" was not ${pending.kind === 'update' ? 'changed' : 'deleted'}.`,
+      chartData: null,
+      timestamp,
+    };
+  }
+
+  /**
+   * Journal a confirmed action so it can be undone; a bulk update is one update of many records
+   */
+  private journalChange(sessionId: string, pending: PendingAction, records: JournalRecord[]): void {
+    this.operationJournal.record({
+      sessionId,
+      operation: pending.kind === 'delete' ? 'delete' : 'update',
+      objectType: pending.objectType,
+      objectLabel: pending.objectLabel,
+      path: pending.path ?? `/${pending.objectType}`,
+      records,
+    });
+  }
+
+  private formatChangeValue(value: unknown): string {
+    const text = this.formatFieldValue(value);
+    return text === '' ? '_(empty)_' : text.replace(/\|/g, '\\|');
+  }
+
+  // ============================================================================
+  // UNDO
+  // ============================================================================
+
+  /**
+   * Revert the session's last write from chat: patch the old values back,
+   * delete a created record, or recreate a deleted one. Says so when the
+   * change cannot be reverted.
+   */
+  async undoLastChange(sessionId: string): Promise<AIResponse> {
+    const timestamp = new Date().toISOString();
+    const entry = this.operationJournal.last(sessionId);
+    if (!entry) {
+      return { success: false, reply: '❌ Nothing to undo - no changes were made from this chat.', chartData: null, timestamp };
+    }
+
+    // Checked before taking the entry, so it can still be undone once permitted
+    const refusal = this.checkAccess(sessionId, UNDO_TOOL_MAP[entry.operation], [entry.objectType]);
+    if (refusal) {
+      return this.getRefusalResponse(refusal, timestamp, sessionId);
+    }
+    this.operationJournal.takeLast(sessionId);
+
+    const lines: string[] = [];
+    let reverted = 0;
+    let deepLink: string | undefined;
+    for (const record of entry.records) {
+      try {
+        const result = await this.undoRecord(sessionId, entry, record);
+        lines.push(`• ${result.line}`);
+        deepLink = result.deepLink ?? deepLink;
+        reverted++;
+      } catch (error) {
+        lines.push(`• **${record.recordName}:** ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    const what = `${entry.operation} of ${entry.objectLabel}`;
+    console.log(`[AI] Undo ${what}: ${reverted}/${entry.records.length} reverted (session ${sessionId})`);
+
+    const reply = reverted === entry.records.length
+      ? `↩️ **Undid the ${what}**\n\n${lines.join('\n')}`
+      : reverted === 0
+        ? `⚠️ **Could not undo the ${what}**\n\n${lines.join('\n')}`
+        : `⚠️ **Partly undid the ${what}** (${reverted} of ${entry.records.length})\n\n${lines.join('\n')}`;
+
+    this.contextService.addToHistory(sessionId, {
+      timestamp,
+      role: 'assistant',
+      message: reply.substring(0, 200),
+      action: 'undo',
+      objectType: entry.objectType,
+      success: reverted > 0,
+    });
+
+    return { success: reverted > 0, reply, chartData: null, deepLink, timestamp };
+  }
+
+  /**
+   * Revert one record of a journal entry; throws with the reason it cannot be reverted
+   */
+  private async undoRecord(
+    sessionId: string,
+    entry: JournalEntry,
+    record: JournalRecord
+  ): Promise<{ line: string; deepLink?: string }> {
+    const client = this.clientFor(sessionId);
+    const endpoint = `/${entry.objectType}/${record.recordId}`;
+
+    switch (entry.operation) {
+      case 'create':
+        await client.delete(endpoint);
+        return { line: `Deleted **${record.recordName}** (ID ${record.recordId}), which had been created` };
+
+      case 'update': {
+        const before = record.before ?? {};
+        const after = record.after ?? {};
+        const fields = Object.keys(before);
+
+        // Don't overwrite a change someone made after ours
+        const current = await client.get<Record<string, unknown>>(`${endpoint}?fields=${fields.join(',')}`);
+        const moved = fields.filter(field =>
+          this.formatFieldValue(current[field] ?? null) !== this.formatFieldValue(after[field] ?? null)
+        );
+        if (moved.length > 0) {
+          throw new Error(`not reverted - ${moved.join(', ')} changed again since, so it was left as it is`);
+        }
+
+        await client.patch(endpoint, Object.fromEntries(fields.map(field => [field, this.restorableValue(before[field])])));
+        const metadata = await this.getObjectMetadata(entry.objectType, sessionId);
+        const restored = fields.map(field => {
+          const displayName = metadata.attributes.find(a => a.apiName === field)?.displayName ?? field;
+          return `${displayName} back to ${this.formatChangeValue(before[field] ?? null)}`;
+        }).join(', ');
+        return {
+          line: `**${record.recordName}:** ${restored}`,
+          deepLink: this.deepLinkService.generateRecordLink(entry.objectType, record.recordId),
+        };
+      }
+
+      case 'delete': {
+        // Recreated from the fields that can be written; Clarity gives it a new ID
+        const metadata = await this.getObjectMetadata(entry.objectType, sessionId);
+        const writable = new Set(metadata.attributes.filter(a => !a.isReadOnly).map(a => a.apiName));
+        const body = Object.fromEntries(
+          Object.entries(record.before ?? {})
+            .filter(([field, value]) => writable.has(field) && value !== null && value !== undefined)
+            .map(([field, value]) => [field, this.restorableValue(value)])
+        );
+        if (Object.keys(body).length === 0) {
+          throw new Error('cannot be recreated - nothing of the deleted record was kept');
+        }
+
+        let created: { _internalId?: number };
+        try {
+          created = await client.post(entry.path, body);
+        } catch (error) {
+          throw new Error(`Clarity would not recreate it (${error instanceof Error ? error.message : String(error)})`);
+        }
+        const newId = created._internalId;
+        return {
+          line: `Recreated **${record.recordName}**${newId !== undefined ? ` as ID ${newId}` : ''} - ` +
+            `the original ID ${record.recordId}, its history and child records are not restored`,
+          deepLink: newId !== undefined ? this.deepLinkService.generateRecordLink(entry.objectType, newId) : undefined,
+        };
+      }
+    }
+  }
+
+  /**
+   * Value as Clarity accepts it in a write: lookups by their code
+   */
+  private restorableValue(value: unknown): unknown {
+    return getLookupCode(value) ?? value;
+  }
+
+
   // ============================================================================
   // HELPER METHODS
   // ============================================================================
 
+  /**
+   * Clarity client carrying this session's own credentials.
+   * During an agent turn every call is counted against the turn's budget.
+   */
+  private clientFor(sessionId: string): ClarityRequester {
+    const client = this.clientPool.getClient(sessionId);
+    const budget = this.callBudgets.get(sessionId);
+    return budget ? budget.wrap(client) : client;
+  }
+
+  /**
+   * Record by code or name, looked up in `path` (the object's top-level collection by default)
+   */
+  /**
+   * Find a record by exact code or name in `path` (the object's top-level collection by default).
+   * Returns an error listing the candidates when the name matches more than one record.
+   */
   private async findRecord(
+    sessionId: string,
     objectType: string,
-    nameOrCode: string
-  ): Promise<{ _internalId: number; name?: string } | null> {
+    nameOrCode: string,
+    path = `/${objectType}`
+  ): Promise<{ _internalId: number; name?: string } | { error: string } | null> {
+    let response: Record<string, unknown> & { _results?: unknown[]; _totalCount?: number };
     try {
-      const response = await this.client.get<Record<string, unknown>>(
-        `/${objectType}?filter=((code = '${nameOrCode}') or (name = '${nameOrCode}'))&fields=_internalId,name&limit=1`
+      const filter = filterCompiler.toQueryParam(filterCompiler.anyOf([
+        filterCompiler.equals('code', nameOrCode),
+        filterCompiler.equals('name', nameOrCode),
+      ]));
+      response = await this.clientFor(sessionId).get<Record<string, unknown>>(
+        `${path}?${filter}&fields=_internalId,name,code&limit=2`
       );
-      const records = (response._results ?? []) as Array<Record<string, unknown>>;
-      if (records.length === 0) return null;
-      return {
-        _internalId: records[0]?.['_internalId'] as number,
-        name: records[0]?.['name'] as string | undefined,
-      };
     } catch {
       return null;
     }
-  }
 
-  private extractProjectName(message: string): string | null {
-    const match = message.match(/(?:in|for|of|under)\s+(?:project\s+)?["']?([a-zA-Z0-9_-]+)["']?/i);
-    return match?.[1] ?? null;
+    const records = (response._results ?? []) as Array<Record<string, unknown>>;
+    // Codes are unique, so a code match wins over records that share the name
+    const match = records.length === 1 ? records[0] : records.find(r => r['code'] === nameOrCode);
+    if (match) {
+      return {
+        _internalId: match['_internalId'] as number,
+        name: match['name'] as string | undefined,
+      };
+    }
+    if (records.length === 0) return null;
+
+    const candidates = records.map(r => `• ${r['name'] ?? nameOrCode} (${r['code'] ?? r['_internalId']})`);
+    const more = (response._totalCount ?? records.length) - records.length;
+    if (more > 0) candidates.push(`...and ${more} more`);
+    return {
+      error: `Several ${objectType} are named "${nameOrCode}" - name one by its code:\n${candidates.join('\n')}`,
+    };
   }
 
-  private extractRecordName(message: string): string | null {
-    const match = message.match(/(?:named?|called|project|task|record)\s+["']?([^"']+?)["']?(?:\s+set|\s+to|$)/i);
-    return match?.[1]?.trim() ?? null;
+  /**
+   * Collection path for the plan's object, nested under its project when one is named.
+   * Returns an error when the project cannot be found or its name is ambiguous.
+   */
+  private async resolveObjectPath(plan: APIPlan, sessionId: string): Promise<{ path: string } | { error: string }> {
+    if (!plan.project) return { path: `/${plan.objectType}` };
+
+    const project = await this.findRecord(sessionId, 'projects', plan.project);
+    if (!project) return { error: `Could not find project "${plan.project}"` };
+    if ('error' in project) return project;
+    return { path: `/projects/${project._internalId}/${plan.objectType}` };
   }
 
   private formatFieldValue(value: unknown): string {
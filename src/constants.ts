@@ -8,6 +8,73 @@ export const CACHE_TTL = {
   DISCOVERED_OBJECTS: 60 * 60 * 1000, // 1 hour
 };
 
+// Data types a chart can group into day / week / month / quarter / year buckets
+export const DATE_DATA_TYPES = ['DATE', 'DATETIME', 'TIMESTAMP'];
+
+// Most time buckets one chart may have (gaps included)
+export const MAX_DATE_BUCKETS = 400;
+
+// Data types a chart can sum / average (numeric measures)
+export const MEASURE_DATA_TYPES = ['NUMBER', 'INTEGER', 'MONEY'];
+
+// Paging used when an analysis reads a whole collection
+export const ANALYSIS_PAGING = {
+  PAGE_SIZE: 500,        // Clarity's maximum limit
+  CONCURRENCY: 4,        // Pages in flight at once
+  MAX_RECORDS: 10000,    // Larger collections are analyzed from the first MAX_RECORDS
+};
+
+// Objects only reachable under a parent record, and that parent's object
+export const CHILD_OBJECTS: Record<string, string> = {
+  tasks: 'projects',
+};
+
+// Batching used when joining records of two objects
+export const JOIN_LIMITS = {
+  MAX_PARENTS: 50,       // Parent records scanned for their children
+  BATCH_SIZE: 50,        // Referenced records fetched per request
+  CONCURRENCY: 4,        // Requests in flight at once
+};
+
+// Paging of record lists in chat replies
+export const RECORD_PAGING = {
+  PAGE_SIZE: 15,         // Records per page unless a limit or "next N" says otherwise
+  MAX_PAGE_SIZE: 50,     // Largest page shown in one reply
+  MAX_ALL: 200,          // Records "show all" reads
+};
+
+// Files built by export_data
+export const EXPORT_LIMITS = {
+  MAX_RECORDS: 10000,          // Records one export reads
+  TTL_MS: 15 * 60 * 1000,      // How long a download URL works
+};
+
+// Chart images served by /api/charts
+export const CHART_IMAGES = {
+  WIDTH: 800,                  // Default image size in pixels
+  HEIGHT: 500,
+  MIN_SIZE: 200,
+  MAX_SIZE: 2000,
+  TTL_MS: 30 * 60 * 1000,      // How long an image URL works
+};
+
+// Updates and deletes wait for the user's confirmation
+export const PENDING_ACTIONS = {
+  TTL_MS: 5 * 60 * 1000,       // How long a confirmation token works
+};
+
+// Bulk updates ("set all tasks of project X to 100% complete")
+export const BULK_UPDATES = {
+  MAX_RECORDS: 200,            // Records one bulk update may change (BULK_UPDATE_MAX_RECORDS)
+  CONCURRENCY: 4,              // PATCH requests in flight at once
+  SAMPLE_SIZE: 5,              // Records listed in the preview
+};
+
+// Writes made from chat, kept so they can be undone
+export const UNDO_JOURNAL = {
+  MAX_ENTRIES: 20,             // Changes kept per session, newest first
+};
+
 export const STANDARD_OBJECTS = [
   'projects',
   'tasks',
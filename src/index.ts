@@ -9,6 +9,7 @@
  * - Deep links to Clarity
  * - Dynamic Tools with Permissions
  * - Session Management
+ * - MCP server (stdio and streamable HTTP)
  */
 
 import express from 'express';
@@ -18,9 +19,21 @@ import dotenv from 'dotenv';
 import { ClarityApiClient, createClarityClient } from './services/ClarityApiClient.js';
 import { MetadataService } from './services/MetadataService.js';
 import { LookupService } from './services/LookupService.js';
-import { AIChatHandler } from './aiChatHandler.js';
-import { toolRegistry } from './tools/ToolRegistry.js';
+import { AuditService, type AuditEntry } from './services/AuditService.js';
+import { ClarityClientPool, MissingCredentialsError, type ClarityCredentials } from './services/ClarityClientPool.js';
+import { ExportService } from './services/ExportService.js';
+import { ChartImageService, type ChartImageFormat } from './services/ChartImageService.js';
+import { PendingActionService } from './services/PendingActionService.js';
+import { OperationJournalService } from './services/OperationJournalService.js';
+import { CHART_TYPES } from './query/ChartRenderer.js';
+import type { ChartType } from './types/context.js';
+import { AIChatHandler, type ChatMode } from './aiChatHandler.js';
+import { toolRegistry, PERMISSION_PRESETS, type Permission } from './tools/ToolRegistry.js';
 import { sessionManager } from './tools/SessionManager.js';
+import { ToolExecutor } from './tools/ToolExecutor.js';
+import { objectPolicy } from './tools/ObjectPolicy.js';
+import { STANDARD_OBJECTS } from './constants.js';
+import { ClarityMcpServer } from './mcp/ClarityMcpServer.js';
 
 // Load environment variables
 dotenv.config();
@@ -36,17 +49,47 @@ const config = {
   clarityPassword: process.env['CLARITY_PASSWORD'],
   claritySessionId: process.env['CLARITY_SESSION_ID'],
   clarityAuthToken: process.env['CLARITY_AUTH_TOKEN'],
+  mcpStdio: process.argv.includes('--stdio') || process.env['MCP_TRANSPORT'] === 'stdio',
+  mcpSessionId: process.env['MCP_SESSION_ID'] ?? 'mcp-stdio',
+  mcpRole: (process.env['MCP_ROLE'] ?? 'readonly') as keyof typeof PERMISSION_PRESETS,
+  // Comma-separated path prefixes the /api/clarity proxy may reach
+  proxyAllowlist: (process.env['CLARITY_PROXY_ALLOWLIST'] ?? ['/describe', ...STANDARD_OBJECTS.map(o => `/${o}`)].join(','))
+    .split(',')
+    .map(p => p.trim())
+    .filter(Boolean),
+  auditLogFile: process.env['AUDIT_LOG_FILE'],
+  // Let sessions without Clarity credentials run as the service account (off: they are refused)
+  allowServiceAccountFallback: process.env['CLARITY_ALLOW_SERVICE_ACCOUNT_FALLBACK'] === 'true',
+  clientPoolSize: parseInt(process.env['CLARITY_CLIENT_POOL_SIZE'] ?? '200', 10),
+  // Chat planning: 'single' (one tool call) or 'agent' (multi-step)
+  chatMode: (process.env['CHAT_MODE'] === 'agent' ? 'agent' : 'single') as ChatMode,
+  agentMaxSteps: parseInt(process.env['AGENT_MAX_STEPS'] ?? '6', 10),
+  agentMaxClarityCalls: parseInt(process.env['AGENT_MAX_CLARITY_CALLS'] ?? '20', 10),
+  // Public URL of this server, used in export and chart image links (relative links when empty)
+  publicBaseUrl: process.env['PUBLIC_BASE_URL'] ?? '',
+  exportTtlMinutes: parseInt(process.env['EXPORT_TTL_MINUTES'] ?? '15', 10),
+  bulkUpdateMaxRecords: parseInt(process.env['BULK_UPDATE_MAX_RECORDS'] ?? '200', 10),
 };
 
+// In stdio mode stdout carries the MCP protocol, so route logs to stderr
+if (config.mcpStdio) {
+  console.log = console.error;
+}
+
 // ============================================================================
 // SERVICES
 // ============================================================================
 
 let sharedServices: {
   clarityClient: ClarityApiClient;
+  clientPool: ClarityClientPool;
   metadataService: MetadataService;
   lookupService: LookupService;
   chatHandler: AIChatHandler;
+  mcpServer: ClarityMcpServer;
+  auditService: AuditService;
+  exportService: ExportService;
+  chartImageService: ChartImageService;
 } | null = null;
 
 function getServices() {
@@ -59,19 +102,72 @@ function getServices() {
       authToken: config.clarityAuthToken,
     });
     
+    // Metadata and lookups are schema-level and use the service account;
+    // record data goes through per-session clients from the pool
+    const clientPool = new ClarityClientPool(
+      { baseUrl: config.clarityBaseUrl },
+      clarityClient,
+      {
+        maxClients: config.clientPoolSize,
+        allowServiceAccountFallback: config.allowServiceAccountFallback,
+      }
+    );
+    sessionManager.onSessionEnd(sessionId => clientPool.evict(sessionId));
+    
     const metadataService = new MetadataService(clarityClient);
     const lookupService = new LookupService(clarityClient);
     
+    // Export files are shared by chat and MCP, and served by /api/exports
+    const exportService = new ExportService({
+      publicBaseUrl: config.publicBaseUrl,
+      ttlMs: config.exportTtlMinutes * 60 * 1000,
+    });
+    sessionManager.onSessionEnd(sessionId => exportService.evictSession(sessionId));
+    
+    // Chart images, served by /api/charts and embedded in chart responses
+    const chartImageService = new ChartImageService({ publicBaseUrl: config.publicBaseUrl });
+    sessionManager.onSessionEnd(sessionId => chartImageService.evictSession(sessionId));
+    
+    // Updates and deletes from chat wait here for confirmation
+    const pendingActionService = new PendingActionService();
+    sessionManager.onSessionEnd(sessionId => pendingActionService.discard(sessionId));
+    
+    // Writes made from chat, for "undo"
+    const operationJournal = new OperationJournalService();
+    sessionManager.onSessionEnd(sessionId => operationJournal.evictSession(sessionId));
+    
     sharedServices = {
       clarityClient,
+      clientPool,
       metadataService,
       lookupService,
       chatHandler: new AIChatHandler(
-        clarityClient, 
+        clientPool, 
         metadataService, 
         lookupService, 
-        config.clarityBaseUrl
+        config.clarityBaseUrl,
+        {
+          defaultMode: config.chatMode,
+          agentMaxSteps: config.agentMaxSteps,
+          agentMaxClarityCalls: config.agentMaxClarityCalls,
+          exportService,
+          chartImageService,
+          pendingActionService,
+          operationJournal,
+          bulkUpdateMaxRecords: config.bulkUpdateMaxRecords,
+        }
+      ),
+      mcpServer: new ClarityMcpServer(
+        new ToolExecutor(clientPool, metadataService, lookupService, config.clarityBaseUrl, {
+          exportService,
+          chartImageService,
+          bulkUpdateMaxRecords: config.bulkUpdateMaxRecords,
+        }),
+        metadataService
       ),
+      auditService: new AuditService({ logFile: config.auditLogFile }),
+      exportService,
+      chartImageService,
     };
   }
   return sharedServices;
@@ -92,7 +188,7 @@ app.get('/health', (_req, res) => {
   res.json({ 
     status: 'ok', 
     version: '3.1.0',
-    features: ['ai-chat', 'context-memory', 'drill-down', 'suggestions', 'deep-links', 'dynamic-tools', 'sessions'],
+    features: ['ai-chat', 'context-memory', 'drill-down', 'suggestions', 'deep-links', 'dynamic-tools', 'sessions', 'mcp'],
     capabilities: {
       canRead: caps.canRead,
       hasProjects: caps.hasProjects,
@@ -106,10 +202,57 @@ app.get('/health', (_req, res) => {
   });
 });
 
+// Chat mode requested by the client (unknown values fall back to the server default)
+function parseChatMode(mode: unknown): ChatMode | undefined {
+  return mode === 'agent' || mode === 'single' ? mode : undefined;
+}
+
+// Confirm or cancel an update/delete previewed in chat. The token comes from the
+// reply's pendingAction and works once, for the active session that asked.
+app.post('/api/actions/:token/:decision', async (req, res) => {
+  try {
+    const { token, decision } = req.params;
+    const sessionId = (req.headers['x-session-id'] as string | undefined) ?? (req.body as { sessionId?: string })?.sessionId;
+    if (decision !== 'confirm' && decision !== 'cancel') {
+      res.status(404).json({ error: 'Use /confirm or /cancel' });
+      return;
+    }
+    if (!sessionId || !sessionManager.getSession(sessionId)) {
+      res.status(401).json({ error: 'A valid session is required (X-Session-Id header or body)' });
+      return;
+    }
+    
+    const { chatHandler } = getServices();
+    const response = decision === 'confirm'
+      ? await chatHandler.confirmAction(sessionId, token)
+      : await chatHandler.cancelAction(sessionId, token);
+    res.json(response);
+  } catch (error) {
+    console.error('[API] Action error:', error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Error' });
+  }
+});
+
+// Undo the session's last write from chat (active sessions only)
+app.post('/api/undo', async (req, res) => {
+  try {
+    const sessionId = (req.headers['x-session-id'] as string | undefined) ?? (req.body as { sessionId?: string })?.sessionId;
+    if (!sessionId || !sessionManager.getSession(sessionId)) {
+      res.status(401).json({ error: 'A valid session is required (X-Session-Id header or body)' });
+      return;
+    }
+    
+    res.json(await getServices().chatHandler.undoLastChange(sessionId));
+  } catch (error) {
+    console.error('[API] Undo error:', error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Error' });
+  }
+});
+
 // AI Chat endpoint
 app.post('/api/chat', async (req, res) => {
   try {
-    const { message, sessionId } = req.body as { message?: string; sessionId?: string };
+    const { message, sessionId, mode } = req.body as { message?: string; sessionId?: string; mode?: string };
     
     if (!message || typeof message !== 'string') {
       res.status(400).json({ error: 'Message is required' });
@@ -119,7 +262,8 @@ app.post('/api/chat', async (req, res) => {
     const services = getServices();
     const response = await services.chatHandler.handleMessage(
       message, 
-      sessionId ?? 'default'
+      sessionId ?? 'default',
+      { mode: parseChatMode(mode) }
     );
     
     res.json(response);
@@ -157,32 +301,223 @@ app.get('/api/objects/:objectType/metadata', async (req, res) => {
   }
 });
 
-// Proxy to Clarity API
-app.get('/api/clarity/*', async (req, res) => {
+// ============================================================================
+// CLARITY PROXY
+// ============================================================================
+
+// Permission each proxied HTTP method requires
+const PROXY_METHOD_PERMISSIONS: Record<string, Permission> = {
+  GET: 'read',
+  POST: 'write',
+  PATCH: 'write',
+  DELETE: 'delete',
+};
+
+// Allowlist entries are path prefixes; '*' matches within one segment (e.g. /cust*)
+const proxyAllowlist = config.proxyAllowlist.map(entry => {
+  const pattern = entry
+    .replace(/\/+$/, '')
+    .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '[^/]*');
+  return new RegExp(`^${pattern}(/.*)?$`);
+});
+
+/**
+ * Authorize a proxy request: session, method permission, path allowlist, object ACL.
+ * Returns the HTTP status and reason on denial.
+ */
+function authorizeProxyRequest(
+  sessionId: string | undefined,
+  method: string,
+  endpoint: string
+): { status: number; reason: string } | null {
+  if (!sessionId || !sessionManager.getSession(sessionId)) {
+    return { status: 401, reason: 'A valid session is required (X-Session-Id header)' };
+  }
+  
+  const permission = PROXY_METHOD_PERMISSIONS[method];
+  if (!permission) {
+    return { status: 405, reason: `Method ${method} is not proxied` };
+  }
+  if (!toolRegistry.getEffectivePermissions(sessionId).includes(permission)) {
+    return { status: 403, reason: `${method} requires the ${permission} permission` };
+  }
+  
+  if (endpoint.split('/').some(segment => segment === '..' || segment === '.')) {
+    return { status: 400, reason: 'Relative path segments are not allowed' };
+  }
+  if (!proxyAllowlist.some(pattern => pattern.test(endpoint))) {
+    return { status: 403, reason: `Path ${endpoint} is not on the proxy allowlist` };
+  }
+  
+  for (const objectType of objectPolicy.getPathObjects(endpoint)) {
+    const access = sessionManager.validateObjectAccess(sessionId, objectType);
+    if (!access.allowed) {
+      return { status: 403, reason: access.reason ?? `Access denied to object: ${objectType}` };
+    }
+  }
+  
+  return null;
+}
+
+async function handleProxyRequest(req: express.Request, res: express.Response): Promise<void> {
+  const startTime = Date.now();
+  const method = req.method.toUpperCase();
+  const wildcardParam = (req.params as Record<string, string>)['0'] ?? '';
+  const endpoint = '/' + wildcardParam;
+  
+  const { sessionId: querySessionId, ...forwardedQuery } = req.query as Record<string, string>;
+  const sessionId = (req.headers['x-session-id'] as string | undefined) ?? querySessionId;
+  const session = sessionId ? sessionManager.getSession(sessionId) : null;
+  
+  const services = getServices();
+  const audit = (entry: Pick<AuditEntry, 'outcome' | 'status' | 'reason'>) => services.auditService.record({
+    sessionId: sessionId ?? 'anonymous',
+    userId: session?.userId,
+    username: session?.username,
+    source: 'proxy',
+    method,
+    path: endpoint,
+    durationMs: Date.now() - startTime,
+    ...entry,
+  });
+  
+  const denial = authorizeProxyRequest(sessionId, method, endpoint);
+  if (denial) {
+    audit({ outcome: 'denied', status: denial.status, reason: denial.reason });
+    res.status(denial.status).json({ error: denial.reason });
+    return;
+  }
+  
   try {
-    const wildcardParam = (req.params as Record<string, string>)['0'] ?? '';
-    const endpoint = '/' + wildcardParam;
-    const queryString = new URLSearchParams(req.query as Record<string, string>).toString();
+    const queryString = new URLSearchParams(forwardedQuery).toString();
     const fullEndpoint = queryString ? `${endpoint}?${queryString}` : endpoint;
+    const body = (req.body ?? {}) as Record<string, unknown>;
     
-    const services = getServices();
-    const data = await services.clarityClient.get(fullEndpoint);
+    const client = services.clientPool.getClient(sessionId!);
+    
+    let data: unknown;
+    switch (method) {
+      case 'GET':
+        data = await client.get(fullEndpoint);
+        break;
+      case 'POST':
+        data = await client.post(fullEndpoint, body);
+        break;
+      case 'PATCH':
+        data = await client.patch(fullEndpoint, body);
+        break;
+      case 'DELETE':
+        data = await client.delete(fullEndpoint);
+        break;
+    }
+    
+    audit({ outcome: 'allowed', status: 200 });
     res.json(data);
   } catch (error) {
+    const message = error instanceof Error ? error.message : 'Error';
+    const upstreamStatus = parseInt(message.match(/^HTTP (\d{3})/)?.[1] ?? '', 10);
+    const status = error instanceof MissingCredentialsError ? 401 : Number.isFinite(upstreamStatus) ? upstreamStatus : 500;
+    
     console.error('[API] Clarity proxy error:', error);
+    audit({ outcome: 'error', status, reason: message.substring(0, 200) });
+    res.status(status).json({ error: message });
+  }
+}
+
+// Proxy to Clarity API (session-bound, allowlisted, audited)
+app.get('/api/clarity/*', handleProxyRequest);
+app.post('/api/clarity/*', handleProxyRequest);
+app.patch('/api/clarity/*', handleProxyRequest);
+app.delete('/api/clarity/*', handleProxyRequest);
+
+// Audit trail (admin sessions only)
+app.get('/api/audit', (req, res) => {
+  try {
+    const sessionId = req.headers['x-session-id'] as string | undefined;
+    if (!sessionId || !toolRegistry.getEffectivePermissions(sessionId).includes('admin') ||
+        !sessionManager.getSession(sessionId)) {
+      res.status(403).json({ error: 'Admin session required' });
+      return;
+    }
+    
+    const entries = getServices().auditService.getEntries({
+      sessionId: req.query['sessionId'] as string | undefined,
+      limit: parseInt((req.query['limit'] as string) ?? '100', 10),
+    });
+    res.json({ success: true, entries });
+  } catch (error) {
+    console.error('[API] Audit error:', error);
     res.status(500).json({ error: error instanceof Error ? error.message : 'Error' });
   }
 });
 
-app.post('/api/clarity/*', async (req, res) => {
+// Export downloads - the token comes from export_data and works while its session is active
+app.get('/api/exports/:token', (req, res) => {
   try {
-    const wildcardParam = (req.params as Record<string, string>)['0'] ?? '';
-    const endpoint = '/' + wildcardParam;
-    const services = getServices();
-    const data = await services.clarityClient.post(endpoint, req.body);
-    res.json(data);
+    const requesterSessionId = (req.headers['x-session-id'] as string | undefined) ?? (req.query['sessionId'] as string | undefined);
+    const download = getServices().exportService.getDownload(req.params.token!, requesterSessionId);
+    if (!download || !sessionManager.getSession(download.sessionId)) {
+      res.status(404).json({ error: 'Export not found or expired' });
+      return;
+    }
+    
+    const { file } = download;
+    const asciiName = file.filename.replace(/[^\x20-\x7E]|"/g, '_');
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(file.filename)}`
+    );
+    res.send(file.body);
   } catch (error) {
-    console.error('[API] Clarity proxy error:', error);
+    console.error('[API] Export download error:', error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Error' });
+  }
+});
+
+// Chart images - /api/charts/<token>.svg or .png, optionally ?type=pie&width=600&height=400
+app.get('/api/charts/:token.:format', async (req, res) => {
+  try {
+    const format = req.params.format as ChartImageFormat;
+    const type = req.query['type'] as ChartType | undefined;
+    if (format !== 'svg' && format !== 'png') {
+      res.status(400).json({ error: 'Format must be svg or png' });
+      return;
+    }
+    if (type && !CHART_TYPES.includes(type)) {
+      res.status(400).json({ error: `Unknown chart type. Use one of: ${CHART_TYPES.join(', ')}` });
+      return;
+    }
+    
+    const { chartImageService } = getServices();
+    const requesterSessionId = (req.headers['x-session-id'] as string | undefined) ?? (req.query['sessionId'] as string | undefined);
+    const stored = chartImageService.getChart(req.params.token!, requesterSessionId);
+    if (!stored || !sessionManager.getSession(stored.sessionId)) {
+      res.status(404).json({ error: 'Chart not found or expired' });
+      return;
+    }
+    
+    const size = (name: string) => {
+      const value = parseInt(String(req.query[name] ?? ''), 10);
+      return Number.isFinite(value) ? value : undefined;
+    };
+    const image = await chartImageService.render(stored.chart, format, {
+      type,
+      title: stored.title,
+      width: size('width'),
+      height: size('height'),
+    });
+    if ('error' in image) {
+      res.status(501).json({ error: image.error });
+      return;
+    }
+    
+    res.setHeader('Content-Type', image.contentType);
+    res.setHeader('Cache-Control', 'private, max-age=300');
+    res.send(image.body);
+  } catch (error) {
+    console.error('[API] Chart image error:', error);
     res.status(500).json({ error: error instanceof Error ? error.message : 'Error' });
   }
 });
@@ -204,6 +539,7 @@ app.post('/api/session', async (req, res) => {
       deniedObjects,
       expiresInMinutes,
       metadata,
+      clarityCredentials,
     } = req.body as {
       sessionId?: string;
       userId?: string;
@@ -214,16 +550,26 @@ app.post('/api/session', async (req, res) => {
       deniedObjects?: string[];
       expiresInMinutes?: number;
       metadata?: Record<string, unknown>;
+      clarityCredentials?: ClarityCredentials;
     };
     
     // Generate session ID if not provided
     const sid = sessionId ?? `session_${Date.now()}_${Math.random().toString(36).substring(7)}`;
     
+    // The user's own Clarity session, so queries run under Clarity's row-level security
+    const services = getServices();
+    if (clarityCredentials?.sessionId || clarityCredentials?.authToken) {
+      services.clientPool.setCredentials(sid, {
+        sessionId: clarityCredentials.sessionId,
+        authToken: clarityCredentials.authToken,
+      });
+    }
+    
     // If no role specified, try to detect from Clarity user info
     let detectedRole = role;
-    if (!detectedRole && !permissions && userId && sharedServices) {
+    if (!detectedRole && !permissions && userId) {
       try {
-        const userResp = await sharedServices.clarityClient.get<Record<string, unknown>>(
+        const userResp = await services.clientPool.getClient(sid).get<Record<string, unknown>>(
           `/resources/${userId}?fields=_internalId,userName,isActive`
         );
         if (userResp) {
@@ -248,7 +594,10 @@ app.post('/api/session', async (req, res) => {
       metadata,
     });
     
-    res.json({ success: true, session });
+    res.json({
+      success: true,
+      session: { ...session, hasClarityCredentials: services.clientPool.hasCredentials(sid) },
+    });
   } catch (error) {
     console.error('[API] Session creation error:', error);
     res.status(500).json({ error: error instanceof Error ? error.message : 'Error' });
@@ -354,7 +703,7 @@ app.get('/api/tools/:toolId/check', (req, res) => {
 // AI Chat endpoint with session validation
 app.post('/api/chat/secure', async (req, res) => {
   try {
-    const { message, sessionId } = req.body as { message?: string; sessionId?: string };
+    const { message, sessionId, mode } = req.body as { message?: string; sessionId?: string; mode?: string };
     
     if (!message || typeof message !== 'string') {
       res.status(400).json({ error: 'Message is required' });
@@ -375,7 +724,7 @@ app.post('/api/chat/secure', async (req, res) => {
     }
     
     const services = getServices();
-    const response = await services.chatHandler.handleMessage(message, sid);
+    const response = await services.chatHandler.handleMessage(message, sid, { mode: parseChatMode(mode) });
     
     // Add session info and available tools to response
     res.json({
@@ -396,20 +745,50 @@ app.post('/api/chat/secure', async (req, res) => {
 });
 
 // ============================================================================
-// START SERVER
+// MCP (STREAMABLE HTTP)
 // ============================================================================
 
-app.listen(config.port, async () => {
-  console.log(`
-╔═══════════════════════════════════════════════════════════════╗
-║           Clarity PPM MCP Server v3.1.0                       ║
-╠═══════════════════════════════════════════════════════════════╣
-║  🚀 Server running on port ${config.port}                            ║
-║  📡 Clarity URL: ${config.clarityBaseUrl.substring(0, 35).padEnd(35)}     ║
-╚═══════════════════════════════════════════════════════════════╝
-  `);
-  
-  // Validate Clarity capabilities at startup
+// Client-to-server messages; initialize opens a session bound to X-Session-Id
+app.post('/mcp', async (req, res) => {
+  try {
+    await getServices().mcpServer.handleHttpPost(req, res);
+  } catch (error) {
+    console.error('[API] MCP error:', error);
+    if (!res.headersSent) {
+      res.status(500).json({
+        jsonrpc: '2.0',
+        error: { code: -32603, message: 'Internal server error' },
+        id: null,
+      });
+    }
+  }
+});
+
+// Server-to-client event stream
+app.get('/mcp', async (req, res) => {
+  try {
+    await getServices().mcpServer.handleHttpSession(req, res);
+  } catch (error) {
+    console.error('[API] MCP stream error:', error);
+    if (!res.headersSent) res.status(500).end();
+  }
+});
+
+// End an MCP session
+app.delete('/mcp', async (req, res) => {
+  try {
+    await getServices().mcpServer.handleHttpSession(req, res);
+  } catch (error) {
+    console.error('[API] MCP session delete error:', error);
+    if (!res.headersSent) res.status(500).end();
+  }
+});
+
+// ============================================================================
+// CAPABILITIES
+// ============================================================================
+
+async function validateStartupCapabilities(): Promise<void> {
   try {
     const services = getServices();
     console.log('[Startup] Validating Clarity API capabilities...');
@@ -435,8 +814,45 @@ app.listen(config.port, async () => {
         await toolRegistry.validateCapabilities(services.clarityClient);
         console.log('[Refresh] Capabilities refreshed');
       }
+      // Drop pooled clients of expired or idle sessions
+      getServices().clientPool.prune(sessionId => sessionManager.getSession(sessionId) !== null);
+      
+      // Re-fetch expired metadata so MCP clients get change notifications
+      await getServices().metadataService.refreshExpired();
     } catch {
       console.error('[Refresh] Failed to refresh capabilities');
     }
   }, 10 * 60 * 1000);
-});
+}
+
+// ============================================================================
+// START SERVER
+// ============================================================================
+
+if (config.mcpStdio) {
+  // Desktop MCP clients: one long-lived session, role from MCP_ROLE
+  sessionManager.createSession({
+    sessionId: config.mcpSessionId,
+    username: 'mcp-stdio',
+    role: config.mcpRole,
+    expiresInMinutes: 0,
+  });
+  // The desktop user runs the server with their own Clarity account
+  getServices().clientPool.useServiceAccount(config.mcpSessionId);
+  
+  await validateStartupCapabilities();
+  await getServices().mcpServer.connectStdio(config.mcpSessionId);
+} else {
+  app.listen(config.port, async () => {
+    console.log(`
+╔═══════════════════════════════════════════════════════════════╗
+║           Clarity PPM MCP Server v3.1.0                       ║
+╠═══════════════════════════════════════════════════════════════╣
+║  🚀 Server running on port ${config.port}                            ║
+║  📡 Clarity URL: ${config.clarityBaseUrl.substring(0, 35).padEnd(35)}     ║
+╚═══════════════════════════════════════════════════════════════╝
+    `);
+    
+    await validateStartupCapabilities();
+  });
+}
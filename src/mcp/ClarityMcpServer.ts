@@ -0,0 +1,512 @@
+/**
+ * Clarity MCP Server
+ * Exposes the tool registry over the Model Context Protocol.
+ *
+ * Transports:
+ * - stdio: for desktop clients (run with --stdio)
+ * - Streamable HTTP: mounted at /mcp next to the Express API
+ *
+ * Every MCP connection is bound to a Clarity session, so tool listing and
+ * tool calls honor the same permissions as the chat endpoints.
+ *
+ * Resources:
+ * - clarity://objects                          - all discovered objects
+ * - clarity://objects/{resourceName}/schema    - attributes of one object
+ */
+
+import { randomUUID } from 'node:crypto';
+import type { Request, Response } from 'express';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  CompleteRequestSchema,
+  McpError,
+  ErrorCode,
+  isInitializeRequest,
+} from '@modelcontextprotocol/sdk/types.js';
+
+import { toolRegistry, buildToolInputSchema, validateToolInput, ALL_TOOLS } from '../tools/ToolRegistry.js';
+import { objectPolicy } from '../tools/ObjectPolicy.js';
+import { sessionManager } from '../tools/SessionManager.js';
+import type { ToolExecutor } from '../tools/ToolExecutor.js';
+import type { MetadataService } from '../services/MetadataService.js';
+import type { MetadataRefreshEvent, ObjectMetadata } from '../types/clarity.js';
+import { PROMPT_TEMPLATES, getPromptTemplate, findAttribute } from './ClarityPrompts.js';
+
+const SERVER_INFO = {
+  name: 'clarity-mcp-server',
+  version: '3.1.0',
+};
+
+const OBJECTS_URI = 'clarity://objects';
+const SCHEMA_URI_TEMPLATE = 'clarity://objects/{resourceName}/schema';
+const SCHEMA_URI_PATTERN = /^clarity:\/\/objects\/([^/]+)\/schema$/;
+
+// Max objects named in prompt argument descriptions
+const PROMPT_OBJECT_HINT_COUNT = 15;
+
+function schemaUri(objectType: string): string {
+  return `clarity://objects/${encodeURIComponent(objectType)}/schema`;
+}
+
+// ============================================================================
+// CLARITY MCP SERVER
+// ============================================================================
+
+export class ClarityMcpServer {
+  private toolExecutor: ToolExecutor;
+  private metadataService: MetadataService;
+
+  // Active HTTP transports and their Clarity session, keyed by MCP session ID
+  private httpTransports: Map<string, { transport: StreamableHTTPServerTransport; claritySessionId: string }> = new Map();
+
+  constructor(toolExecutor: ToolExecutor, metadataService: MetadataService) {
+    this.toolExecutor = toolExecutor;
+    this.metadataService = metadataService;
+  }
+
+  /**
+   * Create an MCP server bound to a Clarity session
+   */
+  createServer(sessionId: string): Server {
+    const server = new Server(SERVER_INFO, {
+      capabilities: {
+        tools: {},
+        resources: { subscribe: true, listChanged: true },
+        prompts: { listChanged: true },
+        completions: {},
+      },
+    });
+
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
+      const tools = toolRegistry.getAvailableTools(sessionId);
+      return {
+        tools: tools.map(tool => ({
+          name: tool.id,
+          title: tool.name,
+          description: tool.examples?.length
+            ? `${tool.description}. Examples: ${tool.examples.join('; ')}`
+            : tool.description,
+          inputSchema: buildToolInputSchema(tool),
+        })),
+      };
+    });
+
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+      const { name, arguments: args } = request.params;
+      console.log(`[MCP] ${sessionId} → ${name}`);
+
+      const tool = ALL_TOOLS.find(t => t.id === name);
+      const errors = tool ? validateToolInput(tool, args ?? {}) : [];
+      if (errors.length > 0) {
+        throw new McpError(ErrorCode.InvalidParams, `Invalid arguments for ${name}:\n${errors.map(e => `• ${e}`).join('\n')}`);
+      }
+
+      // Bulk updates report progress when the client asked for it
+      const progressToken = request.params._meta?.progressToken;
+      const result = await this.toolExecutor.execute(name, args ?? {}, sessionId, {
+        onProgress: progressToken === undefined ? undefined : progress => {
+          void extra.sendNotification({
+            method: 'notifications/progress',
+            params: {
+              progressToken,
+              progress: progress.done,
+              total: progress.total,
+              message: `${progress.done} of ${progress.total} done, ${progress.failed} failed`,
+            },
+          });
+        },
+      });
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: result.success
+              ? JSON.stringify({ summary: result.summary, ...(result.data as object) }, null, 2)
+              : `Error: ${result.error ?? result.summary}`,
+          },
+          // Charts come with their image (PNG when the server can rasterize, SVG otherwise)
+          ...(result.image
+            ? [{
+                type: 'image' as const,
+                data: result.image.body.toString('base64'),
+                mimeType: result.image.contentType.split(';')[0]!,
+              }]
+            : []),
+        ],
+        isError: !result.success,
+      };
+    });
+
+    this.registerResources(server, sessionId);
+    this.registerPrompts(server, sessionId);
+
+    return server;
+  }
+
+  // ============================================================================
+  // RESOURCES
+  // ============================================================================
+
+  private registerResources(server: Server, sessionId: string): void {
+    const subscriptions = new Set<string>();
+
+    server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+      resources: [
+        {
+          uri: OBJECTS_URI,
+          name: 'objects',
+          title: 'Clarity Objects',
+          description: 'All standard and custom objects available in Clarity',
+          mimeType: 'application/json',
+        },
+      ],
+    }));
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: [
+        {
+          uriTemplate: SCHEMA_URI_TEMPLATE,
+          name: 'object-schema',
+          title: 'Object Schema',
+          description: 'Attributes of a Clarity object: API names, display names, types, lookups',
+          mimeType: 'application/json',
+        },
+      ],
+    }));
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const { uri } = request.params;
+
+      if (uri === OBJECTS_URI) {
+        const objects = await this.getAccessibleObjects(sessionId);
+        const customObjects = await this.metadataService.getCustomObjects();
+        const customNames = new Set(customObjects.map(o => o.resourceName));
+
+        const payload = objects.map(resourceName => ({
+          resourceName,
+          label: this.metadataService.getCachedLabel(resourceName) ?? resourceName,
+          isCustom: customNames.has(resourceName),
+          schemaUri: schemaUri(resourceName),
+        }));
+
+        return {
+          contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(payload, null, 2) }],
+        };
+      }
+
+      const match = uri.match(SCHEMA_URI_PATTERN);
+      if (match) {
+        const objectType = decodeURIComponent(match[1]!);
+        const metadata = await this.getAccessibleMetadata(sessionId, objectType);
+        return {
+          contents: [{ uri, mimeType: 'application/json', text: this.formatSchema(metadata) }],
+        };
+      }
+
+      throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+    });
+
+    server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      subscriptions.add(request.params.uri);
+      return {};
+    });
+
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      subscriptions.delete(request.params.uri);
+      return {};
+    });
+
+    // Forward metadata cache refreshes as resource notifications
+    const unsubscribe = this.metadataService.onRefresh((event: MetadataRefreshEvent) => {
+      const notify = async () => {
+        if (event.type === 'objects') {
+          await server.sendResourceListChanged();
+          await server.sendPromptListChanged();
+          if (subscriptions.has(OBJECTS_URI)) {
+            await server.sendResourceUpdated({ uri: OBJECTS_URI });
+          }
+        } else if (subscriptions.has(schemaUri(event.objectType))) {
+          await server.sendResourceUpdated({ uri: schemaUri(event.objectType) });
+        }
+      };
+      notify().catch(() => {
+        // Not connected yet or already closed - nothing to notify
+      });
+    });
+
+    server.onclose = unsubscribe;
+  }
+
+  private formatSchema(metadata: ObjectMetadata): string {
+    const groupable = new Set(
+      this.metadataService.getGroupableFields(metadata).map(a => a.apiName)
+    );
+
+    return JSON.stringify({
+      resourceName: metadata.resourceName,
+      label: metadata.label,
+      pluralLabel: metadata.pluralLabel,
+      isCustom: metadata.isCustom,
+      attributes: metadata.attributes.map(a => ({
+        ...a,
+        isGroupable: groupable.has(a.apiName),
+      })),
+    }, null, 2);
+  }
+
+  // ============================================================================
+  // PROMPTS
+  // ============================================================================
+
+  private registerPrompts(server: Server, sessionId: string): void {
+    server.setRequestHandler(ListPromptsRequestSchema, async () => {
+      const objects = await this.getAccessibleObjects(sessionId);
+      const objectHint = objects.slice(0, PROMPT_OBJECT_HINT_COUNT).join(', ') +
+        (objects.length > PROMPT_OBJECT_HINT_COUNT ? `, ... (${objects.length} total)` : '');
+
+      return {
+        prompts: PROMPT_TEMPLATES.map(template => ({
+          name: template.name,
+          title: template.title,
+          description: template.description,
+          arguments: template.arguments.map(arg => ({
+            name: arg.name,
+            description: arg.kind === 'object'
+              ? `${arg.description}. One of: ${objectHint}`
+              : arg.description,
+            required: arg.required,
+          })),
+        })),
+      };
+    });
+
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const template = getPromptTemplate(request.params.name);
+      if (!template) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${request.params.name}`);
+      }
+
+      const args: Record<string, string> = {};
+      for (const arg of template.arguments) {
+        const value = request.params.arguments?.[arg.name] ?? arg.default;
+        if (value) {
+          args[arg.name] = value;
+        } else if (arg.required) {
+          throw new McpError(ErrorCode.InvalidParams, `Missing required argument: ${arg.name}`);
+        }
+      }
+
+      const objectArg = template.arguments.find(a => a.kind === 'object');
+      const fieldArg = template.arguments.find(a => a.kind === 'field');
+
+      const requestedObject = args[objectArg?.name ?? 'object'] ?? 'projects';
+      const objectType = this.metadataService.resolveObjectName(requestedObject) ?? requestedObject;
+      const metadata = await this.getAccessibleMetadata(sessionId, objectType);
+
+      const field = fieldArg && args[fieldArg.name]
+        ? findAttribute(metadata, args[fieldArg.name]!)
+        : undefined;
+      if (fieldArg && args[fieldArg.name] && !field) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Field "${args[fieldArg.name]}" not found in ${metadata.label}`
+        );
+      }
+
+      const messages: Array<{
+        role: 'user';
+        content:
+          | { type: 'text'; text: string }
+          | { type: 'resource'; resource: { uri: string; mimeType: string; text: string } };
+      }> = [
+        { role: 'user', content: { type: 'text', text: template.build({ metadata, field, args }) } },
+      ];
+
+      if (template.embedSchema) {
+        messages.push({
+          role: 'user',
+          content: {
+            type: 'resource',
+            resource: {
+              uri: schemaUri(metadata.resourceName),
+              mimeType: 'application/json',
+              text: this.formatSchema(metadata),
+            },
+          },
+        });
+      }
+
+      return { description: template.description, messages };
+    });
+
+    // Argument completion: object names, and fields of the chosen object
+    server.setRequestHandler(CompleteRequestSchema, async (request) => {
+      const { ref, argument, context } = request.params;
+      const prefix = argument.value.toLowerCase();
+      let candidates: string[] = [];
+
+      const isSchemaTemplate = ref.type === 'ref/resource' && ref.uri === SCHEMA_URI_TEMPLATE;
+      const promptArg = ref.type === 'ref/prompt'
+        ? getPromptTemplate(ref.name)?.arguments.find(a => a.name === argument.name)
+        : undefined;
+
+      if (isSchemaTemplate || promptArg?.kind === 'object') {
+        candidates = await this.getAccessibleObjects(sessionId);
+      } else if (promptArg?.kind === 'field') {
+        const objectType = context?.arguments?.['object'] ?? 'projects';
+        try {
+          const metadata = await this.getAccessibleMetadata(sessionId, objectType);
+          candidates = metadata.attributes.map(a => a.apiName);
+        } catch {
+          candidates = [];
+        }
+      }
+
+      const values = candidates.filter(c => c.toLowerCase().startsWith(prefix));
+      return {
+        completion: {
+          values: values.slice(0, 100),
+          total: values.length,
+          hasMore: values.length > 100,
+        },
+      };
+    });
+  }
+
+  // ============================================================================
+  // OBJECT ACCESS
+  // ============================================================================
+
+  private async getAccessibleObjects(sessionId: string): Promise<string[]> {
+    const objects = await this.metadataService.discoverAllObjects();
+    return objects.filter(o => toolRegistry.canAccessObject(sessionId, o));
+  }
+
+  private async getAccessibleMetadata(sessionId: string, objectType: string): Promise<ObjectMetadata> {
+    if (!toolRegistry.canAccessObject(sessionId, objectType)) {
+      throw new McpError(ErrorCode.InvalidParams, `Access denied to object: ${objectType}`);
+    }
+    const metadata = await this.metadataService.getObjectMetadata(objectType);
+    return objectPolicy.filterMetadata(toolRegistry.getEffectivePermissions(sessionId), metadata);
+  }
+
+  // ============================================================================
+  // STDIO TRANSPORT
+  // ============================================================================
+
+  /**
+   * Serve MCP over stdin/stdout for desktop clients
+   */
+  async connectStdio(sessionId: string): Promise<void> {
+    const server = this.createServer(sessionId);
+    const transport = new StdioServerTransport();
+    await server.connect(transport);
+    console.error(`[MCP] stdio server ready (session: ${sessionId})`);
+  }
+
+  // ============================================================================
+  // STREAMABLE HTTP TRANSPORT
+  // ============================================================================
+
+  /**
+   * Handle a POST /mcp request.
+   * Initialize requests open a new MCP session; the Clarity session is taken
+   * from the X-Session-Id header or the sessionId query parameter and must be
+   * an active session.
+   */
+  async handleHttpPost(req: Request, res: Response): Promise<void> {
+    const mcpSessionId = req.headers['mcp-session-id'] as string | undefined;
+
+    if (mcpSessionId) {
+      const transport = await this.activeTransport(mcpSessionId, res);
+      if (transport) await transport.handleRequest(req, res, req.body);
+      return;
+    }
+
+    if (!isInitializeRequest(req.body)) {
+      this.sendJsonRpcError(res, 400, 'No MCP session ID provided');
+      return;
+    }
+
+    const claritySessionId = (req.headers['x-session-id'] as string | undefined)
+      ?? (req.query['sessionId'] as string | undefined);
+    if (!claritySessionId || !sessionManager.getSession(claritySessionId)) {
+      this.sendJsonRpcError(res, 401, 'A valid session is required (X-Session-Id header)');
+      return;
+    }
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        this.httpTransports.set(id, { transport, claritySessionId });
+        console.log(`[MCP] HTTP session ${id} opened (session: ${claritySessionId})`);
+      },
+    });
+
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        this.httpTransports.delete(transport.sessionId);
+        console.log(`[MCP] HTTP session ${transport.sessionId} closed`);
+      }
+    };
+
+    const server = this.createServer(claritySessionId);
+    await server.connect(transport);
+    await transport.handleRequest(req, res, req.body);
+  }
+
+  /**
+   * Handle GET (server-sent events stream) and DELETE (session end) on /mcp
+   */
+  async handleHttpSession(req: Request, res: Response): Promise<void> {
+    const mcpSessionId = req.headers['mcp-session-id'] as string | undefined;
+    if (!mcpSessionId) {
+      this.sendJsonRpcError(res, 400, 'Invalid or missing MCP session ID');
+      return;
+    }
+
+    const transport = await this.activeTransport(mcpSessionId, res);
+    if (transport) await transport.handleRequest(req, res);
+  }
+
+  /**
+   * Transport of an open MCP session whose Clarity session is still active.
+   * A transport that outlived its Clarity session is closed; the error is sent.
+   */
+  private async activeTransport(mcpSessionId: string, res: Response): Promise<StreamableHTTPServerTransport | null> {
+    const entry = this.httpTransports.get(mcpSessionId);
+    if (!entry) {
+      this.sendJsonRpcError(res, 404, 'MCP session not found');
+      return null;
+    }
+
+    if (!sessionManager.getSession(entry.claritySessionId)) {
+      console.log(`[MCP] HTTP session ${mcpSessionId} closed - session ${entry.claritySessionId} expired or ended`);
+      this.httpTransports.delete(mcpSessionId);
+      await entry.transport.close();
+      this.sendJsonRpcError(res, 401, 'The Clarity session expired or ended - start a new MCP session');
+      return null;
+    }
+    return entry.transport;
+  }
+
+  private sendJsonRpcError(res: Response, status: number, message: string): void {
+    res.status(status).json({
+      jsonrpc: '2.0',
+      error: { code: -32000, message },
+      id: null,
+    });
+  }
+}
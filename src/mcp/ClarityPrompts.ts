@@ -0,0 +1,106 @@
+/**
+ * MCP Prompt Templates
+ * Reusable analysis prompts parameterized by discovered Clarity objects.
+ */
+
+import type { ObjectMetadata, AttributeMetadata } from '../types/clarity.js';
+
+export interface PromptArgument {
+  name: string;
+  description: string;
+  required: boolean;
+  // 'object' arguments take a resourceName, 'field' arguments an attribute of that object
+  kind: 'object' | 'field' | 'text';
+  default?: string;
+}
+
+export interface PromptTemplate {
+  name: string;
+  title: string;
+  description: string;
+  arguments: PromptArgument[];
+  // Attach the object's schema resource to the prompt
+  embedSchema?: boolean;
+  build: (input: {
+    metadata: ObjectMetadata;
+    field?: AttributeMetadata;
+    args: Record<string, string>;
+  }) => string;
+}
+
+// ============================================================================
+// PROMPT DEFINITIONS
+// ============================================================================
+
+export const PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    name: 'portfolio_status_review',
+    title: 'Portfolio Status Review',
+    description: 'Review the health of a portfolio by status, with drill-down into problem areas',
+    arguments: [
+      { name: 'object', description: 'Object to review', required: false, kind: 'object', default: 'projects' },
+      { name: 'statusField', description: 'Field holding the status', required: false, kind: 'field', default: 'status' },
+    ],
+    build: ({ metadata, field }) => {
+      const statusField = field?.apiName ?? 'status';
+      const statusName = field?.displayName ?? 'Status';
+      return [
+        `Run a status review of the ${metadata.pluralLabel} (\`${metadata.resourceName}\`) portfolio.`,
+        '',
+        `1. Use count_records with object="${metadata.resourceName}" to get the portfolio size.`,
+        `2. Use create_chart with object="${metadata.resourceName}" and groupBy="${statusField}" to see the ${statusName} distribution.`,
+        `3. Use drill_down on the ${statusName} values that indicate risk or delay and list the affected records.`,
+        '',
+        'Summarize overall health, call out the largest problem groups, and include deep links to the records that need attention.',
+      ].join('\n');
+    },
+  },
+  {
+    name: 'analyze_object_by_field',
+    title: 'Analyze Object by Field',
+    description: 'Chart the distribution of any object by one of its fields and explain the result',
+    arguments: [
+      { name: 'object', description: 'Object to analyze', required: true, kind: 'object' },
+      { name: 'field', description: 'Field to group by', required: true, kind: 'field' },
+    ],
+    build: ({ metadata, field }) => {
+      const target = field!;
+      return [
+        `Analyze ${metadata.pluralLabel} (\`${metadata.resourceName}\`) by ${target.displayName} (\`${target.apiName}\`, ${target.dataType}).`,
+        '',
+        `1. Use create_chart with object="${metadata.resourceName}" and groupBy="${target.apiName}".`,
+        '2. Describe the distribution: dominant values, long tail, and records with no value.',
+        '3. Use drill_down on the largest group and list a few representative records.',
+      ].join('\n');
+    },
+  },
+  {
+    name: 'explain_object_schema',
+    title: 'Explain Object Schema',
+    description: 'Explain what an object stores, which fields matter, and how to query it',
+    arguments: [
+      { name: 'object', description: 'Object to explain', required: true, kind: 'object' },
+    ],
+    embedSchema: true,
+    build: ({ metadata }) => [
+      `Explain the ${metadata.label} object (\`${metadata.resourceName}\`) using the attached schema.`,
+      '',
+      'Cover what the object represents, its required and lookup fields, which fields are good for grouping and filtering,',
+      'and give three example questions a PMO could ask about it.',
+    ].join('\n'),
+  },
+];
+
+export function getPromptTemplate(name: string): PromptTemplate | undefined {
+  return PROMPT_TEMPLATES.find(p => p.name === name);
+}
+
+/**
+ * Find an attribute by apiName or display name
+ */
+export function findAttribute(metadata: ObjectMetadata, nameOrLabel: string): AttributeMetadata | undefined {
+  const lower = nameOrLabel.toLowerCase();
+  return metadata.attributes.find(a =>
+    a.apiName.toLowerCase() === lower || a.displayName.toLowerCase() === lower
+  );
+}
@@ -0,0 +1,104 @@
+/**
+ * Bulk Update
+ * Selects the records a bulk update changes, then applies the same PATCH to
+ * each of them, a few requests at a time.
+ *
+ * - The selection stops at maxRecords; a larger match is reported as over
+ *   the limit rather than read in full
+ * - Each record's current values of the fields being set are kept, for the
+ *   preview and for undo
+ * - Every record gets its own outcome; a failed PATCH does not stop the rest
+ */
+
+import type { ClarityRequester } from '../services/ClarityCallBudget.js';
+import { withFields } from './TableBuilder.js';
+
+export interface BulkTarget {
+  recordId: number;
+  recordName: string;
+  before: Record<string, unknown>;    // Current values of the fields being set
+}
+
+export interface BulkSelection {
+  targets: BulkTarget[];
+  totalCount: number;                 // Matching records
+  overLimit: boolean;                 // More records match than one bulk update may change
+}
+
+export interface BulkOutcome {
+  recordId: number;
+  recordName: string;
+  error?: string;                     // Set when the PATCH failed
+}
+
+export interface BulkProgress {
+  done: number;
+  total: number;
+  failed: number;
+}
+
+/**
+ * Records matching a bulk update's filter, with their current values of `fields`.
+ * `nameFields` are read to label the records (e.g. name, code).
+ */
+export async function selectBulkTargets(
+  client: Pick<ClarityRequester, 'getAll'>,
+  request: { path: string; filterParam?: string; fields: string[]; nameFields: string[]; maxRecords: number }
+): Promise<BulkSelection> {
+  const query = request.filterParam ? `?${request.filterParam}` : '';
+  const endpoint = withFields(`${request.path}${query}`, [...request.nameFields, ...request.fields]);
+  const { records, totalCount } = await client.getAll(endpoint, {
+    pageSize: Math.min(request.maxRecords, 500),
+    maxRecords: request.maxRecords,
+  });
+
+  return {
+    targets: records.map(record => ({
+      recordId: record['_internalId'] as number,
+      recordName: String(request.nameFields.map(field => record[field]).find(value => value) ?? record['_internalId']),
+      before: Object.fromEntries(request.fields.map(field => [field, record[field] ?? null])),
+    })),
+    totalCount,
+    overLimit: totalCount > request.maxRecords,
+  };
+}
+
+/**
+ * PATCH the same values onto each target, `concurrency` requests at a time.
+ * Outcomes come back in target order.
+ */
+export async function applyBulkUpdate(
+  client: Pick<ClarityRequester, 'patch'>,
+  objectType: string,
+  targets: Array<Pick<BulkTarget, 'recordId' | 'recordName'>>,
+  values: Record<string, unknown>,
+  options: { concurrency: number; onProgress?: (progress: BulkProgress) => void }
+): Promise<BulkOutcome[]> {
+  const outcomes: BulkOutcome[] = new Array(targets.length);
+  const progress: BulkProgress = { done: 0, total: targets.length, failed: 0 };
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < targets.length) {
+      const index = next++;
+      const target = targets[index]!;
+      try {
+        await client.patch(`/${objectType}/${target.recordId}`, values);
+        outcomes[index] = { recordId: target.recordId, recordName: target.recordName };
+      } catch (error) {
+        progress.failed++;
+        outcomes[index] = {
+          recordId: target.recordId,
+          recordName: target.recordName,
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+      progress.done++;
+      options.onProgress?.({ ...progress });
+    }
+  };
+
+  const workers = Math.max(1, Math.min(options.concurrency, targets.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  return outcomes;
+}
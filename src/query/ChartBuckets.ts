@@ -0,0 +1,236 @@
+/**
+ * Chart Buckets
+ * Groups records by a field into chart buckets, keeping the lookup code
+ * behind each label so drill-downs can filter by code. Buckets either count
+ * records or aggregate a numeric measure (sum, avg, min, max).
+ */
+
+import type { ChartBucket, ChartMeasure, AggregateFunction, PivotData } from '../types/context.js';
+import type { AttributeMetadata } from '../types/clarity.js';
+import type { FilterNode } from '../types/filter.js';
+import { MEASURE_DATA_TYPES } from '../constants.js';
+import { filterCompiler } from './FilterCompiler.js';
+
+// Label of the bucket for records where the field is empty
+export const NO_VALUE_LABEL = '(No value)';
+
+export const AGGREGATE_FUNCTIONS: AggregateFunction[] = ['count', 'sum', 'avg', 'min', 'max'];
+
+const AGGREGATE_LABELS: Record<ChartMeasure['aggregate'], string> = {
+  sum: 'Total',
+  avg: 'Average',
+  min: 'Minimum',
+  max: 'Maximum',
+};
+
+interface BucketGroup {
+  bucket: ChartBucket;
+  values: number[];
+}
+
+/**
+ * Count records per value of a field - or aggregate a measure per value -
+ * largest bucket first. Records without a numeric measure value are counted
+ * but left out of the aggregate; a bucket with no values aggregates to 0.
+ */
+export function buildChartBuckets(
+  records: Array<Record<string, unknown>>,
+  field: string,
+  measure?: ChartMeasure
+): ChartBucket[] {
+  const groups = new Map<string, BucketGroup>();
+
+  for (const record of records) {
+    addToGroup(groups, record[field], record, measure);
+  }
+
+  return finishGroups(groups, measure);
+}
+
+/**
+ * Cross-tab of two fields with row, column and grand totals.
+ * Rows and columns are ordered by their totals, largest first.
+ */
+export function buildPivot(
+  records: Array<Record<string, unknown>>,
+  rowField: string,
+  columnField: string,
+  measure?: ChartMeasure
+): Pick<PivotData, 'rows' | 'columns' | 'cells' | 'grandTotal'> {
+  const rowGroups = new Map<string, BucketGroup>();
+  const columnGroups = new Map<string, BucketGroup>();
+  const cellGroups = new Map<string, BucketGroup>();
+  const all: BucketGroup = { bucket: { label: '', value: 0 }, values: [] };
+
+  for (const record of records) {
+    const rowLabel = addToGroup(rowGroups, record[rowField], record, measure);
+    const columnLabel = addToGroup(columnGroups, record[columnField], record, measure);
+    addToGroup(cellGroups, `${rowLabel}\u0000${columnLabel}`, record, measure);
+    addRecord(all, record, measure);
+  }
+
+  const rows = finishGroups(rowGroups, measure);
+  const columns = finishGroups(columnGroups, measure);
+  const cellValues = new Map(
+    finishGroups(cellGroups, measure).map(cell => [cell.label, cell.value])
+  );
+
+  return {
+    rows,
+    columns,
+    cells: rows.map(row =>
+      columns.map(column => cellValues.get(`${row.label}\u0000${column.label}`) ?? 0)
+    ),
+    grandTotal: measure ? aggregate(all.values, measure.aggregate) : all.bucket.value,
+  };
+}
+
+/**
+ * Measure for a chart request. No measure (or "count") means counting records;
+ * a measure without a function is summed. `measureFields` are the object's
+ * numeric fields the session may see.
+ */
+export function resolveMeasure(
+  measureFields: AttributeMetadata[],
+  field?: string,
+  fn?: string
+): { measure?: ChartMeasure } | { error: string } {
+  if (fn !== undefined && !AGGREGATE_FUNCTIONS.includes(fn as AggregateFunction)) {
+    return { error: `Unknown aggregate "${fn}". Use one of: ${AGGREGATE_FUNCTIONS.join(', ')}` };
+  }
+  if (fn === 'count') {
+    return {};
+  }
+  if (!field) {
+    return fn ? { error: `"${fn}" needs a numeric measure field` } : {};
+  }
+
+  const attr = measureFields.find(a =>
+    a.apiName.toLowerCase() === field.toLowerCase() ||
+    a.displayName.toLowerCase() === field.toLowerCase()
+  );
+  if (!attr) {
+    const options = measureFields.map(a => `${a.apiName} (${a.displayName})`).join(', ') || 'none';
+    return { error: `"${field}" is not a numeric field (${MEASURE_DATA_TYPES.join(', ')}). Numeric fields: ${options}` };
+  }
+
+  return {
+    measure: {
+      field: attr.apiName,
+      displayName: attr.displayName,
+      aggregate: (fn ?? 'sum') as ChartMeasure['aggregate'],
+    },
+  };
+}
+
+/**
+ * Chart title for a measure, e.g. "Total Budget"
+ */
+export function describeMeasure(measure: ChartMeasure): string {
+  return `${AGGREGATE_LABELS[measure.aggregate]} ${measure.displayName}`;
+}
+
+export function formatMeasureValue(value: number): string {
+  return value.toLocaleString('en-US', { maximumFractionDigits: 2 });
+}
+
+/**
+ * Add a record to the group for a raw field value; returns the group's label
+ */
+function addToGroup(
+  groups: Map<string, BucketGroup>,
+  raw: unknown,
+  record: Record<string, unknown>,
+  measure?: ChartMeasure
+): string {
+  const label = getValueLabel(raw) || NO_VALUE_LABEL;
+
+  let group = groups.get(label);
+  if (!group) {
+    group = { bucket: { label, value: 0, code: getLookupCode(raw) }, values: [] };
+    groups.set(label, group);
+  }
+
+  addRecord(group, record, measure);
+  return label;
+}
+
+function addRecord(group: BucketGroup, record: Record<string, unknown>, measure?: ChartMeasure): void {
+  group.bucket.value++;
+  if (measure) {
+    const value = toNumber(record[measure.field]);
+    if (value !== null) group.values.push(value);
+  }
+}
+
+function finishGroups(groups: Map<string, BucketGroup>, measure?: ChartMeasure): ChartBucket[] {
+  return Array.from(groups.values())
+    .map(({ bucket, values }) => measure
+      ? { ...bucket, value: aggregate(values, measure.aggregate), count: bucket.value }
+      : { ...bucket })
+    .sort((a, b) => b.value - a.value);
+}
+
+function aggregate(values: number[], fn: ChartMeasure['aggregate']): number {
+  if (values.length === 0) return 0;
+
+  let result: number;
+  switch (fn) {
+    case 'sum':
+      result = values.reduce((total, value) => total + value, 0);
+      break;
+    case 'avg':
+      result = values.reduce((total, value) => total + value, 0) / values.length;
+      break;
+    case 'min':
+      result = values.reduce((min, value) => Math.min(min, value));
+      break;
+    case 'max':
+      result = values.reduce((max, value) => Math.max(max, value));
+      break;
+  }
+
+  // Drop floating point noise from money sums
+  return Math.round(result * 100) / 100;
+}
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string' && value.trim() !== '' && !Number.isNaN(Number(value))) return Number(value);
+  return null;
+}
+
+/**
+ * Filter for the records behind a bucket: lookups by code, time buckets by
+ * their date range, the "(No value)" bucket as an empty field
+ */
+export function bucketFilter(
+  field: string,
+  label: string,
+  code?: string,
+  range?: { from: string; to: string }
+): FilterNode {
+  if (label === NO_VALUE_LABEL) return { op: 'isNull', field };
+  if (range) return { op: 'between', field, from: range.from, to: range.to };
+  return filterCompiler.equals(field, code ?? label);
+}
+
+/**
+ * Code of a lookup value as Clarity returns it ({ id, displayValue })
+ */
+export function getLookupCode(value: unknown): string | undefined {
+  if (typeof value !== 'object' || value === null) return undefined;
+
+  const obj = value as Record<string, unknown>;
+  const code = obj['id'] ?? obj['code'];
+  return typeof code === 'string' || typeof code === 'number' ? String(code) : undefined;
+}
+
+function getValueLabel(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') {
+    const obj = value as Record<string, unknown>;
+    return (obj['displayValue'] as string) ?? (obj['code'] as string) ?? JSON.stringify(value);
+  }
+  return String(value);
+}
@@ -0,0 +1,518 @@
+/**
+ * Chart Renderer
+ * Draws a chart payload as a standalone SVG image, for clients that don't
+ * have the extension's widget (MCP clients, exports, email reports):
+ *
+ * - bar, horizontal-bar, stacked-bar, line, pie and doughnut
+ * - pivots draw one series per column (grouped, stacked, or one line each)
+ * - right-to-left layout when the labels are mostly Hebrew: the value axis,
+ *   category order and legend are mirrored
+ */
+
+import type { ChartData, ChartType } from '../types/context.js';
+import { describeMeasure, formatMeasureValue } from './ChartBuckets.js';
+
+export const CHART_TYPES: ChartType[] = ['bar', 'horizontal-bar', 'stacked-bar', 'line', 'pie', 'doughnut'];
+
+export interface ChartRenderOptions {
+  type?: ChartType;      // Defaults to the chart's own type
+  title?: string;
+  width?: number;
+  height?: number;
+  rtl?: boolean;         // Defaults to right-to-left when most labels are Hebrew
+}
+
+// Same palette as the extension's widget
+const COLORS = [
+  '#667eea', '#764ba2', '#34d399', '#fb923c', '#ef4444',
+  '#3b82f6', '#a855f7', '#ec4899', '#14b8a6', '#f59e0b',
+];
+
+const FONT_FAMILY = 'Arial, Helvetica, sans-serif';
+const FONT_SIZE = 12;
+const TEXT_COLOR = '#333';
+const MUTED_COLOR = '#666';
+const GRID_COLOR = '#e5e7eb';
+
+// Pies merge the smallest slices into "Other" beyond this many
+const MAX_SLICES = 12;
+
+interface Series {
+  name: string;
+  values: number[];
+}
+
+interface ChartSeries {
+  categories: string[];
+  series: Series[];
+}
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Drawing area; in right-to-left charts horizontal positions are mirrored
+interface Canvas {
+  width: number;
+  height: number;
+  rtl: boolean;
+}
+
+/**
+ * SVG document for a chart
+ */
+export function renderChartSvg(chart: ChartData, options: ChartRenderOptions = {}): string {
+  const width = clamp(Math.round(options.width ?? 800), 200, 2000);
+  const height = clamp(Math.round(options.height ?? 500), 150, 2000);
+  const type = options.type ?? chart.chartType ?? (chart.pivot ? 'stacked-bar' : 'bar');
+  const round = type === 'pie' || type === 'doughnut';
+
+  const data = round ? pieSeries(chart) : chartSeries(chart);
+  const title = options.title?.trim();
+  const rtl = options.rtl ?? isMostlyHebrew([title ?? '', ...data.categories, ...data.series.map(s => s.name)]);
+  const canvas: Canvas = { width, height, rtl };
+
+  const parts: string[] = [`<rect width="${width}" height="${height}" fill="#fff"/>`];
+  let top = 12;
+  if (title) {
+    parts.push(text(canvas, width / 2, 28, fit(title, width - 24, 16), 'center', { size: 16, bold: true }));
+    top = 44;
+  }
+
+  const area: Box = { x: 16, y: top, width: width - 32, height: height - top - 12 };
+  const empty = data.categories.length === 0 || data.series.every(s => s.values.every(v => v === 0));
+
+  if (empty) {
+    parts.push(text(canvas, width / 2, area.y + area.height / 2, 'No data', 'center', { color: MUTED_COLOR }));
+  } else if (round) {
+    parts.push(drawPie(canvas, area, data, type === 'doughnut'));
+  } else {
+    if (data.series.length > 1) {
+      const legend = drawLegend(canvas, area, data.series.map(s => s.name));
+      parts.push(legend.svg);
+      area.y += legend.height;
+      area.height -= legend.height;
+    }
+    parts.push(
+      type === 'horizontal-bar' ? drawHorizontalBars(canvas, area, data)
+        : type === 'line' ? drawLines(canvas, area, data)
+          : drawBars(canvas, area, data, type === 'stacked-bar')
+    );
+  }
+
+  const direction = rtl ? ' direction="rtl"' : '';
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" ` +
+    `font-family="${FONT_FAMILY}" font-size="${FONT_SIZE}"${direction}>${parts.join('')}</svg>`;
+}
+
+// ============================================================================
+// DATA
+// ============================================================================
+
+// Categories and series of a bar or line chart; pivots give one series per column
+function chartSeries(chart: ChartData): ChartSeries {
+  const pivot = chart.pivot;
+  if (pivot) {
+    return {
+      categories: pivot.rows.map(row => row.label),
+      series: pivot.columns.map((column, c) => ({
+        name: column.label,
+        values: pivot.rows.map((_, r) => pivot.cells[r]?.[c] ?? 0),
+      })),
+    };
+  }
+
+  const field = chart.groupByField ?? chart.groupableFields[0];
+  const buckets = (field && chart.chartData[field]) || [];
+  return {
+    categories: buckets.map(bucket => bucket.label),
+    series: [{
+      name: chart.measure ? describeMeasure(chart.measure) : 'Count',
+      values: buckets.map(bucket => bucket.value),
+    }],
+  };
+}
+
+// Slices of a pie: pivot rows count as a whole; negative values are left out
+function pieSeries(chart: ChartData): ChartSeries {
+  const { categories, series } = chart.pivot
+    ? { categories: chart.pivot.rows.map(row => row.label), series: [{ name: '', values: chart.pivot.rows.map(row => row.value) }] }
+    : chartSeries(chart);
+
+  const slices = categories
+    .map((label, i) => ({ label, value: series[0]?.values[i] ?? 0 }))
+    .filter(slice => slice.value > 0)
+    .sort((a, b) => b.value - a.value);
+
+  if (slices.length > MAX_SLICES) {
+    const rest = slices.splice(MAX_SLICES - 1);
+    slices.push({ label: 'Other', value: rest.reduce((sum, slice) => sum + slice.value, 0) });
+  }
+
+  return {
+    categories: slices.map(slice => slice.label),
+    series: [{ name: series[0]?.name ?? '', values: slices.map(slice => slice.value) }],
+  };
+}
+
+// ============================================================================
+// CHARTS
+// ============================================================================
+
+function drawBars(canvas: Canvas, area: Box, data: ChartSeries, stacked: boolean): string {
+  const parts: string[] = [];
+  const count = data.categories.length;
+  const [min, max] = stacked ? stackedExtent(data) : extent(data);
+  const ticks = niceTicks(min, max);
+  const axisWidth = Math.max(...ticks.map(t => textWidth(formatTick(t)))) + 10;
+
+  // Category labels slant when they don't fit their slot
+  const slot = (area.width - axisWidth) / count;
+  const longest = Math.max(...data.categories.map(c => textWidth(c)));
+  const slanted = longest > slot - 4;
+  const labelHeight = slanted ? Math.min(110, longest * 0.7 + 12) : 22;
+
+  const plot: Box = { x: area.x + axisWidth, y: area.y + 6, width: area.width - axisWidth, height: area.height - labelHeight - 6 };
+  const scale = linear(ticks[0]!, ticks[ticks.length - 1]!, plot.y + plot.height, plot.y);
+  parts.push(valueGrid(canvas, plot, ticks, scale));
+
+  const groupWidth = slot * 0.7;
+  const barWidth = stacked ? groupWidth : groupWidth / data.series.length;
+  const baseline = scale(0);
+
+  data.categories.forEach((category, i) => {
+    const groupX = plot.x + slot * i + (slot - groupWidth) / 2;
+    let positive = 0;
+    let negative = 0;
+
+    data.series.forEach((series, s) => {
+      const value = series.values[i] ?? 0;
+      let from = 0;
+      if (stacked) {
+        from = value >= 0 ? positive : negative;
+        if (value >= 0) positive += value; else negative += value;
+      }
+      const y1 = scale(from);
+      const y2 = scale(from + value);
+      const x = stacked ? groupX : groupX + barWidth * s;
+      parts.push(rect(canvas, { x, y: Math.min(y1, y2), width: Math.max(barWidth - 1, 1), height: Math.abs(y2 - y1) }, color(s),
+        `${category} - ${series.name}: ${formatMeasureValue(value)}`));
+    });
+
+    parts.push(categoryLabel(canvas, plot.x + slot * i + slot / 2, plot.y + plot.height + 14, category, slot, slanted));
+  });
+
+  parts.push(line(canvas, plot.x, baseline, plot.x + plot.width, baseline, '#999'));
+  return parts.join('');
+}
+
+function drawHorizontalBars(canvas: Canvas, area: Box, data: ChartSeries): string {
+  const parts: string[] = [];
+  const count = data.categories.length;
+  const [min, max] = extent(data);
+  const ticks = niceTicks(min, max);
+
+  const labelWidth = Math.min(area.width * 0.35, Math.max(...data.categories.map(c => textWidth(c))) + 10);
+  const plot: Box = { x: area.x + labelWidth, y: area.y + 4, width: area.width - labelWidth - 8, height: area.height - 26 };
+  const scale = linear(ticks[0]!, ticks[ticks.length - 1]!, plot.x, plot.x + plot.width);
+
+  // Vertical grid lines with values under the plot
+  for (const tick of ticks) {
+    const x = scale(tick);
+    parts.push(line(canvas, x, plot.y, x, plot.y + plot.height, GRID_COLOR));
+    parts.push(text(canvas, x, plot.y + plot.height + 16, formatTick(tick), 'center', { color: MUTED_COLOR, size: 11 }));
+  }
+
+  const slot = plot.height / count;
+  const groupHeight = slot * 0.7;
+  const barHeight = groupHeight / data.series.length;
+
+  data.categories.forEach((category, i) => {
+    const groupY = plot.y + slot * i + (slot - groupHeight) / 2;
+    data.series.forEach((series, s) => {
+      const value = series.values[i] ?? 0;
+      const x1 = scale(0);
+      const x2 = scale(value);
+      parts.push(rect(canvas, { x: Math.min(x1, x2), y: groupY + barHeight * s, width: Math.abs(x2 - x1), height: Math.max(barHeight - 1, 1) },
+        color(s), `${category} - ${series.name}: ${formatMeasureValue(value)}`));
+    });
+
+    const labelY = plot.y + slot * i + slot / 2 + 4;
+    parts.push(text(canvas, plot.x - 6, labelY, fit(category, labelWidth - 10), 'right'));
+  });
+
+  parts.push(line(canvas, scale(0), plot.y, scale(0), plot.y + plot.height, '#999'));
+  return parts.join('');
+}
+
+function drawLines(canvas: Canvas, area: Box, data: ChartSeries): string {
+  const parts: string[] = [];
+  const count = data.categories.length;
+  const ticks = niceTicks(...extent(data));
+  const axisWidth = Math.max(...ticks.map(t => textWidth(formatTick(t)))) + 10;
+
+  const plot: Box = { x: area.x + axisWidth, y: area.y + 6, width: area.width - axisWidth - 8, height: area.height - 28 };
+  const scale = linear(ticks[0]!, ticks[ticks.length - 1]!, plot.y + plot.height, plot.y);
+  parts.push(valueGrid(canvas, plot, ticks, scale));
+
+  const step = count > 1 ? plot.width / (count - 1) : 0;
+  const xAt = (i: number) => count > 1 ? plot.x + step * i : plot.x + plot.width / 2;
+
+  // Label every n-th period so the labels don't overlap
+  const longest = Math.max(...data.categories.map(c => textWidth(c))) + 8;
+  const every = Math.max(1, Math.ceil(longest / Math.max(step, 1)));
+  data.categories.forEach((category, i) => {
+    if (i % every === 0) {
+      parts.push(text(canvas, xAt(i), plot.y + plot.height + 18, category, 'center', { color: MUTED_COLOR, size: 11 }));
+    }
+  });
+
+  data.series.forEach((series, s) => {
+    const points = series.values.map((value, i) => `${round1(mirror(canvas, xAt(i)))},${round1(scale(value))}`);
+    parts.push(`<polyline points="${points.join(' ')}" fill="none" stroke="${color(s)}" stroke-width="2"/>`);
+    if (count <= 60) {
+      series.values.forEach((value, i) => {
+        parts.push(`<circle cx="${round1(mirror(canvas, xAt(i)))}" cy="${round1(scale(value))}" r="3" fill="${color(s)}">` +
+          `<title>${escapeXml(`${data.categories[i]} - ${series.name}: ${formatMeasureValue(value)}`)}</title></circle>`);
+      });
+    }
+  });
+
+  return parts.join('');
+}
+
+function drawPie(canvas: Canvas, area: Box, data: ChartSeries, doughnut: boolean): string {
+  const parts: string[] = [];
+  const values = data.series[0]!.values;
+  const total = values.reduce((sum, v) => sum + v, 0);
+
+  // Pie on the left, legend on the right (mirrored in right-to-left charts)
+  const legendWidth = Math.min(area.width * 0.45, 280);
+  const radius = Math.max(10, Math.min((area.width - legendWidth - 24) / 2, area.height / 2 - 4));
+  const cx = mirror(canvas, area.x + radius + 4);
+  const cy = area.y + area.height / 2;
+
+  let angle = 0;
+  values.forEach((value, i) => {
+    const sweep = (value / total) * Math.PI * 2;
+    const label = `${data.categories[i]}: ${formatMeasureValue(value)} (${((value / total) * 100).toFixed(1)}%)`;
+    parts.push(slice(cx, cy, radius, angle, angle + sweep, color(i), label));
+    angle += sweep;
+  });
+
+  if (doughnut) {
+    parts.push(`<circle cx="${round1(cx)}" cy="${round1(cy)}" r="${round1(radius * 0.55)}" fill="#fff"/>`);
+    parts.push(`<text x="${round1(cx)}" y="${round1(cy + 6)}" text-anchor="middle" font-size="18" font-weight="bold" fill="${TEXT_COLOR}">${escapeXml(formatTick(total))}</text>`);
+  }
+
+  // Legend: one entry per slice with its share
+  const legendX = area.x + area.width - legendWidth;
+  const rowHeight = 20;
+  const legendTop = cy - (values.length * rowHeight) / 2;
+  values.forEach((value, i) => {
+    const y = legendTop + rowHeight * i;
+    const pct = `${((value / total) * 100).toFixed(1)}%`;
+    parts.push(rect(canvas, { x: legendX, y: y + 3, width: 12, height: 12 }, color(i)));
+    parts.push(text(canvas, legendX + 18, y + 13, fit(`${data.categories[i]} (${pct})`, legendWidth - 20), 'left'));
+  });
+
+  return parts.join('');
+}
+
+// Series names in a row (or several) above the plot
+function drawLegend(canvas: Canvas, area: Box, names: string[]): { svg: string; height: number } {
+  const parts: string[] = [];
+  const rowHeight = 18;
+  let x = area.x;
+  let y = area.y;
+
+  names.forEach((name, i) => {
+    const label = fit(name, 160);
+    const entryWidth = 18 + textWidth(label) + 16;
+    if (x + entryWidth > area.x + area.width && x > area.x) {
+      x = area.x;
+      y += rowHeight;
+    }
+    parts.push(rect(canvas, { x, y: y + 2, width: 12, height: 12 }, color(i)));
+    parts.push(text(canvas, x + 18, y + 12, label, 'left'));
+    x += entryWidth;
+  });
+
+  return { svg: parts.join(''), height: y - area.y + rowHeight + 6 };
+}
+
+// Horizontal grid lines with their values beside the plot
+function valueGrid(canvas: Canvas, plot: Box, ticks: number[], scale: (v: number) => number): string {
+  return ticks.map(tick => {
+    const y = scale(tick);
+    return line(canvas, plot.x, y, plot.x + plot.width, y, GRID_COLOR) +
+      text(canvas, plot.x - 6, y + 4, formatTick(tick), 'right', { color: MUTED_COLOR, size: 11 });
+  }).join('');
+}
+
+function categoryLabel(canvas: Canvas, x: number, y: number, label: string, slot: number, slanted: boolean): string {
+  if (!slanted) {
+    return text(canvas, x, y, fit(label, slot - 4), 'center', { color: MUTED_COLOR, size: 11 });
+  }
+  // Slanted down and away from the bar, towards the value axis
+  const px = round1(mirror(canvas, x));
+  const angle = canvas.rtl ? 40 : -40;
+  return text(canvas, x, y, fit(label, 150), 'right', { color: MUTED_COLOR, size: 11, transform: `rotate(${angle} ${px} ${round1(y)})` });
+}
+
+// ============================================================================
+// SVG HELPERS
+// ============================================================================
+
+function mirror(canvas: Canvas, x: number): number {
+  return canvas.rtl ? canvas.width - x : x;
+}
+
+function rect(canvas: Canvas, box: Box, fill: string, tooltip?: string): string {
+  const x = canvas.rtl ? canvas.width - box.x - box.width : box.x;
+  const title = tooltip ? `<title>${escapeXml(tooltip)}</title>` : '';
+  const attrs = `x="${round1(x)}" y="${round1(box.y)}" width="${round1(box.width)}" height="${round1(box.height)}" fill="${fill}"`;
+  return title ? `<rect ${attrs}>${title}</rect>` : `<rect ${attrs}/>`;
+}
+
+function line(canvas: Canvas, x1: number, y1: number, x2: number, y2: number, stroke: string): string {
+  return `<line x1="${round1(mirror(canvas, x1))}" y1="${round1(y1)}" x2="${round1(mirror(canvas, x2))}" y2="${round1(y2)}" stroke="${stroke}" stroke-width="1"/>`;
+}
+
+/**
+ * Text anchored on its left, right or center as laid out left-to-right.
+ * Right-to-left charts mirror the position and the side; with the SVG's
+ * direction set to rtl, "start" is the right edge of the text.
+ */
+function text(
+  canvas: Canvas,
+  x: number,
+  y: number,
+  content: string,
+  side: 'left' | 'right' | 'center',
+  style: { size?: number; bold?: boolean; color?: string; transform?: string } = {}
+): string {
+  const mirrored = canvas.rtl && side !== 'center' ? (side === 'left' ? 'right' : 'left') : side;
+  const anchor = mirrored === 'center' ? 'middle'
+    : (mirrored === 'left') !== canvas.rtl ? 'start' : 'end';
+  const attrs = [
+    `x="${round1(mirror(canvas, x))}"`,
+    `y="${round1(y)}"`,
+    `text-anchor="${anchor}"`,
+    `fill="${style.color ?? TEXT_COLOR}"`,
+    ...(style.size ? [`font-size="${style.size}"`] : []),
+    ...(style.bold ? ['font-weight="bold"'] : []),
+    ...(style.transform ? [`transform="${style.transform}"`] : []),
+  ];
+  return `<text ${attrs.join(' ')}>${escapeXml(content)}</text>`;
+}
+
+// Pie slice from angle a0 to a1 (radians, clockwise from 12 o'clock)
+function slice(cx: number, cy: number, r: number, a0: number, a1: number, fill: string, tooltip: string): string {
+  const title = `<title>${escapeXml(tooltip)}</title>`;
+  if (a1 - a0 >= Math.PI * 2 - 1e-9) {
+    return `<circle cx="${round1(cx)}" cy="${round1(cy)}" r="${round1(r)}" fill="${fill}">${title}</circle>`;
+  }
+  const point = (a: number) => `${round1(cx + r * Math.sin(a))},${round1(cy - r * Math.cos(a))}`;
+  const large = a1 - a0 > Math.PI ? 1 : 0;
+  return `<path d="M${round1(cx)},${round1(cy)} L${point(a0)} A${round1(r)},${round1(r)} 0 ${large} 1 ${point(a1)} Z" ` +
+    `fill="${fill}" stroke="#fff" stroke-width="1">${title}</path>`;
+}
+
+function color(index: number): string {
+  return COLORS[index % COLORS.length]!;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// ============================================================================
+// SCALES AND TEXT
+// ============================================================================
+
+function extent(data: ChartSeries): [number, number] {
+  const values = data.series.flatMap(s => s.values);
+  return [Math.min(0, ...values), Math.max(0, ...values)];
+}
+
+function stackedExtent(data: ChartSeries): [number, number] {
+  let min = 0;
+  let max = 0;
+  data.categories.forEach((_, i) => {
+    let positive = 0;
+    let negative = 0;
+    for (const series of data.series) {
+      const value = series.values[i] ?? 0;
+      if (value >= 0) positive += value; else negative += value;
+    }
+    max = Math.max(max, positive);
+    min = Math.min(min, negative);
+  });
+  return [min, max];
+}
+
+// About five round tick values covering min..max (always including 0)
+function niceTicks(min: number, max: number): number[] {
+  if (min === max) max = min + 1;
+  const rough = (max - min) / 5;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rough)));
+  const step = [1, 2, 2.5, 5, 10].map(f => f * magnitude).find(s => s >= rough) ?? magnitude * 10;
+
+  const first = Math.floor(min / step);
+  const last = Math.ceil(max / step);
+  const ticks: number[] = [];
+  for (let n = first; n <= last; n++) {
+    ticks.push(n * step);
+  }
+  return ticks;
+}
+
+function linear(d0: number, d1: number, r0: number, r1: number): (value: number) => number {
+  return value => r0 + ((value - d0) / (d1 - d0)) * (r1 - r0);
+}
+
+// Axis values: 1,500 / 12K / 3.4M
+function formatTick(value: number): string {
+  const abs = Math.abs(value);
+  if (abs >= 1e9) return `${+(value / 1e9).toFixed(1)}B`;
+  if (abs >= 1e6) return `${+(value / 1e6).toFixed(1)}M`;
+  if (abs >= 1e4) return `${+(value / 1e3).toFixed(1)}K`;
+  return formatMeasureValue(value);
+}
+
+// Estimated width: fonts are not available to measure text
+function textWidth(text: string, size = FONT_SIZE): number {
+  return text.length * size * 0.55;
+}
+
+function fit(text: string, maxWidth: number, size = FONT_SIZE): string {
+  const maxChars = Math.max(1, Math.floor(maxWidth / (size * 0.55)));
+  return text.length <= maxChars ? text : `${text.slice(0, Math.max(1, maxChars - 1)).trimEnd()}…`;
+}
+
+function isMostlyHebrew(texts: string[]): boolean {
+  let hebrew = 0;
+  let latin = 0;
+  for (const text of texts) {
+    hebrew += (text.match(/[\u0590-\u05FF]/g) ?? []).length;
+    latin += (text.match(/[A-Za-z]/g) ?? []).length;
+  }
+  return hebrew > latin;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : min;
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
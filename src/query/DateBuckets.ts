@@ -0,0 +1,144 @@
+/**
+ * Date Buckets
+ * Groups records by a date field into day / week / month / quarter / year
+ * buckets and returns them as a time-ordered series, with empty periods
+ * filled in so line charts have no gaps. Each bucket carries its date range
+ * so a drill-down can filter on it.
+ */
+
+import type { ChartBucket, ChartMeasure, DateInterval } from '../types/context.js';
+import { MAX_DATE_BUCKETS } from '../constants.js';
+import { buildChartBuckets } from './ChartBuckets.js';
+
+export const DATE_INTERVALS: DateInterval[] = ['day', 'week', 'month', 'quarter', 'year'];
+
+export interface DateSeries {
+  buckets: ChartBucket[];
+  undated: number;   // Records with no usable date (left out of the series)
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_PREFIX = /^(\d{4})-(\d{2})-(\d{2})/;
+
+/**
+ * Time series of a date field. Records are counted per period, or the measure
+ * is aggregated per period; periods between the first and last date that have
+ * no records get a zero bucket.
+ */
+export function buildDateSeries(
+  records: Array<Record<string, unknown>>,
+  field: string,
+  interval: DateInterval,
+  measure?: ChartMeasure
+): DateSeries | { error: string } {
+  // Re-key every record by the start of its period, then group as usual
+  let undated = 0;
+  const keyed: Array<Record<string, unknown>> = [];
+  for (const record of records) {
+    const date = parseDate(record[field]);
+    if (!date) {
+      undated++;
+      continue;
+    }
+    keyed.push({ ...record, [field]: toIsoDate(periodStart(date, interval)) });
+  }
+
+  if (keyed.length === 0) {
+    return { buckets: [], undated };
+  }
+
+  const grouped = new Map(buildChartBuckets(keyed, field, measure).map(bucket => [bucket.label, bucket]));
+  const starts = Array.from(grouped.keys()).sort();
+  const first = parseDate(starts[0])!;
+  const last = parseDate(starts[starts.length - 1])!;
+
+  const buckets: ChartBucket[] = [];
+  for (let start = first; start <= last; start = nextPeriod(start, interval)) {
+    if (buckets.length >= MAX_DATE_BUCKETS) {
+      return { error: `More than ${MAX_DATE_BUCKETS} ${interval} buckets - use a longer interval` };
+    }
+
+    const from = toIsoDate(start);
+    const bucket = grouped.get(from);
+    buckets.push({
+      label: periodLabel(start, interval),
+      value: bucket?.value ?? 0,
+      ...(measure && { count: bucket?.count ?? 0 }),
+      from,
+      to: toIsoDate(new Date(nextPeriod(start, interval).getTime() - DAY_MS)),
+    });
+  }
+
+  return { buckets, undated };
+}
+
+/**
+ * Calendar date of a Clarity date value ("2024-03-15" or "2024-03-15T08:00:00"), as UTC midnight
+ */
+export function parseDate(value: unknown): Date | null {
+  if (typeof value !== 'string') return null;
+
+  const match = DATE_PREFIX.exec(value);
+  if (!match) return null;
+
+  const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function periodStart(date: Date, interval: DateInterval): Date {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+
+  switch (interval) {
+    case 'day':
+      return date;
+    case 'week':
+      // ISO weeks start on Monday
+      return new Date(date.getTime() - ((date.getUTCDay() + 6) % 7) * DAY_MS);
+    case 'month':
+      return new Date(Date.UTC(year, month, 1));
+    case 'quarter':
+      return new Date(Date.UTC(year, month - (month % 3), 1));
+    case 'year':
+      return new Date(Date.UTC(year, 0, 1));
+  }
+}
+
+function nextPeriod(start: Date, interval: DateInterval): Date {
+  const year = start.getUTCFullYear();
+  const month = start.getUTCMonth();
+
+  switch (interval) {
+    case 'day':
+      return new Date(start.getTime() + DAY_MS);
+    case 'week':
+      return new Date(start.getTime() + 7 * DAY_MS);
+    case 'month':
+      return new Date(Date.UTC(year, month + 1, 1));
+    case 'quarter':
+      return new Date(Date.UTC(year, month + 3, 1));
+    case 'year':
+      return new Date(Date.UTC(year + 1, 0, 1));
+  }
+}
+
+function periodLabel(start: Date, interval: DateInterval): string {
+  const iso = toIsoDate(start);
+
+  switch (interval) {
+    case 'day':
+      return iso;
+    case 'week':
+      return `Week of ${iso}`;
+    case 'month':
+      return iso.slice(0, 7);
+    case 'quarter':
+      return `${start.getUTCFullYear()}-Q${Math.floor(start.getUTCMonth() / 3) + 1}`;
+    case 'year':
+      return String(start.getUTCFullYear());
+  }
+}
+
+function toIsoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
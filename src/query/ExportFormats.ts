@@ -0,0 +1,220 @@
+/**
+ * Export Formats
+ * Renders a table as a downloadable file. Every format is headed by the
+ * columns' display names:
+ *
+ * - csv:  UTF-8 with a byte order mark, so Excel reads Hebrew text correctly
+ * - xlsx: a single-sheet workbook; numbers and booleans keep their cell type
+ * - json: an array of objects keyed by display name
+ */
+
+import { deflateRawSync } from 'node:zlib';
+import type { TableBlock, TableCell } from '../types/context.js';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'xlsx', 'json'];
+
+export interface ExportFile {
+  filename: string;
+  contentType: string;
+  body: Buffer;
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  json: 'application/json; charset=utf-8',
+};
+
+/**
+ * File for a table. `name` becomes the file name (and the sheet name in xlsx).
+ */
+export function renderExport(table: TableBlock, format: ExportFormat, name: string): ExportFile {
+  const base = name.replace(/[\\/:*?"<>|]+/g, '_').trim() || 'export';
+  const body = format === 'csv' ? toCsv(table) : format === 'xlsx' ? toXlsx(table, base) : toJson(table);
+  return { filename: `${base}.${format}`, contentType: CONTENT_TYPES[format], body };
+}
+
+// ============================================================================
+// CSV / JSON
+// ============================================================================
+
+function toCsv(table: TableBlock): Buffer {
+  const line = (values: string[]) => values.map(csvValue).join(',');
+  const lines = [
+    line(table.columns.map(c => c.displayName)),
+    ...table.rows.map(row => line(row.cells.map(cellText))),
+  ];
+  return Buffer.from('\uFEFF' + lines.join('\r\n') + '\r\n', 'utf8');
+}
+
+function csvValue(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function toJson(table: TableBlock): Buffer {
+  const rows = table.rows.map(row =>
+    Object.fromEntries(table.columns.map((column, c) => [column.displayName, row.cells[c] ?? null]))
+  );
+  return Buffer.from(JSON.stringify(rows, null, 2), 'utf8');
+}
+
+function cellText(cell: TableCell | undefined): string {
+  return cell === null || cell === undefined ? '' : String(cell);
+}
+
+// ============================================================================
+// XLSX
+// ============================================================================
+
+function toXlsx(table: TableBlock, name: string): Buffer {
+  // Sheet names are limited to 31 characters and may not contain []:*?/\
+  const sheetName = name.replace(/[[\]:*?/\\]/g, '_').slice(0, 31);
+
+  const header = `<row r="1">${table.columns.map((c, i) => inlineString(cellRef(i, 1), c.displayName)).join('')}</row>`;
+  const rows = table.rows.map((row, r) => {
+    const cells = row.cells.map((cell, c) => xlsxCell(cellRef(c, r + 2), cell)).join('');
+    return `<row r="${r + 2}">${cells}</row>`;
+  });
+
+  return zip([
+    {
+      name: '[Content_Types].xml',
+      data: xml(`<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+        `<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>` +
+        `<Default Extension="xml" ContentType="application/xml"/>` +
+        `<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>` +
+        `<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>` +
+        `</Types>`),
+    },
+    {
+      name: '_rels/.rels',
+      data: xml(`<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+        `<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>` +
+        `</Relationships>`),
+    },
+    {
+      name: 'xl/workbook.xml',
+      data: xml(`<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">` +
+        `<sheets><sheet name="${escapeXml(sheetName)}" sheetId="1" r:id="rId1"/></sheets>` +
+        `</workbook>`),
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      data: xml(`<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+        `<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>` +
+        `</Relationships>`),
+    },
+    {
+      name: 'xl/worksheets/sheet1.xml',
+      data: xml(`<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">` +
+        `<sheetData>${header}${rows.join('')}</sheetData>` +
+        `</worksheet>`),
+    },
+  ]);
+}
+
+function xlsxCell(ref: string, cell: TableCell | undefined): string {
+  if (cell === null || cell === undefined) return '';
+  if (typeof cell === 'number') return `<c r="${ref}"><v>${cell}</v></c>`;
+  if (typeof cell === 'boolean') return `<c r="${ref}" t="b"><v>${cell ? 1 : 0}</v></c>`;
+  return inlineString(ref, cell);
+}
+
+function inlineString(ref: string, text: string): string {
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(text)}</t></is></c>`;
+}
+
+// Column letters (A, B, ..., Z, AA, ...) and row number
+function cellRef(column: number, row: number): string {
+  let letters = '';
+  for (let n = column + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return `${letters}${row}`;
+}
+
+function xml(body: string): Buffer {
+  return Buffer.from(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n${body}`, 'utf8');
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// ============================================================================
+// ZIP (deflated entries, no zip64 - exports stay far below 4 GB)
+// ============================================================================
+
+function zip(entries: Array<{ name: string; data: Buffer }>): Buffer {
+  const parts: Buffer[] = [];
+  const directory: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf8');
+    const compressed = deflateRawSync(entry.data);
+    const crc = crc32(entry.data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);     // Local file header signature
+    local.writeUInt16LE(20, 4);             // Version needed
+    local.writeUInt16LE(0x0800, 6);         // UTF-8 names
+    local.writeUInt16LE(8, 8);              // Deflate
+    local.writeUInt32LE(0x00210000, 10);    // Time and date (1980-01-01 00:00)
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(entry.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);             // Extra field length
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);   // Central directory header signature
+    central.writeUInt16LE(20, 4);           // Version made by
+    central.writeUInt16LE(20, 6);           // Version needed
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(0x00210000, 12);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(entry.data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);      // Offset of the local header (other fields stay 0)
+
+    parts.push(local, name, compressed);
+    directory.push(central, name);
+    offset += local.length + name.length + compressed.length;
+  }
+
+  const directorySize = directory.reduce((size, part) => size + part.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);         // End of central directory signature
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directorySize, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...parts, ...directory, end]);
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff]! ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
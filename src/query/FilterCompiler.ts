@@ -0,0 +1,400 @@
+/**
+ * Filter Compiler
+ * Validates typed filter expressions against object metadata and compiles
+ * them to Clarity REST filter syntax with proper quoting.
+ *
+ *   { op: 'and', filters: [
+ *     { op: '=', field: 'status', value: 'ACTIVE' },
+ *     { op: 'between', field: 'finishDate', from: '2024-01-01', to: '2024-03-31' },
+ *   ] }
+ *   → ((status = 'ACTIVE') and ((finishDate >= '2024-01-01T00:00:00') and (finishDate <= '2024-03-31T23:59:59')))
+ */
+
+import type { ObjectMetadata, AttributeMetadata } from '../types/clarity.js';
+import {
+  FILTER_OPERATORS,
+  type ComparisonOperator,
+  type FieldFilter,
+  type FilterNode,
+  type FilterOperator,
+  type FilterValue,
+} from '../types/filter.js';
+
+export class FilterValidationError extends Error {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid filter: ${issues.join('; ')}`);
+    this.name = 'FilterValidationError';
+    this.issues = issues;
+  }
+}
+
+// 'any' is used when there is no metadata to check against
+type FieldKind = 'string' | 'number' | 'date' | 'boolean' | 'lookup' | 'any';
+
+interface ResolvedField {
+  apiName: string;
+  kind: FieldKind;
+}
+
+const NUMBER_TYPES = ['NUMBER', 'INTEGER', 'DECIMAL', 'DOUBLE', 'FLOAT', 'MONEY', 'CURRENCY', 'PERCENT'];
+const DATE_TYPES = ['DATE', 'DATETIME', 'TIMESTAMP'];
+
+const FIELD_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+const ORDERING_OPERATORS: FilterOperator[] = ['>', '<', '>=', '<='];
+
+// Opposite of each comparison, used to push `not` down to the leaves
+const NEGATED: Record<ComparisonOperator, ComparisonOperator> = {
+  '=': '!=',
+  '!=': '=',
+  '>': '<=',
+  '<': '>=',
+  '>=': '<',
+  '<=': '>',
+};
+
+/**
+ * JSON Schema for filter tool parameters. Nested filters are validated by FilterCompiler.
+ */
+export const FILTER_INPUT_SCHEMA: Record<string, unknown> = {
+  type: 'object',
+  properties: {
+    op: { type: 'string', enum: FILTER_OPERATORS },
+    field: { type: 'string', description: 'Field apiName' },
+    value: { type: ['string', 'number', 'boolean'] },
+    values: { type: 'array', items: { type: ['string', 'number', 'boolean'] }, description: 'For in / notIn' },
+    from: { type: ['string', 'number'], description: 'For between (inclusive), dates as YYYY-MM-DD' },
+    to: { type: ['string', 'number'], description: 'For between (inclusive), dates as YYYY-MM-DD' },
+    filters: { type: 'array', items: { type: 'object' }, description: 'Child filters for and / or' },
+    filter: { type: 'object', description: 'Child filter for not' },
+  },
+  required: ['op'],
+};
+
+// ============================================================================
+// FILTER COMPILER
+// ============================================================================
+
+export class FilterCompiler {
+  /**
+   * Problems with a filter (empty when valid). With metadata, every field must
+   * exist on the object and every value must suit the field's type.
+   */
+  validate(filter: unknown, metadata?: ObjectMetadata): string[] {
+    const issues: string[] = [];
+    this.check(filter, metadata, false, issues);
+    return issues;
+  }
+
+  /**
+   * Compile to Clarity syntax, e.g. ((status = 'ACTIVE') and (priority > 2)).
+   * Throws FilterValidationError when the filter is invalid.
+   */
+  compile(filter: FilterNode, metadata?: ObjectMetadata): string {
+    const issues = this.validate(filter, metadata);
+    if (issues.length > 0) {
+      throw new FilterValidationError(issues);
+    }
+
+    const expression = this.emit(filter, metadata, false);
+    return expression.startsWith('((') ? expression : `(${expression})`;
+  }
+
+  /**
+   * URL-encoded `filter=` query parameter
+   */
+  toQueryParam(filter: FilterNode, metadata?: ObjectMetadata): string {
+    return `filter=${encodeURIComponent(this.compile(filter, metadata))}`;
+  }
+
+  /**
+   * Copy of a filter with values on lookup fields turned into lookup codes,
+   * since Clarity filters lookups by code. Values that do not resolve are kept.
+   * Throws FilterValidationError when the filter is invalid.
+   */
+  async resolveLookups(
+    filter: FilterNode,
+    metadata: ObjectMetadata,
+    resolve: (lookupType: string, value: string) => Promise<string | null>
+  ): Promise<FilterNode> {
+    const issues = this.validate(filter, metadata);
+    if (issues.length > 0) {
+      throw new FilterValidationError(issues);
+    }
+
+    return this.resolveNode(filter, metadata, resolve);
+  }
+
+  equals(field: string, value: FilterValue): FilterNode {
+    return { op: '=', field, value };
+  }
+
+  anyOf(filters: FilterNode[]): FilterNode {
+    return { op: 'or', filters };
+  }
+
+  // ============================================================================
+  // VALIDATION
+  // ============================================================================
+
+  private check(node: unknown, metadata: ObjectMetadata | undefined, negated: boolean, issues: string[]): void {
+    if (typeof node !== 'object' || node === null || Array.isArray(node)) {
+      issues.push('Each filter must be an object with an "op"');
+      return;
+    }
+
+    const n = node as Record<string, unknown>;
+    const op = n['op'];
+    if (typeof op !== 'string' || !FILTER_OPERATORS.includes(op as FilterOperator)) {
+      issues.push(`Unknown operator "${String(op)}" (use ${FILTER_OPERATORS.join(', ')})`);
+      return;
+    }
+
+    if (op === 'and' || op === 'or') {
+      const filters = n['filters'];
+      if (!Array.isArray(filters) || filters.length === 0) {
+        issues.push(`"${op}" needs a non-empty "filters" list`);
+        return;
+      }
+      for (const child of filters) this.check(child, metadata, negated, issues);
+      return;
+    }
+
+    if (op === 'not') {
+      this.check(n['filter'], metadata, !negated, issues);
+      return;
+    }
+
+    const field = this.resolveField(n['field'], metadata, issues);
+    if (!field) return;
+    const { apiName, kind } = field;
+
+    switch (op) {
+      case 'isNull':
+      case 'isNotNull':
+        return;
+
+      case 'in':
+      case 'notIn': {
+        const values = n['values'];
+        if (!Array.isArray(values) || values.length === 0) {
+          issues.push(`"${op}" on ${apiName} needs a non-empty "values" list`);
+          return;
+        }
+        for (const value of values) this.checkValue(apiName, kind, value, issues);
+        return;
+      }
+
+      case 'contains':
+      case 'startsWith':
+        if (negated) {
+          issues.push(`"${op}" on ${apiName} cannot be negated`);
+        } else if (kind !== 'string' && kind !== 'any') {
+          issues.push(`"${op}" only works on text fields; ${apiName} is ${kind}`);
+        } else if (typeof n['value'] !== 'string' || n['value'] === '') {
+          issues.push(`"${op}" on ${apiName} needs a text "value"`);
+        }
+        return;
+
+      case 'between':
+        if (kind !== 'number' && kind !== 'date' && kind !== 'any') {
+          issues.push(`"between" only works on number and date fields; ${apiName} is ${kind}`);
+          return;
+        }
+        if (n['from'] === undefined && n['to'] === undefined) {
+          issues.push(`"between" on ${apiName} needs "from" and/or "to"`);
+          return;
+        }
+        if (n['from'] !== undefined) this.checkValue(apiName, kind, n['from'], issues);
+        if (n['to'] !== undefined) this.checkValue(apiName, kind, n['to'], issues);
+        return;
+
+      default:
+        if (ORDERING_OPERATORS.includes(op as FilterOperator) && (kind === 'string' || kind === 'lookup' || kind === 'boolean')) {
+          issues.push(`"${op}" only works on number and date fields; ${apiName} is ${kind}`);
+          return;
+        }
+        this.checkValue(apiName, kind, n['value'], issues);
+    }
+  }
+
+  private checkValue(apiName: string, kind: FieldKind, value: unknown, issues: string[]): void {
+    if (this.normalizeValue(kind, value) === null) {
+      issues.push(`Value ${JSON.stringify(value)} does not fit ${kind} field ${apiName}`);
+    }
+  }
+
+  private resolveField(
+    field: unknown,
+    metadata: ObjectMetadata | undefined,
+    issues: string[]
+  ): ResolvedField | null {
+    if (typeof field !== 'string' || !FIELD_NAME_PATTERN.test(field)) {
+      issues.push(`Invalid field name ${JSON.stringify(field)}`);
+      return null;
+    }
+
+    if (!metadata) {
+      return { apiName: field, kind: 'any' };
+    }
+
+    const attr = metadata.attributes.find(a => a.apiName.toLowerCase() === field.toLowerCase());
+    if (!attr) {
+      issues.push(`Unknown field "${field}" on ${metadata.resourceName}`);
+      return null;
+    }
+
+    return { apiName: attr.apiName, kind: this.getFieldKind(attr) };
+  }
+
+  private getFieldKind(attr: AttributeMetadata): FieldKind {
+    if (attr.isLookup || attr.dataType === 'LOOKUP') return 'lookup';
+    if (NUMBER_TYPES.includes(attr.dataType)) return 'number';
+    if (DATE_TYPES.includes(attr.dataType)) return 'date';
+    if (attr.dataType === 'BOOLEAN') return 'boolean';
+    return 'string';
+  }
+
+  /**
+   * Value converted for the field type, or null when it does not fit.
+   * Date-only values become the start of the day, or its end for range upper bounds.
+   */
+  private normalizeValue(kind: FieldKind, value: unknown, endOfDay = false): FilterValue | null {
+    if (typeof value !== 'string' && typeof value !== 'number' && typeof value !== 'boolean') {
+      return null;
+    }
+
+    switch (kind) {
+      case 'number':
+        if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+        return typeof value === 'string' && NUMBER_PATTERN.test(value) ? Number(value) : null;
+
+      case 'boolean':
+        if (typeof value === 'boolean') return value;
+        return value === 'true' ? true : value === 'false' ? false : null;
+
+      case 'date': {
+        if (typeof value !== 'string' || !DATE_PATTERN.test(value)) return null;
+        const date = value.slice(0, 10);
+        if (value.length === 10) return `${date}T${endOfDay ? '23:59:59' : '00:00:00'}`;
+        const time = value.slice(11, 19);
+        return `${date}T${time.length === 5 ? `${time}:00` : time}`;
+      }
+
+      case 'string':
+      case 'lookup':
+        return typeof value === 'boolean' ? null : String(value);
+
+      default:
+        return value;
+    }
+  }
+
+  // ============================================================================
+  // LOOKUP RESOLUTION
+  // ============================================================================
+
+  private async resolveNode(
+    node: FilterNode,
+    metadata: ObjectMetadata,
+    resolve: (lookupType: string, value: string) => Promise<string | null>
+  ): Promise<FilterNode> {
+    if (node.op === 'and' || node.op === 'or') {
+      const filters = await Promise.all(node.filters.map(child => this.resolveNode(child, metadata, resolve)));
+      return { op: node.op, filters };
+    }
+    if (node.op === 'not') {
+      return { op: 'not', filter: await this.resolveNode(node.filter, metadata, resolve) };
+    }
+
+    const leaf = node as FieldFilter;
+    const attr = metadata.attributes.find(a => a.apiName.toLowerCase() === leaf.field.toLowerCase());
+    const lookupType = attr?.isLookup ? attr.lookupType : undefined;
+    if (!lookupType) return leaf;
+
+    const toCode = async (value: FilterValue): Promise<FilterValue> =>
+      typeof value === 'string' ? (await resolve(lookupType, value)) ?? value : value;
+
+    switch (leaf.op) {
+      case '=':
+      case '!=':
+        return { ...leaf, value: await toCode(leaf.value) };
+      case 'in':
+      case 'notIn':
+        return { ...leaf, values: await Promise.all(leaf.values.map(toCode)) };
+      default:
+        return leaf;
+    }
+  }
+
+  // ============================================================================
+  // COMPILATION
+  // ============================================================================
+
+  private emit(node: FilterNode, metadata: ObjectMetadata | undefined, negated: boolean): string {
+    if (node.op === 'and' || node.op === 'or') {
+      const joiner = negated ? (node.op === 'and' ? 'or' : 'and') : node.op;
+      const parts = node.filters.map(child => this.emit(child, metadata, negated));
+      return parts.length === 1 ? parts[0]! : `(${parts.join(` ${joiner} `)})`;
+    }
+
+    if (node.op === 'not') {
+      return this.emit(node.filter, metadata, !negated);
+    }
+
+    return this.emitField(node as FieldFilter, metadata, negated);
+  }
+
+  private emitField(node: FieldFilter, metadata: ObjectMetadata | undefined, negated: boolean): string {
+    // Validated before emit, so the field always resolves
+    const { apiName, kind } = this.resolveField(node.field, metadata, [])!;
+    const literal = (value: unknown, endOfDay = false): string =>
+      this.quote(this.normalizeValue(kind, value, endOfDay)!);
+
+    switch (node.op) {
+      case 'isNull':
+      case 'isNotNull':
+        return `(${apiName} ${(node.op === 'isNull') !== negated ? '=' : '!='} null)`;
+
+      case 'in':
+      case 'notIn': {
+        const op = (node.op === 'in') !== negated ? 'in' : 'notIn';
+        return `(${apiName} ${op} (${node.values.map(v => literal(v)).join(', ')}))`;
+      }
+
+      case 'contains':
+      case 'startsWith':
+        return `(${apiName} ${node.op} ${literal(node.value)})`;
+
+      case 'between': {
+        const parts: string[] = [];
+        if (node.from !== undefined) {
+          parts.push(`(${apiName} ${negated ? '<' : '>='} ${literal(node.from)})`);
+        }
+        if (node.to !== undefined) {
+          parts.push(`(${apiName} ${negated ? '>' : '<='} ${literal(node.to, true)})`);
+        }
+        return parts.length === 1 ? parts[0]! : `(${parts.join(negated ? ' or ' : ' and ')})`;
+      }
+
+      default: {
+        const op = negated ? NEGATED[node.op] : node.op;
+        return `(${apiName} ${op} ${literal(node.value)})`;
+      }
+    }
+  }
+
+  private quote(value: FilterValue): string {
+    if (typeof value === 'number' || typeof value === 'boolean') {
+      return String(value);
+    }
+    return `'${value.replace(/'/g, "''")}'`;
+  }
+}
+
+// Export singleton instance
+export const filterCompiler = new FilterCompiler();
@@ -0,0 +1,172 @@
+/**
+ * Natural Dates
+ * Reads the dates people type into a calendar date (YYYY-MM-DD), relative to
+ * today (UTC):
+ *
+ *   2025-03-05, 5/3/2025, 5.3.25      → numeric, day first unless the second
+ *                                       number cannot be a month
+ *   March 5, 5 March 2025, mar 5      → month names (this year when omitted)
+ *   today, tomorrow, yesterday        → also היום, מחר, מחרתיים, אתמול
+ *   friday, next friday, last friday  → weekdays
+ *   in 3 days, 2 weeks from now, 1 month ago
+ *   next week / month / year          → first day of that period
+ *   end of month, start of next quarter
+ */
+
+type Unit = 'day' | 'week' | 'month' | 'quarter' | 'year';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const RELATIVE_DAYS: Record<string, number> = {
+  'today': 0,
+  'now': 0,
+  'tomorrow': 1,
+  'day after tomorrow': 2,
+  'the day after tomorrow': 2,
+  'yesterday': -1,
+  'היום': 0,
+  'מחר': 1,
+  'מחרתיים': 2,
+  'אתמול': -1,
+};
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+const COUNT_WORDS: Record<string, number> = { a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, ten: 10 };
+
+/**
+ * Calendar date of a typed date, or null when it is not one
+ */
+export function parseNaturalDate(text: string, now: Date = new Date()): string | null {
+  const input = text.trim().toLowerCase().replace(/\s+/g, ' ').replace(/[.,!]$/, '');
+  const today = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+
+  let match = input.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (match) {
+    return calendarDate(Number(match[1]), Number(match[2]), Number(match[3]));
+  }
+
+  match = input.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+  if (match) {
+    const [first, second] = [Number(match[1]), Number(match[2])];
+    const year = match[3]!.length === 2 ? 2000 + Number(match[3]) : Number(match[3]);
+    return second > 12 ? calendarDate(year, first, second) : calendarDate(year, second, first);
+  }
+
+  const relative = RELATIVE_DAYS[input];
+  if (relative !== undefined) {
+    return formatDate(addDays(today, relative));
+  }
+
+  return parseShift(input, today)
+    ?? parseWeekday(input, today)
+    ?? parsePeriod(input, today)
+    ?? parseMonthName(input, today);
+}
+
+// ============================================================================
+// FORMS
+// ============================================================================
+
+// "in 3 days", "2 weeks from now", "a month ago"
+function parseShift(input: string, today: Date): string | null {
+  const match = input.match(/^(?:in )?(\d+|[a-z]+) (day|week|month|quarter|year)s?( from (?:now|today)| ago)?$/);
+  if (!match || (!input.startsWith('in ') && !match[3])) return null;
+
+  const count = /^\d+$/.test(match[1]!) ? Number(match[1]) : COUNT_WORDS[match[1]!];
+  if (count === undefined) return null;
+
+  const sign = match[3] === ' ago' ? -1 : 1;
+  return formatDate(shift(today, match[2] as Unit, sign * count));
+}
+
+// "friday", "this friday", "next friday", "last friday"
+function parseWeekday(input: string, today: Date): string | null {
+  const match = input.match(/^(?:(this|next|last|on) )?([a-z]+)$/);
+  if (!match) return null;
+
+  const day = WEEKDAYS.findIndex(name => match[2]!.length >= 3 && name.startsWith(match[2]!));
+  if (day < 0) return null;
+
+  const current = today.getUTCDay();
+  if (match[1] === 'last') {
+    return formatDate(addDays(today, -(((current - day + 6) % 7) + 1)));
+  }
+  // Upcoming occurrence, today included; "next" skips today
+  let offset = (day - current + 7) % 7;
+  if (offset === 0 && match[1] === 'next') offset = 7;
+  return formatDate(addDays(today, offset));
+}
+
+// "next month", "end of month", "start of next quarter", "end of the year"
+function parsePeriod(input: string, today: Date): string | null {
+  const next = input.match(/^next (week|month|quarter|year)$/);
+  if (next) {
+    return formatDate(periodStart(shift(today, next[1] as Unit, 1), next[1] as Unit));
+  }
+
+  const edge = input.match(/^(start|beginning|end) of (?:the )?(this |next |last )?(week|month|quarter|year)$/);
+  if (!edge) return null;
+
+  const unit = edge[3] as Unit;
+  const offset = edge[2] === 'next ' ? 1 : edge[2] === 'last ' ? -1 : 0;
+  const start = periodStart(shift(today, unit, offset), unit);
+  return formatDate(edge[1] === 'end' ? addDays(shift(start, unit, 1), -1) : start);
+}
+
+// "march 5", "march 5 2025", "5 march", "5th of march 2025"
+function parseMonthName(input: string, today: Date): string | null {
+  const cleaned = input.replace(/,/g, ' ').replace(/(\d)(st|nd|rd|th)\b/g, '$1').replace(/ of /g, ' ').replace(/\s+/g, ' ');
+  const match = cleaned.match(/^([a-z]+) (\d{1,2})(?: (\d{4}))?$/) ?? cleaned.match(/^(\d{1,2}) ([a-z]+)(?: (\d{4}))?$/);
+  if (!match) return null;
+
+  const [monthWord, dayText] = /^\d/.test(match[1]!) ? [match[2]!, match[1]!] : [match[1]!, match[2]!];
+  const month = MONTHS.findIndex(name => monthWord.length >= 3 && name.startsWith(monthWord));
+  if (month < 0) return null;
+
+  const year = match[3] ? Number(match[3]) : today.getUTCFullYear();
+  return calendarDate(year, month + 1, Number(dayText));
+}
+
+// ============================================================================
+// DATE HELPERS
+// ============================================================================
+
+function calendarDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  const valid = date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+  return valid ? formatDate(date) : null;
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+// Months past the end of a shorter month land on its last day (Jan 31 + 1 month → Feb 28)
+function shift(date: Date, unit: Unit, count: number): Date {
+  if (unit === 'day') return addDays(date, count);
+  if (unit === 'week') return addDays(date, count * 7);
+
+  const months = count * (unit === 'year' ? 12 : unit === 'quarter' ? 3 : 1);
+  const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth(), Math.min(date.getUTCDate(), lastDay)));
+}
+
+// Weeks start on Monday
+function periodStart(date: Date, unit: Unit): Date {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  switch (unit) {
+    case 'day': return date;
+    case 'week': return addDays(date, -((date.getUTCDay() + 6) % 7));
+    case 'month': return new Date(Date.UTC(year, month, 1));
+    case 'quarter': return new Date(Date.UTC(year, month - (month % 3), 1));
+    case 'year': return new Date(Date.UTC(year, 0, 1));
+  }
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
@@ -0,0 +1,247 @@
+/**
+ * Record Joiner
+ * Combines records of two objects into flat rows. Two kinds of relation:
+ *
+ * - parent:    the object is a child collection of the related object
+ *              (/projects/{id}/tasks); children are read per parent
+ * - reference: a field on the object points at a related record (by internal
+ *              ID or code); related records are fetched in batches
+ *
+ * Related fields land in each row prefixed with the related object,
+ * e.g. "projects.manager".
+ */
+
+import type { ClarityRequester } from '../services/ClarityCallBudget.js';
+import type { AttributeMetadata } from '../types/clarity.js';
+import { JOIN_LIMITS, CHILD_OBJECTS } from '../constants.js';
+import { filterCompiler } from './FilterCompiler.js';
+import { getLookupCode } from './ChartBuckets.js';
+
+export type JoinRelation =
+  | { kind: 'parent' }
+  | { kind: 'reference'; field: string };
+
+export interface JoinRequest {
+  object: string;
+  relatedObject: string;
+  relation: JoinRelation;
+  fields: string[];               // Fields of the object
+  relatedFields: string[];        // Fields of the related object
+  filterParam?: string;           // Compiled `filter=` for the object
+  relatedFilterParam?: string;    // Compiled `filter=` for the related object
+  limit: number;
+}
+
+export interface JoinResult {
+  rows: Array<Record<string, unknown>>;
+  relatedCount: number;           // Related records read
+  truncated: boolean;             // More matching rows exist than were returned
+}
+
+type RecordRow = Record<string, unknown>;
+type Getter = Pick<ClarityRequester, 'get'>;
+
+/**
+ * Read and combine the records of a join
+ */
+export async function joinRecords(client: Getter, request: JoinRequest): Promise<JoinResult> {
+  return request.relation.kind === 'parent'
+    ? joinParent(client, request)
+    : joinReference(client, request, request.relation.field);
+}
+
+/**
+ * How an object relates to another. Known child collections join on their
+ * parent; otherwise `via` names the referencing field, or a field named after
+ * the related object (project, odf_project, ...) or looking it up is used.
+ */
+export function resolveRelation(
+  object: string,
+  relatedObject: string,
+  attributes: AttributeMetadata[],
+  via?: string
+): { relation: JoinRelation } | { error: string } {
+  if (!via && CHILD_OBJECTS[object] === relatedObject) {
+    return { relation: { kind: 'parent' } };
+  }
+
+  if (via) {
+    const attr = findAttribute(attributes, via);
+    return attr
+      ? { relation: { kind: 'reference', field: attr.apiName } }
+      : { error: `${object} has no field "${via}"` };
+  }
+
+  const singular = relatedObject.replace(/s$/, '').toLowerCase();
+  const guess = attributes.find(a => {
+    const name = a.apiName.toLowerCase();
+    return name === singular || name.endsWith(`_${singular}`) || a.lookupType?.toLowerCase().includes(singular);
+  });
+  return guess
+    ? { relation: { kind: 'reference', field: guess.apiName } }
+    : { error: `No known relation from ${object} to ${relatedObject}. Name the ${object} field that references it in "via"` };
+}
+
+/**
+ * API names for requested fields (API or display names); unknown names are an error
+ */
+export function resolveFieldNames(
+  attributes: AttributeMetadata[],
+  names: string[],
+  objectType: string
+): { fields: string[] } | { error: string } {
+  const fields: string[] = [];
+  for (const name of names) {
+    const attr = findAttribute(attributes, name);
+    if (!attr) return { error: `${objectType} has no field "${name}"` };
+    fields.push(attr.apiName);
+  }
+  return { fields };
+}
+
+/**
+ * Column name of a related field in a joined row
+ */
+export function joinedFieldName(relatedObject: string, field: string): string {
+  return `${relatedObject}.${field}`;
+}
+
+// ============================================================================
+// PARENT / CHILD
+// ============================================================================
+
+async function joinParent(client: Getter, request: JoinRequest): Promise<JoinResult> {
+  const parentResponse = await client.get<RecordRow>(
+    `/${request.relatedObject}?${query(request.relatedFilterParam, ['_internalId', ...request.relatedFields], JOIN_LIMITS.MAX_PARENTS)}`
+  );
+  const parents = (parentResponse._results ?? []) as RecordRow[];
+  const parentTotal = parentResponse._totalCount ?? parents.length;
+
+  const rows: RecordRow[] = [];
+  let truncated = parentTotal > parents.length;
+
+  // Children of a few parents at a time, until the limit is reached
+  for (let start = 0; start < parents.length && rows.length < request.limit; start += JOIN_LIMITS.CONCURRENCY) {
+    const batch = parents.slice(start, start + JOIN_LIMITS.CONCURRENCY);
+    const responses = await Promise.all(batch.map(parent =>
+      client.get<RecordRow>(
+        `/${request.relatedObject}/${parent['_internalId']}/${request.object}?${query(request.filterParam, ['_internalId', ...request.fields], request.limit)}`
+      )
+    ));
+
+    responses.forEach((response, i) => {
+      const children = (response._results ?? []) as RecordRow[];
+      if ((response._totalCount ?? children.length) > children.length) truncated = true;
+      for (const child of children) {
+        rows.push(combine(child, batch[i]!, request));
+      }
+    });
+
+    if (rows.length >= request.limit && start + JOIN_LIMITS.CONCURRENCY < parents.length) {
+      truncated = true;
+    }
+  }
+
+  return {
+    rows: rows.slice(0, request.limit),
+    relatedCount: parents.length,
+    truncated: truncated || rows.length > request.limit,
+  };
+}
+
+// ============================================================================
+// REFERENCE FIELD
+// ============================================================================
+
+async function joinReference(client: Getter, request: JoinRequest, field: string): Promise<JoinResult> {
+  const fields = ['_internalId', ...request.fields, ...(request.fields.includes(field) ? [] : [field])];
+  const baseResponse = await client.get<RecordRow>(
+    `/${request.object}?${query(request.filterParam, fields, request.limit)}`
+  );
+  const records = (baseResponse._results ?? []) as RecordRow[];
+  const baseTotal = baseResponse._totalCount ?? records.length;
+
+  // Distinct references, grouped by how they identify the related record
+  const keys = { _internalId: new Set<string>(), code: new Set<string>() };
+  for (const record of records) {
+    const key = referenceKey(record[field]);
+    if (key) keys[key.by].add(key.value);
+  }
+
+  const related = new Map<string, RecordRow>();
+  for (const by of ['_internalId', 'code'] as const) {
+    const values = Array.from(keys[by]);
+    const batches: string[][] = [];
+    for (let i = 0; i < values.length; i += JOIN_LIMITS.BATCH_SIZE) {
+      batches.push(values.slice(i, i + JOIN_LIMITS.BATCH_SIZE));
+    }
+
+    for (let start = 0; start < batches.length; start += JOIN_LIMITS.CONCURRENCY) {
+      const responses = await Promise.all(batches.slice(start, start + JOIN_LIMITS.CONCURRENCY).map(batch => {
+        const filter = filterCompiler.toQueryParam({
+          op: 'in',
+          field: by,
+          values: by === '_internalId' ? batch.map(Number) : batch,
+        });
+        const relatedFields = ['_internalId', 'code', ...request.relatedFields.filter(f => f !== 'code')];
+        return client.get<RecordRow>(`/${request.relatedObject}?${query(filter, relatedFields, batch.length)}`);
+      }));
+
+      for (const response of responses) {
+        for (const record of (response._results ?? []) as RecordRow[]) {
+          related.set(`${by}:${String(record[by])}`, record);
+        }
+      }
+    }
+  }
+
+  const rows = records.map(record => {
+    const key = referenceKey(record[field]);
+    const match = key ? related.get(`${key.by}:${key.value}`) : undefined;
+    return match ? combine(record, match, request) : record;
+  });
+
+  return {
+    rows,
+    relatedCount: related.size,
+    truncated: baseTotal > records.length,
+  };
+}
+
+/**
+ * How a reference value identifies its record: numbers are internal IDs,
+ * anything else is a code. Lookup objects ({ id, displayValue }) use their id.
+ */
+function referenceKey(value: unknown): { by: '_internalId' | 'code'; value: string } | null {
+  const raw = typeof value === 'object' && value !== null ? getLookupCode(value) : value;
+  if (raw === undefined || raw === null || raw === '') return null;
+
+  const text = String(raw);
+  return /^\d+$/.test(text) ? { by: '_internalId', value: text } : { by: 'code', value: text };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function findAttribute(attributes: AttributeMetadata[], name: string): AttributeMetadata | undefined {
+  const lower = name.trim().toLowerCase();
+  return attributes.find(a => a.apiName.toLowerCase() === lower || a.displayName.toLowerCase() === lower);
+}
+
+function combine(record: RecordRow, related: RecordRow, request: JoinRequest): RecordRow {
+  const row: RecordRow = { ...record };
+  for (const field of ['_internalId', ...request.relatedFields]) {
+    row[joinedFieldName(request.relatedObject, field)] = related[field] ?? null;
+  }
+  return row;
+}
+
+function query(filterParam: string | undefined, fields: string[], limit: number): string {
+  const params = [
+    ...(filterParam ? [filterParam] : []),
+    `fields=${Array.from(new Set(fields)).join(',')}`,
+    `limit=${Math.min(limit, 500)}`,
+  ];
+  return params.join('&');
+}
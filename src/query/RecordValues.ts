@@ -0,0 +1,271 @@
+/**
+ * Record Values
+ * Validates the field values of a create or update against the object's
+ * metadata and turns them into a Clarity request body:
+ *
+ * - fields may be named by API name or display name; unknown and read-only
+ *   fields are rejected
+ * - numbers, dates and yes/no values given as text are converted; dates may be
+ *   typed naturally ("next friday", "5/3/2025") and must exist on the calendar;
+ *   amounts may carry a currency symbol ("$1,200")
+ * - text must fit maxLength, numbers their precision and scale
+ * - lookup display values become lookup codes
+ * - required fields without a value are reported, so they can be asked for
+ *
+ *   { "Start Date": "next monday", "Manager": "Dana Levi", budget: "1,200" }
+ *   → { scheduleStart: '2025-03-03T00:00:00', manager: 'dlevi', budget: 1200 }
+ *
+ * Problems come back per field, so the user can correct them in the conversation.
+ */
+
+import type { AttributeMetadata, ObjectMetadata } from '../types/clarity.js';
+import { DATE_DATA_TYPES } from '../constants.js';
+import { parseNaturalDate } from './NaturalDates.js';
+
+// Code of a lookup value (given as code or display value), or null when the lookup has no such value
+export type LookupResolver = (lookupType: string, value: string) => Promise<string | null>;
+
+// A value that does not fit its field
+export interface FieldIssue {
+  field: string;
+  displayName: string;
+  message: string;
+}
+
+export interface ValidatedValues {
+  values: Record<string, unknown>;    // API name → value ready to send
+  issues: FieldIssue[];
+}
+
+// create: empty values are left out; update: empty values clear the field
+export type WriteMode = 'create' | 'update';
+
+type ValueKind = 'text' | 'number' | 'date' | 'boolean' | 'lookup';
+
+const NUMBER_TYPES = ['NUMBER', 'INTEGER', 'DECIMAL', 'DOUBLE', 'FLOAT', 'MONEY', 'CURRENCY', 'PERCENT'];
+const MONEY_TYPES = ['MONEY', 'CURRENCY'];
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?$/;
+const CURRENCY_SYMBOLS = /^[$€£₪¥]\s*|\s*[$€£₪¥]$/g;
+const DATE_TIME_PATTERN = /^(\d{4}-\d{2}-\d{2})[T ](\d{2}):(\d{2})(?::(\d{2}))?$/;
+const TRUE_WORDS = ['true', 'yes', 'y', '1', 'on', 'כן'];
+const FALSE_WORDS = ['false', 'no', 'n', '0', 'off', 'לא'];
+
+/**
+ * Request body for the given values. Values that do not fit, and fields that are
+ * unknown or read-only, are left out and reported.
+ */
+export async function validateValues(
+  metadata: ObjectMetadata,
+  input: Record<string, unknown>,
+  resolve: LookupResolver,
+  options: { mode: WriteMode; now?: Date }
+): Promise<ValidatedValues> {
+  const values: Record<string, unknown> = {};
+  const issues: FieldIssue[] = [];
+  const issue = (field: string, displayName: string, message: string) => issues.push({ field, displayName, message });
+
+  for (const [name, raw] of Object.entries(input)) {
+    if (raw === undefined) continue;
+
+    const attr = findAttribute(metadata.attributes, name);
+    if (!attr) {
+      issue(name, name, `${metadata.label} has no such field`);
+      continue;
+    }
+    if (attr.isReadOnly || attr.apiName.startsWith('_')) {
+      issue(attr.apiName, attr.displayName, 'is read-only');
+      continue;
+    }
+
+    if (raw === null || (typeof raw === 'string' && raw.trim() === '')) {
+      if (options.mode === 'create') continue;
+      if (attr.isRequired) {
+        issue(attr.apiName, attr.displayName, 'is required and cannot be emptied');
+      } else {
+        values[attr.apiName] = null;
+      }
+      continue;
+    }
+
+    const converted = await convertValue(attr, raw, resolve, options.now ?? new Date());
+    if ('error' in converted) {
+      issue(attr.apiName, attr.displayName, converted.error);
+    } else {
+      values[attr.apiName] = converted.value;
+    }
+  }
+
+  return { values, issues };
+}
+
+/**
+ * Required fields a user can set that have no value yet
+ */
+export function missingRequired(metadata: ObjectMetadata, values: Record<string, unknown>): AttributeMetadata[] {
+  return writableAttributes(metadata).filter(attr =>
+    attr.isRequired && (values[attr.apiName] === undefined || values[attr.apiName] === null || values[attr.apiName] === '')
+  );
+}
+
+/**
+ * Fields a user can set (not read-only, not system fields such as _internalId)
+ */
+export function writableAttributes(metadata: ObjectMetadata): AttributeMetadata[] {
+  return metadata.attributes.filter(attr => !attr.isReadOnly && !attr.apiName.startsWith('_'));
+}
+
+/**
+ * What a field expects, for prompts and error messages: "a date (YYYY-MM-DD)"
+ */
+export function describeExpected(attr: AttributeMetadata): string {
+  switch (valueKind(attr)) {
+    case 'number':
+      if (attr.dataType === 'INTEGER') return 'a whole number';
+      return MONEY_TYPES.includes(attr.dataType) ? 'an amount (e.g. 1200.50 or $1,200)' : 'a number';
+    case 'date': return 'a date (YYYY-MM-DD, or e.g. "next friday")';
+    case 'boolean': return 'yes or no';
+    case 'lookup': return `a ${attr.displayName} value`;
+    default: return attr.maxLength ? `text (up to ${attr.maxLength} characters)` : 'text';
+  }
+}
+
+/**
+ * Whether a reply may be just the value, without naming the field. Free text
+ * would take any message, so text fields are answered as "Name: ...".
+ */
+export function takesBareValue(attr: AttributeMetadata): boolean {
+  return valueKind(attr) !== 'text';
+}
+
+/**
+ * Field values named in a reply, e.g. "Start Date: 2025-03-01, Manager = Dana".
+ * Each value runs up to the next field name; names are matched against the
+ * given fields' API and display names.
+ */
+export function parseFieldAnswers(text: string, attributes: AttributeMetadata[]): Record<string, string> {
+  const labels = new Map<string, string>();
+  for (const attr of attributes) {
+    labels.set(attr.displayName.toLowerCase(), attr.apiName);
+    labels.set(attr.apiName.toLowerCase(), attr.apiName);
+  }
+  if (labels.size === 0) return {};
+
+  const alternatives = [...labels.keys()]
+    .sort((a, b) => b.length - a.length)
+    .map(label => label.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const pattern = new RegExp(`(?:^|[\\n,;]\\s*)(${alternatives.join('|')})\\s*(?::|=|\\s+is\\s+)\\s*`, 'gi');
+  const matches = [...text.matchAll(pattern)];
+
+  const answers: Record<string, string> = {};
+  matches.forEach((match, i) => {
+    const start = (match.index ?? 0) + match[0].length;
+    const end = matches[i + 1]?.index ?? text.length;
+    const value = text.slice(start, end).trim().replace(/[,;]$/, '').trim();
+    const apiName = labels.get(match[1]!.toLowerCase());
+    if (apiName && value) answers[apiName] = value;
+  });
+  return answers;
+}
+
+// ============================================================================
+// CONVERSION
+// ============================================================================
+
+async function convertValue(
+  attr: AttributeMetadata,
+  raw: unknown,
+  resolve: LookupResolver,
+  now: Date
+): Promise<{ value: unknown } | { error: string }> {
+  const text = typeof raw === 'string' ? raw.trim() : raw;
+  const expected = () => ({ error: `expected ${describeExpected(attr)}, got "${String(raw)}"` });
+
+  switch (valueKind(attr)) {
+    case 'number': {
+      const digits = typeof text === 'number' ? String(text) : typeof text === 'string' ? toDigits(attr, text) : '';
+      if (!NUMBER_PATTERN.test(digits)) return expected();
+      if (attr.dataType === 'INTEGER' && digits.includes('.')) return expected();
+      const error = checkDigits(attr, digits);
+      return error ? { error } : { value: Number(digits) };
+    }
+
+    case 'date': {
+      if (typeof text !== 'string') return expected();
+      const withTime = text.match(DATE_TIME_PATTERN);
+      if (withTime) {
+        const [, day = '', hours = '', minutes = '', seconds = '00'] = withTime;
+        if (!parseNaturalDate(day, now) || Number(hours) > 23 || Number(minutes) > 59 || Number(seconds) > 59) {
+          return { error: `"${text}" is not a real date and time` };
+        }
+        return { value: `${day}T${hours}:${minutes}:${seconds}` };
+      }
+      const date = parseNaturalDate(text, now);
+      return date ? { value: `${date}T00:00:00` } : expected();
+    }
+
+    case 'boolean': {
+      if (typeof text === 'boolean') return { value: text };
+      const word = String(text).toLowerCase();
+      if (TRUE_WORDS.includes(word)) return { value: true };
+      if (FALSE_WORDS.includes(word)) return { value: false };
+      return expected();
+    }
+
+    case 'lookup': {
+      if (typeof text !== 'string' && typeof text !== 'number') return expected();
+      if (!attr.lookupType) return { value: String(text) };
+      const code = await resolve(attr.lookupType, String(text));
+      return code !== null ? { value: code } : { error: `"${String(text)}" is not a ${attr.displayName} value` };
+    }
+
+    default: {
+      if (typeof text === 'object') return expected();
+      const value = String(text);
+      if (attr.maxLength && value.length > attr.maxLength) {
+        return { error: `is ${value.length} characters long, at most ${attr.maxLength} fit` };
+      }
+      return { value };
+    }
+  }
+}
+
+/**
+ * Number typed as text, without thousands separators, a trailing % or, for
+ * amounts, a currency symbol: "$1,200" → "1200"
+ */
+function toDigits(attr: AttributeMetadata, text: string): string {
+  const digits = text.replace(/,/g, '').replace(/%$/, '');
+  return MONEY_TYPES.includes(attr.dataType) ? digits.replace(CURRENCY_SYMBOLS, '') : digits;
+}
+
+/**
+ * Precision (all digits) and scale (digits after the point) of a number field
+ */
+function checkDigits(attr: AttributeMetadata, digits: string): string | null {
+  const [whole = '', fraction = ''] = digits.replace(/^-/, '').split('.');
+  const decimals = fraction.replace(/0+$/, '').length;
+  const wholeDigits = whole.replace(/^0+/, '').length;
+
+  if (attr.scale !== undefined && decimals > attr.scale) {
+    return attr.scale === 0
+      ? `must be a whole number, got ${digits}`
+      : `allows ${attr.scale} decimal places, got ${digits}`;
+  }
+  if (attr.precision !== undefined && wholeDigits > attr.precision - (attr.scale ?? 0)) {
+    return `is too large - at most ${attr.precision - (attr.scale ?? 0)} digits before the decimal point, got ${digits}`;
+  }
+  return null;
+}
+
+function valueKind(attr: AttributeMetadata): ValueKind {
+  if (attr.isLookup || attr.dataType === 'LOOKUP') return 'lookup';
+  if (NUMBER_TYPES.includes(attr.dataType)) return 'number';
+  if (DATE_DATA_TYPES.includes(attr.dataType)) return 'date';
+  if (attr.dataType === 'BOOLEAN') return 'boolean';
+  return 'text';
+}
+
+function findAttribute(attributes: AttributeMetadata[], name: string): AttributeMetadata | undefined {
+  const lower = name.trim().toLowerCase();
+  return attributes.find(a => a.apiName.toLowerCase() === lower || a.displayName.toLowerCase() === lower);
+}
@@ -0,0 +1,86 @@
+/**
+ * Sorting
+ * Validated sort order for record queries (compiled to Clarity's `sort`
+ * parameter) and top-N / bottom-N trimming of chart buckets.
+ */
+
+import type { AttributeMetadata } from '../types/clarity.js';
+import type { ChartBucket, PivotData } from '../types/context.js';
+
+export type SortDirection = 'asc' | 'desc';
+
+export const SORT_DIRECTIONS: SortDirection[] = ['asc', 'desc'];
+
+export interface SortSpec {
+  field: string;
+  displayName: string;
+  direction: SortDirection;
+}
+
+const FIELD_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Sort order for a query. `attributes` are the fields the session may see;
+ * the direction defaults to ascending.
+ */
+export function resolveSort(
+  attributes: AttributeMetadata[],
+  field?: string,
+  direction?: string
+): { sort?: SortSpec } | { error: string } {
+  if (direction !== undefined && !SORT_DIRECTIONS.includes(direction as SortDirection)) {
+    return { error: `Unknown sort direction "${direction}". Use asc or desc` };
+  }
+  if (!field) {
+    return {};
+  }
+
+  const attr = attributes.find(a =>
+    a.apiName.toLowerCase() === field.toLowerCase() ||
+    a.displayName.toLowerCase() === field.toLowerCase()
+  );
+  if (!attr || !FIELD_NAME_PATTERN.test(attr.apiName)) {
+    return { error: `Cannot sort by "${field}": no such field` };
+  }
+
+  return {
+    sort: {
+      field: attr.apiName,
+      displayName: attr.displayName,
+      direction: (direction ?? 'asc') as SortDirection,
+    },
+  };
+}
+
+/**
+ * Clarity sort parameter: the field name, prefixed with "-" for descending
+ */
+export function toSortParam(sort: SortSpec): string {
+  return `sort=${sort.direction === 'desc' ? '-' : ''}${sort.field}`;
+}
+
+/**
+ * The `limit` largest buckets (smallest with "asc"), in that order
+ */
+export function topBuckets(buckets: ChartBucket[], limit: number, direction: SortDirection = 'desc'): ChartBucket[] {
+  return [...buckets]
+    .sort((a, b) => direction === 'desc' ? b.value - a.value : a.value - b.value)
+    .slice(0, limit);
+}
+
+/**
+ * Pivot keeping only the top (or bottom) `limit` rows by row total.
+ * Column and grand totals still cover every row.
+ */
+export function topPivotRows(pivot: PivotData, limit: number, direction: SortDirection = 'desc'): PivotData {
+  const order = pivot.rows
+    .map((row, index) => ({ row, index }))
+    .sort((a, b) => direction === 'desc' ? b.row.value - a.row.value : a.row.value - b.row.value)
+    .slice(0, limit);
+
+  return {
+    ...pivot,
+    rows: order.map(({ row }) => row),
+    cells: order.map(({ index }) => pivot.cells[index] ?? []),
+  };
+}
@@ -0,0 +1,183 @@
+/**
+ * Table Builder
+ * Turns query results into a typed table: columns labelled from object
+ * metadata, cells converted to the column type, and a deep link per row.
+ * Also applies "add the X column" / "hide X" follow-ups to a table's columns.
+ */
+
+import type { AttributeMetadata } from '../types/clarity.js';
+import type { RecordCursor, TableBlock, TableCell, TableColumn, TableColumnType } from '../types/context.js';
+import { DATE_DATA_TYPES } from '../constants.js';
+import { parseDate } from './DateBuckets.js';
+import { resolveFieldNames } from './RecordJoiner.js';
+
+export type ColumnChange = 'add' | 'hide';
+
+// Columns of a record list when none are asked for
+const DEFAULT_FIELDS = ['name', 'status'];
+
+const NUMBER_TYPES = ['NUMBER', 'INTEGER', 'DECIMAL', 'DOUBLE', 'FLOAT', 'MONEY', 'CURRENCY', 'PERCENT'];
+
+/**
+ * Fields of a record list: name and status (when the object has them) plus
+ * any fields the query needs to show, such as the sort field
+ */
+export function defaultTableFields(attributes: AttributeMetadata[], extra: string[] = []): string[] {
+  const fields = DEFAULT_FIELDS.filter(f => attributes.some(a => a.apiName === f));
+  return Array.from(new Set([...fields, ...extra]));
+}
+
+/**
+ * Columns for API field names. Fields without metadata show as text under their API name.
+ */
+export function tableColumns(attributes: AttributeMetadata[], fields: string[]): TableColumn[] {
+  return fields.map(field => {
+    const attr = attributes.find(a => a.apiName === field);
+    return {
+      field,
+      displayName: attr?.displayName ?? field,
+      type: attr ? columnType(attr) : 'text',
+    };
+  });
+}
+
+/**
+ * Table of records. `link` builds the deep link of a row from its internal ID.
+ */
+export function buildTable(
+  objectType: string,
+  columns: TableColumn[],
+  records: Array<Record<string, unknown>>,
+  totalCount: number,
+  link?: (id: string | number) => string
+): TableBlock {
+  return {
+    objectType,
+    columns,
+    rows: records.map((record, index) => {
+      const rawId = record['_internalId'];
+      const id = typeof rawId === 'string' || typeof rawId === 'number' ? rawId : index;
+      return {
+        id,
+        cells: columns.map(column => toCell(column.type, record[column.field])),
+        ...(link && rawId !== undefined && rawId !== null && { link: link(id) }),
+      };
+    }),
+    totalCount,
+  };
+}
+
+/**
+ * Columns after adding or hiding fields named by API or display name.
+ * Hiding matches the table's own columns first, so joined columns can be hidden too.
+ */
+export function changeColumns(
+  columns: TableColumn[],
+  attributes: AttributeMetadata[],
+  change: ColumnChange,
+  names: string[],
+  objectType: string
+): { columns: TableColumn[] } | { error: string } {
+  if (change === 'hide') {
+    const hidden = new Set<string>();
+    for (const name of names) {
+      const lower = name.toLowerCase();
+      const column = columns.find(c => c.field.toLowerCase() === lower || c.displayName.toLowerCase() === lower);
+      if (!column) {
+        return { error: `The table has no "${name}" column. Columns: ${columns.map(c => c.displayName).join(', ')}` };
+      }
+      hidden.add(column.field);
+    }
+
+    const remaining = columns.filter(c => !hidden.has(c.field));
+    return remaining.length > 0 ? { columns: remaining } : { error: 'A table needs at least one column' };
+  }
+
+  const resolved = resolveFieldNames(attributes, names, objectType);
+  if ('error' in resolved) {
+    return resolved;
+  }
+  const added = tableColumns(attributes, resolved.fields.filter(f => !columns.some(c => c.field === f)));
+  return { columns: [...columns, ...added] };
+}
+
+/**
+ * Field names in a follow-up such as "finish date and manager" or "status, priority"
+ */
+export function parseColumnNames(text: string): string[] {
+  return text
+    .split(/\s*,\s*|\s+and\s+|\s*&\s*/i)
+    .map(name => name.replace(/^(the|a)\s+/i, '').trim())
+    .filter(Boolean);
+}
+
+/**
+ * Endpoint with its `fields=` parameter replaced, so a re-read returns the given columns
+ */
+export function withFields(endpoint: string, fields: string[]): string {
+  const [path, query = ''] = endpoint.split('?');
+  const params = query.split('&').filter(param => param && !param.startsWith('fields='));
+  params.push(`fields=${Array.from(new Set(['_internalId', ...fields])).join(',')}`);
+  return `${path}?${params.join('&')}`;
+}
+
+/**
+ * Endpoint for a cursor's records with the given columns: one page, or with
+ * no page the whole result set (for paginated reads)
+ */
+export function cursorEndpoint(
+  cursor: RecordCursor,
+  fields: string[],
+  page?: { offset: number; limit: number }
+): string {
+  const params = [
+    ...(cursor.filterParam ? [cursor.filterParam] : []),
+    ...(cursor.sortParam ? [cursor.sortParam] : []),
+    ...(page ? [`limit=${page.limit}`, `offset=${page.offset}`] : []),
+  ];
+  return withFields(`${cursor.path}?${params.join('&')}`, fields);
+}
+
+/**
+ * Text of a cell for markdown replies
+ */
+export function formatCell(cell: TableCell): string {
+  if (cell === null) return '-';
+  if (typeof cell === 'boolean') return cell ? 'Yes' : 'No';
+  return String(cell).replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+}
+
+function columnType(attr: AttributeMetadata): TableColumnType {
+  if (attr.isLookup || attr.dataType === 'LOOKUP') return 'lookup';
+  if (NUMBER_TYPES.includes(attr.dataType)) return 'number';
+  if (DATE_DATA_TYPES.includes(attr.dataType)) return 'date';
+  if (attr.dataType === 'BOOLEAN') return 'boolean';
+  return 'text';
+}
+
+function toCell(type: TableColumnType, value: unknown): TableCell {
+  if (value === null || value === undefined || value === '') return null;
+
+  // Lookup values come as { id, displayValue }
+  if (typeof value === 'object') {
+    const obj = value as Record<string, unknown>;
+    const label = obj['displayValue'] ?? obj['code'] ?? obj['id'];
+    return label === undefined || label === null ? JSON.stringify(value) : String(label);
+  }
+
+  switch (type) {
+    case 'number': {
+      const number = typeof value === 'number' ? value : Number(value);
+      return Number.isFinite(number) ? number : String(value);
+    }
+    case 'date': {
+      const date = parseDate(value);
+      return date ? date.toISOString().slice(0, 10) : String(value);
+    }
+    case 'boolean':
+      if (typeof value === 'boolean') return value;
+      return value === 'true' ? true : value === 'false' ? false : String(value);
+    default:
+      return typeof value === 'number' || typeof value === 'boolean' ? value : String(value);
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * Audit Service
+ * Records calls made into Clarity on behalf of sessions.
+ * Keeps a bounded in-memory trail and optionally appends JSON lines to a file.
+ */
+
+import { appendFile } from 'node:fs/promises';
+
+export interface AuditEntry {
+  timestamp: string;
+  sessionId: string;
+  userId?: string;
+  username?: string;
+  source: 'proxy' | 'chat' | 'mcp';
+  method: string;
+  path: string;
+  outcome: 'allowed' | 'denied' | 'error';
+  status?: number;
+  reason?: string;
+  durationMs?: number;
+}
+
+export class AuditService {
+  private entries: AuditEntry[] = [];
+  private readonly maxEntries: number;
+  private readonly logFile?: string;
+
+  constructor(options?: { maxEntries?: number; logFile?: string }) {
+    this.maxEntries = options?.maxEntries ?? 1000;
+    this.logFile = options?.logFile;
+  }
+
+  /**
+   * Record an entry (timestamp is filled in)
+   */
+  record(entry: Omit<AuditEntry, 'timestamp'>): AuditEntry {
+    const full: AuditEntry = { timestamp: new Date().toISOString(), ...entry };
+
+    this.entries.push(full);
+    if (this.entries.length > this.maxEntries) {
+      this.entries = this.entries.slice(-this.maxEntries);
+    }
+
+    console.log(
+      `[Audit] ${full.source} ${full.method} ${full.path} → ${full.outcome}` +
+      `${full.status ? ` (${full.status})` : ''} session=${full.sessionId}` +
+      `${full.reason ? ` reason="${full.reason}"` : ''}`
+    );
+
+    if (this.logFile) {
+      appendFile(this.logFile, JSON.stringify(full) + '\n').catch(error => {
+        console.error('[Audit] Failed to write audit log:', error);
+      });
+    }
+
+    return full;
+  }
+
+  /**
+   * Most recent entries first, optionally for one session
+   */
+  getEntries(options?: { sessionId?: string; limit?: number }): AuditEntry[] {
+    const filtered = options?.sessionId
+      ? this.entries.filter(e => e.sessionId === options.sessionId)
+      : this.entries;
+
+    return filtered.slice(-(options?.limit ?? 100)).reverse();
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * Chart Image Service
+ * Keeps the charts a session made behind short-lived image URLs, and renders
+ * them as SVG, or as PNG when the optional @resvg/resvg-js package is installed.
+ *
+ * - Charts are stored as data and rendered per request, so a URL can be asked
+ *   for another chart type or size
+ * - Image tokens are random, expire and belong to the session that made them
+ *   (dropped when it ends)
+ */
+
+import { randomBytes } from 'node:crypto';
+import type { ChartData } from '../types/context.js';
+import { renderChartSvg, type ChartRenderOptions } from '../query/ChartRenderer.js';
+import { CHART_IMAGES } from '../constants.js';
+
+export type ChartImageFormat = 'svg' | 'png';
+
+export interface ChartImageLink {
+  url: string;              // SVG image
+  pngUrl?: string;          // Only when PNG rendering is available
+  title: string;
+  expiresAt: string;
+}
+
+export interface ChartImage {
+  contentType: string;
+  body: Buffer;
+}
+
+export interface StoredChart {
+  sessionId: string;
+  chart: ChartData;
+  title: string;
+  expiresAt: number;
+}
+
+type Rasterizer = (svg: string, width: number) => Buffer;
+
+// Loaded on first use; a variable keeps the optional package out of type checking
+const PNG_MODULE: string = '@resvg/resvg-js';
+
+export class ChartImageService {
+  private charts: Map<string, StoredChart> = new Map();
+  private rasterizer: Promise<Rasterizer | null> | null = null;
+  private readonly publicBaseUrl: string;
+  private readonly ttlMs: number;
+
+  constructor(options?: { publicBaseUrl?: string; ttlMs?: number }) {
+    this.publicBaseUrl = (options?.publicBaseUrl ?? '').replace(/\/+$/, '');
+    this.ttlMs = options?.ttlMs ?? CHART_IMAGES.TTL_MS;
+  }
+
+  /**
+   * Keep a chart of a session and return its image URLs
+   */
+  async publish(sessionId: string, chart: ChartData, title: string): Promise<ChartImageLink> {
+    this.prune();
+    const token = randomBytes(18).toString('base64url');
+    const expiresAt = Date.now() + this.ttlMs;
+    this.charts.set(token, { sessionId, chart, title, expiresAt });
+
+    const base = `${this.publicBaseUrl}/api/charts/${token}`;
+    return {
+      url: `${base}.svg`,
+      ...(await this.loadRasterizer() && { pngUrl: `${base}.png` }),
+      title,
+      expiresAt: new Date(expiresAt).toISOString(),
+    };
+  }
+
+  /**
+   * Chart behind an image token, unless it expired. A requesting session,
+   * when known, must be the one that made the chart.
+   */
+  getChart(token: string, requesterSessionId?: string): StoredChart | null {
+    const stored = this.charts.get(token);
+    if (!stored) return null;
+
+    if (stored.expiresAt <= Date.now()) {
+      this.charts.delete(token);
+      return null;
+    }
+    if (requesterSessionId && requesterSessionId !== stored.sessionId) {
+      return null;
+    }
+    return stored;
+  }
+
+  /**
+   * Image of a chart. PNG needs the optional rasterizer package.
+   */
+  async render(
+    chart: ChartData,
+    format: ChartImageFormat,
+    options: ChartRenderOptions = {}
+  ): Promise<ChartImage | { error: string }> {
+    const width = Math.min(Math.max(options.width ?? CHART_IMAGES.WIDTH, CHART_IMAGES.MIN_SIZE), CHART_IMAGES.MAX_SIZE);
+    const height = Math.min(Math.max(options.height ?? CHART_IMAGES.HEIGHT, CHART_IMAGES.MIN_SIZE), CHART_IMAGES.MAX_SIZE);
+    const svg = renderChartSvg(chart, { ...options, width, height });
+
+    if (format === 'svg') {
+      return { contentType: 'image/svg+xml; charset=utf-8', body: Buffer.from(svg, 'utf8') };
+    }
+
+    const rasterize = await this.loadRasterizer();
+    if (!rasterize) {
+      return { error: `PNG rendering is not available - install ${PNG_MODULE} on the server, or use SVG` };
+    }
+    return { contentType: 'image/png', body: rasterize(svg, width) };
+  }
+
+  /**
+   * Drop every chart of a session (called when the session ends)
+   */
+  evictSession(sessionId: string): void {
+    for (const [token, stored] of this.charts) {
+      if (stored.sessionId === sessionId) this.charts.delete(token);
+    }
+  }
+
+  private loadRasterizer(): Promise<Rasterizer | null> {
+    this.rasterizer ??= import(PNG_MODULE)
+      .then((resvg): Rasterizer => (svg, width) => new resvg.Resvg(svg, {
+        fitTo: { mode: 'width', value: width },
+        font: { loadSystemFonts: true, defaultFontFamily: 'Arial' },
+      }).render().asPng())
+      .catch(() => {
+        console.log(`[Charts] ${PNG_MODULE} not installed - charts render as SVG only`);
+        return null;
+      });
+    return this.rasterizer;
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [token, stored] of this.charts) {
+      if (stored.expiresAt <= now) this.charts.delete(token);
+    }
+  }
+}
@@ -5,6 +5,26 @@
 
 import type { ClarityConfig } from '../types/clarity.js';
 
+export interface PaginationOptions {
+  pageSize?: number;      // Records per request (max 500)
+  concurrency?: number;   // Pages fetched in parallel after the first
+  maxRecords?: number;    // Stop after this many records
+}
+
+export interface ClarityPage<T = Record<string, unknown>> {
+  records: T[];
+  offset: number;
+  totalCount: number;
+}
+
+export interface PaginatedResult<T = Record<string, unknown>> {
+  records: T[];
+  totalCount: number;
+  capped: boolean;        // True when totalCount exceeded maxRecords
+}
+
+type GetFn = (endpoint: string) => Promise<Record<string, unknown> & { _results?: unknown[]; _totalCount?: number }>;
+
 export class ClarityApiClient {
   private baseUrl: string;
   private headers: Record<string, string>;
@@ -48,6 +68,21 @@ export class ClarityApiClient {
     return this.request<T>('DELETE', endpoint);
   }
 
+  /**
+   * Iterate over every page of a collection, following _totalCount.
+   * The endpoint's own limit/offset are replaced.
+   */
+  paginate<T = Record<string, unknown>>(endpoint: string, options?: PaginationOptions): AsyncGenerator<ClarityPage<T>> {
+    return paginateWith<T>(e => this.get(e), endpoint, options);
+  }
+
+  /**
+   * All records of a collection (up to maxRecords)
+   */
+  getAll<T = Record<string, unknown>>(endpoint: string, options?: PaginationOptions): Promise<PaginatedResult<T>> {
+    return collectPages<T>(this.paginate<T>(endpoint, options), options?.maxRecords);
+  }
+
   private async request<T>(
     method: string,
     endpoint: string,
@@ -98,6 +133,81 @@ export class ClarityApiClient {
   }
 }
 
+// ============================================================================
+// PAGINATION
+// ============================================================================
+
+/**
+ * Offset pagination over any GET function, so wrapped clients page the same way.
+ * The first page gives _totalCount; the rest are fetched `concurrency` at a time
+ * and yielded in order.
+ */
+export async function* paginateWith<T = Record<string, unknown>>(
+  get: GetFn,
+  endpoint: string,
+  options?: PaginationOptions
+): AsyncGenerator<ClarityPage<T>> {
+  const pageSize = Math.min(options?.pageSize ?? 500, 500);
+  const concurrency = Math.max(options?.concurrency ?? 4, 1);
+  const maxRecords = options?.maxRecords ?? Infinity;
+
+  const fetchPage = async (offset: number): Promise<ClarityPage<T>> => {
+    const response = await get(withPaging(endpoint, offset, pageSize));
+    const records = (response._results ?? []) as T[];
+    return { records, offset, totalCount: response._totalCount ?? offset + records.length };
+  };
+
+  const first = await fetchPage(0);
+  yield first;
+
+  const target = Math.min(first.totalCount, maxRecords);
+  if (first.records.length < pageSize) return;
+
+  for (let start = pageSize; start < target; start += pageSize * concurrency) {
+    const offsets: number[] = [];
+    for (let offset = start; offset < Math.min(start + pageSize * concurrency, target); offset += pageSize) {
+      offsets.push(offset);
+    }
+
+    const pages = await Promise.all(offsets.map(fetchPage));
+    for (const page of pages) {
+      if (page.records.length === 0) return;
+      yield page;
+    }
+  }
+}
+
+/**
+ * Collect pages into one record list, trimmed to maxRecords
+ */
+export async function collectPages<T>(
+  pages: AsyncIterable<ClarityPage<T>>,
+  maxRecords: number = Infinity
+): Promise<PaginatedResult<T>> {
+  const records: T[] = [];
+  let totalCount = 0;
+
+  for await (const page of pages) {
+    totalCount = page.totalCount;
+    records.push(...page.records);
+  }
+
+  return {
+    records: records.slice(0, maxRecords),
+    totalCount,
+    capped: totalCount > maxRecords,
+  };
+}
+
+function withPaging(endpoint: string, offset: number, limit: number): string {
+  const [path, query = ''] = endpoint.split('?');
+  const params = query
+    .split('&')
+    .filter(param => param && !/^(limit|offset)=/.test(param));
+  params.push(`offset=${offset}`, `limit=${limit}`);
+  return `${path}?${params.join('&')}`;
+}
+
 export function createClarityClient(config?: Partial<ClarityConfig>): ClarityApiClient {
   return new ClarityApiClient({
     baseUrl: config?.baseUrl ?? process.env['CLARITY_BASE_URL'] ?? '',
@@ -0,0 +1,78 @@
+/**
+ * Clarity Call Budget
+ * Caps and records the Clarity calls made during one agent turn.
+ * Wraps a client so every request is counted before it is sent.
+ */
+
+import { paginateWith, collectPages } from './ClarityApiClient.js';
+import type { ClarityApiClient } from './ClarityApiClient.js';
+
+// The request surface of ClarityApiClient
+export type ClarityRequester = Pick<ClarityApiClient, 'get' | 'post' | 'patch' | 'delete' | 'paginate' | 'getAll'>;
+
+export class CallBudgetExceededError extends Error {
+  constructor(maxCalls: number) {
+    super(`Clarity call budget of ${maxCalls} calls for this turn is used up`);
+    this.name = 'CallBudgetExceededError';
+  }
+}
+
+export class ClarityCallBudget {
+  readonly maxCalls: number;
+  private calls: string[] = [];
+
+  constructor(maxCalls: number) {
+    this.maxCalls = maxCalls;
+  }
+
+  get used(): number {
+    return this.calls.length;
+  }
+
+  get exhausted(): boolean {
+    return this.calls.length >= this.maxCalls;
+  }
+
+  /**
+   * Calls recorded so far, as "METHOD /endpoint"
+   */
+  getCalls(): string[] {
+    return [...this.calls];
+  }
+
+  /**
+   * Client that spends from this budget on every request
+   */
+  wrap(client: ClarityApiClient): ClarityRequester {
+    const get: ClarityApiClient['get'] = endpoint => {
+      this.spend('GET', endpoint);
+      return client.get(endpoint);
+    };
+
+    // Pages go through the counted get, so each page spends one call
+    return {
+      get,
+      paginate: (endpoint, options) => paginateWith(get, endpoint, options),
+      getAll: (endpoint, options) => collectPages(paginateWith(get, endpoint, options), options?.maxRecords),
+      post: (endpoint, body) => {
+        this.spend('POST', endpoint);
+        return client.post(endpoint, body);
+      },
+      patch: (endpoint, body) => {
+        this.spend('PATCH', endpoint);
+        return client.patch(endpoint, body);
+      },
+      delete: endpoint => {
+        this.spend('DELETE', endpoint);
+        return client.delete(endpoint);
+      },
+    };
+  }
+
+  private spend(method: string, endpoint: string): void {
+    if (this.exhausted) {
+      throw new CallBudgetExceededError(this.maxCalls);
+    }
+    this.calls.push(`${method} ${endpoint}`);
+  }
+}
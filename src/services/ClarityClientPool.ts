@@ -0,0 +1,167 @@
+/**
+ * Clarity Client Pool
+ * Holds one ClarityApiClient per session, built from the user's own Clarity
+ * credentials (JSESSIONID or token), so Clarity's row-level security applies.
+ *
+ * - Clients are created lazily and reused while the session is active
+ * - Least recently used clients are dropped when the pool is full
+ * - Idle clients are dropped after a timeout (credentials are kept)
+ * - Ending a session removes its client and credentials
+ * - Sessions without credentials are refused; the service account is used only
+ *   when the fallback is enabled, or for sessions that are marked to use it
+ */
+
+import type { ClarityConfig } from '../types/clarity.js';
+import { ClarityApiClient } from './ClarityApiClient.js';
+
+export interface ClarityCredentials {
+  sessionId?: string;   // Clarity JSESSIONID
+  authToken?: string;   // Clarity bearer token
+}
+
+export class MissingCredentialsError extends Error {
+  constructor(sessionId: string) {
+    super(`No Clarity credentials for session ${sessionId}. Create the session with clarityCredentials to query Clarity as yourself.`);
+    this.name = 'MissingCredentialsError';
+  }
+}
+
+interface PooledClient {
+  client: ClarityApiClient;
+  lastUsed: number;
+}
+
+export class ClarityClientPool {
+  private readonly baseConfig: ClarityConfig;
+  private readonly serviceClient: ClarityApiClient;
+  private readonly maxClients: number;
+  private readonly idleTimeoutMs: number;
+  private readonly allowServiceAccountFallback: boolean;
+
+  private credentials: Map<string, ClarityCredentials> = new Map();
+  private serviceAccountSessions: Set<string> = new Set();
+  private clients: Map<string, PooledClient> = new Map();
+
+  constructor(
+    baseConfig: ClarityConfig,
+    serviceClient: ClarityApiClient,
+    options?: {
+      maxClients?: number;
+      idleTimeoutMs?: number;
+      allowServiceAccountFallback?: boolean;
+    }
+  ) {
+    this.baseConfig = baseConfig;
+    this.serviceClient = serviceClient;
+    this.maxClients = options?.maxClients ?? 200;
+    this.idleTimeoutMs = options?.idleTimeoutMs ?? 30 * 60 * 1000;
+    this.allowServiceAccountFallback = options?.allowServiceAccountFallback ?? false;
+  }
+
+  /**
+   * Attach Clarity credentials to a session (replaces any existing client)
+   */
+  setCredentials(sessionId: string, credentials: ClarityCredentials): void {
+    if (!credentials.sessionId && !credentials.authToken) {
+      return;
+    }
+    this.credentials.set(sessionId, credentials);
+    this.clients.delete(sessionId);
+    console.log(`[ClientPool] Credentials set for session ${sessionId}`);
+  }
+
+  /**
+   * Let a session use the service account, e.g. the stdio session of a desktop
+   * client run by the account's owner
+   */
+  useServiceAccount(sessionId: string): void {
+    this.serviceAccountSessions.add(sessionId);
+  }
+
+  hasCredentials(sessionId: string): boolean {
+    return this.credentials.has(sessionId);
+  }
+
+  /**
+   * Client for a session. Throws MissingCredentialsError for a session without
+   * credentials, unless it may use the service account.
+   */
+  getClient(sessionId: string): ClarityApiClient {
+    const pooled = this.clients.get(sessionId);
+    if (pooled) {
+      pooled.lastUsed = Date.now();
+      // Re-insert to keep Map order = least recently used first
+      this.clients.delete(sessionId);
+      this.clients.set(sessionId, pooled);
+      return pooled.client;
+    }
+
+    const credentials = this.credentials.get(sessionId);
+    if (!credentials) {
+      if (this.allowServiceAccountFallback || this.serviceAccountSessions.has(sessionId)) {
+        return this.serviceClient;
+      }
+      throw new MissingCredentialsError(sessionId);
+    }
+
+    const client = new ClarityApiClient({
+      baseUrl: this.baseConfig.baseUrl,
+      timeout: this.baseConfig.timeout,
+      maxRetries: this.baseConfig.maxRetries,
+      sessionId: credentials.sessionId,
+      authToken: credentials.authToken,
+    });
+
+    this.clients.set(sessionId, { client, lastUsed: Date.now() });
+    this.evictOverflow();
+
+    return client;
+  }
+
+  /**
+   * Remove a session's client and credentials
+   */
+  evict(sessionId: string): void {
+    const hadEntry = this.credentials.delete(sessionId);
+    this.serviceAccountSessions.delete(sessionId);
+    this.clients.delete(sessionId);
+    if (hadEntry) {
+      console.log(`[ClientPool] Evicted session ${sessionId}`);
+    }
+  }
+
+  /**
+   * Drop idle clients, and everything for sessions that are no longer active
+   */
+  prune(isSessionActive: (sessionId: string) => boolean): void {
+    const now = Date.now();
+
+    for (const sessionId of Array.from(this.credentials.keys())) {
+      if (!isSessionActive(sessionId)) {
+        this.evict(sessionId);
+      }
+    }
+
+    for (const [sessionId, pooled] of Array.from(this.clients.entries())) {
+      if (now - pooled.lastUsed > this.idleTimeoutMs) {
+        this.clients.delete(sessionId);
+      }
+    }
+  }
+
+  getStats(): { sessionsWithCredentials: number; activeClients: number; maxClients: number } {
+    return {
+      sessionsWithCredentials: this.credentials.size,
+      activeClients: this.clients.size,
+      maxClients: this.maxClients,
+    };
+  }
+
+  private evictOverflow(): void {
+    while (this.clients.size > this.maxClients) {
+      const oldest = this.clients.keys().next().value;
+      if (oldest === undefined) break;
+      this.clients.delete(oldest);
+    }
+  }
+}
@@ -6,7 +6,9 @@
 import type { 
   ConversationContext, 
   ConversationTurn, 
+  CreateDraft,
   DrillDownRequest,
+  ChartBucket,
 } from '../types/context.js';
 
 export class ContextService {
@@ -19,6 +21,9 @@ export class ContextService {
   
   // Context expiry time (30 minutes)
   private readonly CONTEXT_EXPIRY_MS = 30 * 60 * 1000;
+  
+  // How long an unfinished create waits for its missing fields (10 minutes)
+  private readonly CREATE_DRAFT_EXPIRY_MS = 10 * 60 * 1000;
 
   /**
    * Get or create a context for a session
@@ -99,6 +104,33 @@ export class ContextService {
     this.contexts.set(sessionId, context);
   }
 
+  /**
+   * Keep a record being created until its required fields are given
+   */
+  setCreateDraft(sessionId: string, draft: CreateDraft): void {
+    const context = this.getContext(sessionId);
+    context.createDraft = draft;
+    this.contexts.set(sessionId, context);
+  }
+
+  /**
+   * The session's unfinished create, unless it expired
+   */
+  getCreateDraft(sessionId: string): CreateDraft | null {
+    const context = this.getContext(sessionId);
+    if (!context.createDraft) return null;
+    
+    if (Date.now() - new Date(context.createDraft.timestamp).getTime() > this.CREATE_DRAFT_EXPIRY_MS) {
+      delete context.createDraft;
+      return null;
+    }
+    return context.createDraft;
+  }
+
+  clearCreateDraft(sessionId: string): void {
+    delete this.getContext(sessionId).createDraft;
+  }
+
   /**
    * Check if user is doing a follow-up on previous chart/query
    */
@@ -110,6 +142,22 @@ export class ContextService {
     );
   }
 
+  /**
+   * Check if the last reply was a record table whose columns can be changed
+   */
+  hasTable(sessionId: string): boolean {
+    const context = this.getContext(sessionId);
+    return !!context.lastQuery?.table?.columns.length;
+  }
+
+  /**
+   * Check if the last reply was a record list that can be paged through
+   */
+  canPage(sessionId: string): boolean {
+    const context = this.getContext(sessionId);
+    return !!(context.lastQuery?.cursor && context.lastQuery?.table);
+  }
+
   /**
    * Get available drill-down values from last chart
    */
@@ -127,7 +175,37 @@ export class ContextService {
    * Find matching drill-down value from user message
    */
   findDrillDownMatch(sessionId: string, userValue: string): string | null {
-    const options = this.getDrillDownOptions(sessionId);
+    return this.matchOption(this.getDrillDownOptions(sessionId), userValue);
+  }
+
+  /**
+   * Column values of the last pivot (empty when the last chart was not a pivot)
+   */
+  getDrillDownColumnOptions(sessionId: string): string[] {
+    const context = this.getContext(sessionId);
+    return context.lastQuery?.pivot?.columns.map(item => item.label) ?? [];
+  }
+
+  /**
+   * Find matching pivot column value from user message
+   */
+  findDrillDownColumnMatch(sessionId: string, userValue: string): string | null {
+    return this.matchOption(this.getDrillDownColumnOptions(sessionId), userValue);
+  }
+
+  /**
+   * Value of one pivot cell of the last chart
+   */
+  getPivotCell(sessionId: string, rowLabel: string, columnLabel: string): number | null {
+    const pivot = this.getContext(sessionId).lastQuery?.pivot;
+    if (!pivot) return null;
+
+    const row = pivot.rows.findIndex(item => item.label === rowLabel);
+    const column = pivot.columns.findIndex(item => item.label === columnLabel);
+    return row === -1 || column === -1 ? null : pivot.cells[row]?.[column] ?? null;
+  }
+
+  private matchOption(options: string[], userValue: string): string | null {
     const lowerUserValue = userValue.toLowerCase();
     
     // Exact match
@@ -144,12 +222,33 @@ export class ContextService {
     return null;
   }
 
+  /**
+   * Lookup code behind a drill-down value from the last chart, if it has one
+   */
+  getDrillDownCode(sessionId: string, label: string): string | null {
+    return this.getDrillDownBucket(sessionId, label)?.code ?? null;
+  }
+
+  /**
+   * Bucket of the last chart with this label
+   */
+  getDrillDownBucket(sessionId: string, label: string): ChartBucket | null {
+    const context = this.getContext(sessionId);
+    if (!context.lastQuery?.chartData || !context.lastQuery?.groupByField) {
+      return null;
+    }
+    
+    const chartData = context.lastQuery.chartData[context.lastQuery.groupByField];
+    return chartData?.find(item => item.label === label) ?? null;
+  }
+
   /**
    * Build drill-down request from context
    */
   buildDrillDownRequest(
     sessionId: string, 
-    selectedValue: string
+    selectedValue: string,
+    columnValue?: string
   ): DrillDownRequest | null {
     const context = this.getContext(sessionId);
     
@@ -157,11 +256,28 @@ export class ContextService {
       return null;
     }
     
-    return {
+    const request: DrillDownRequest = {
       fromField: context.lastQuery.groupByField,
       selectedValue,
+      selectedCode: this.getDrillDownCode(sessionId, selectedValue) ?? undefined,
       objectType: context.lastQuery.objectType,
+      measure: context.lastQuery.measure,
     };
+    
+    const bucket = this.getDrillDownBucket(sessionId, selectedValue);
+    if (bucket?.from && bucket.to) {
+      request.selectedRange = { from: bucket.from, to: bucket.to };
+    }
+    
+    // A pivot cell filters on the column field as well
+    const pivot = context.lastQuery.pivot;
+    if (pivot && columnValue) {
+      request.columnField = pivot.columnField;
+      request.columnValue = columnValue;
+      request.columnCode = pivot.columns.find(item => item.label === columnValue)?.code;
+    }
+    
+    return request;
   }
 
   /**
@@ -231,7 +347,11 @@ export class ContextService {
     if (context.currentPage) {
       parts.push(`Current page: ${context.currentPage.objectType}${context.currentPage.recordName ? ` - ${context.currentPage.recordName}` : ''}`);
     }
-    
+
+    if (context.createDraft) {
+      parts.push(`Creating a ${context.createDraft.objectLabel}, waiting for: ${context.createDraft.missing.join(', ')}`);
+    }
+
     // Add recent history summary
     if (context.history.length > 0) {
       const recentUserMessages = context.history
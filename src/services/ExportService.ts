@@ -0,0 +1,197 @@
+/**
+ * Export Service
+ * Turns the last record list or chart of a session into a CSV, XLSX or JSON
+ * file and serves it from a short-lived download URL.
+ *
+ * - Record lists are read again in full (paginated), not just the page shown
+ * - Charts export their groups; pivots export the cross-tab
+ * - Download tokens are random, expire after a few minutes and belong to the
+ *   session that made them (dropped when it ends)
+ */
+
+import { randomBytes } from 'node:crypto';
+import type { ClarityRequester } from './ClarityCallBudget.js';
+import type { ConversationContext, TableBlock, TableColumn } from '../types/context.js';
+import { buildTable, cursorEndpoint } from '../query/TableBuilder.js';
+import { describeMeasure } from '../query/ChartBuckets.js';
+import { renderExport, type ExportFile, type ExportFormat } from '../query/ExportFormats.js';
+import { EXPORT_LIMITS } from '../constants.js';
+
+type LastQuery = NonNullable<ConversationContext['lastQuery']>;
+
+export interface ExportLink {
+  url: string;
+  filename: string;
+  format: ExportFormat;
+  rows: number;
+  totalCount: number;
+  capped: boolean;          // The result set had more records than an export holds
+  expiresAt: string;
+}
+
+export interface StoredExport {
+  sessionId: string;
+  file: ExportFile;
+  expiresAt: number;
+}
+
+export class ExportService {
+  private exports: Map<string, StoredExport> = new Map();
+  private readonly publicBaseUrl: string;
+  private readonly ttlMs: number;
+
+  constructor(options?: { publicBaseUrl?: string; ttlMs?: number }) {
+    this.publicBaseUrl = (options?.publicBaseUrl ?? '').replace(/\/+$/, '');
+    this.ttlMs = options?.ttlMs ?? EXPORT_LIMITS.TTL_MS;
+  }
+
+  /**
+   * Export what the session looked at last. Record lists are re-read with
+   * the session's client; charts are exported from the context.
+   */
+  async exportLastQuery(
+    sessionId: string,
+    lastQuery: ConversationContext['lastQuery'],
+    client: Pick<ClarityRequester, 'getAll'>,
+    format: ExportFormat
+  ): Promise<ExportLink | { error: string }> {
+    if (!lastQuery) {
+      return { error: 'Nothing to export yet. List records or create a chart first.' };
+    }
+
+    const collected = await this.collectTable(lastQuery, client);
+    if ('error' in collected) {
+      return collected;
+    }
+
+    const name = lastQuery.groupByDisplayName && lastQuery.chartData
+      ? `${lastQuery.objectLabel} by ${lastQuery.groupByDisplayName}`
+      : lastQuery.objectLabel;
+    const file = renderExport(collected.table, format, `${name} ${new Date().toISOString().slice(0, 10)}`);
+
+    this.prune();
+    const token = randomBytes(24).toString('base64url');
+    const expiresAt = Date.now() + this.ttlMs;
+    this.exports.set(token, { sessionId, file, expiresAt });
+
+    console.log(`[Export] ${file.filename}: ${collected.table.rows.length} rows for session ${sessionId}`);
+
+    return {
+      url: `${this.publicBaseUrl}/api/exports/${token}`,
+      filename: file.filename,
+      format,
+      rows: collected.table.rows.length,
+      totalCount: collected.table.totalCount,
+      capped: collected.capped,
+      expiresAt: new Date(expiresAt).toISOString(),
+    };
+  }
+
+  /**
+   * Export behind a download token, unless it expired. A requesting session,
+   * when known, must be the one that made the export.
+   */
+  getDownload(token: string, requesterSessionId?: string): StoredExport | null {
+    const stored = this.exports.get(token);
+    if (!stored) return null;
+
+    if (stored.expiresAt <= Date.now()) {
+      this.exports.delete(token);
+      return null;
+    }
+    if (requesterSessionId && requesterSessionId !== stored.sessionId) {
+      return null;
+    }
+    return stored;
+  }
+
+  /**
+   * Drop every export of a session (called when the session ends)
+   */
+  evictSession(sessionId: string): void {
+    for (const [token, stored] of this.exports) {
+      if (stored.sessionId === sessionId) this.exports.delete(token);
+    }
+  }
+
+  // ============================================================================
+  // TABLES
+  // ============================================================================
+
+  private async collectTable(
+    lastQuery: LastQuery,
+    client: Pick<ClarityRequester, 'getAll'>
+  ): Promise<{ table: TableBlock; capped: boolean } | { error: string }> {
+    if (lastQuery.pivot) {
+      return { table: this.pivotTable(lastQuery), capped: false };
+    }
+
+    const buckets = lastQuery.groupByField ? lastQuery.chartData?.[lastQuery.groupByField] : undefined;
+    if (buckets) {
+      return { table: this.chartTable(lastQuery, buckets), capped: false };
+    }
+
+    if (lastQuery.table && lastQuery.cursor) {
+      const columns = lastQuery.table.columns;
+      const result = await client.getAll(
+        cursorEndpoint(lastQuery.cursor, columns.map(c => c.field)),
+        { maxRecords: EXPORT_LIMITS.MAX_RECORDS }
+      );
+      return {
+        table: buildTable(lastQuery.objectType, columns, result.records, result.totalCount),
+        capped: result.capped,
+      };
+    }
+
+    // Joined rows are not re-read; the rows already collected are exported
+    if (lastQuery.table && lastQuery.results) {
+      const rows = lastQuery.results;
+      return { table: buildTable(lastQuery.objectType, lastQuery.table.columns, rows, rows.length), capped: false };
+    }
+
+    return { error: 'The last answer has no records or chart to export.' };
+  }
+
+  private chartTable(lastQuery: LastQuery, buckets: NonNullable<LastQuery['chartData']>[string]): TableBlock {
+    const measure = lastQuery.measure;
+    const columns: TableColumn[] = [
+      { field: lastQuery.groupByField!, displayName: lastQuery.groupByDisplayName ?? lastQuery.groupByField!, type: 'text' },
+      { field: 'value', displayName: measure ? describeMeasure(measure) : 'Count', type: 'number' },
+      ...(measure ? [{ field: 'count', displayName: 'Records', type: 'number' as const }] : []),
+    ];
+
+    return {
+      objectType: lastQuery.objectType,
+      columns,
+      rows: buckets.map((bucket, index) => ({
+        id: index,
+        cells: [bucket.label, bucket.value, ...(measure ? [bucket.count ?? null] : [])],
+      })),
+      totalCount: buckets.length,
+    };
+  }
+
+  private pivotTable(lastQuery: LastQuery): TableBlock {
+    const pivot = lastQuery.pivot!;
+    const columns: TableColumn[] = [
+      { field: pivot.rowField, displayName: pivot.rowDisplayName, type: 'text' },
+      ...pivot.columns.map(column => ({ field: column.label, displayName: column.label, type: 'number' as const })),
+      { field: 'total', displayName: 'Total', type: 'number' },
+    ];
+
+    const rows = pivot.rows.map((row, r) => ({
+      id: r,
+      cells: [row.label, ...pivot.columns.map((_, c) => pivot.cells[r]?.[c] ?? 0), row.value],
+    }));
+    rows.push({ id: rows.length, cells: ['Total', ...pivot.columns.map(column => column.value), pivot.grandTotal] });
+
+    return { objectType: lastQuery.objectType, columns, rows, totalCount: rows.length };
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [token, stored] of this.exports) {
+      if (stored.expiresAt <= now) this.exports.delete(token);
+    }
+  }
+}
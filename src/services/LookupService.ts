@@ -64,6 +64,27 @@ export class LookupService {
     return null;
   }
 
+  /**
+   * Code for a value that may already be a code or may be a display value
+   */
+  async resolveToCode(lookupType: string, value: string): Promise<string | null> {
+    const values = await this.getLookupValues(lookupType);
+    
+    const byCode = values.find(v => v.code === value);
+    if (byCode) return byCode.code;
+    
+    return this.resolveDisplayToCode(lookupType, value);
+  }
+
+  /**
+   * Code to write for a lookup value (code or display value). A lookup whose
+   * values cannot be listed takes the value as given.
+   */
+  async resolveWriteValue(lookupType: string, value: string): Promise<string | null> {
+    const values = await this.getLookupValues(lookupType);
+    return values.length === 0 ? value : this.resolveToCode(lookupType, value);
+  }
+
   clearCache(): void {
     this.lookupCache.clear();
     this.lookupTimestamps.clear();
@@ -7,6 +7,7 @@ import type {
   ObjectMetadata,
   AttributeMetadata,
   ObjectDescriptor,
+  MetadataRefreshEvent,
 } from '../types/clarity.js';
 
 import { ClarityApiClient } from './ClarityApiClient.js';
@@ -16,6 +17,8 @@ import {
   STANDARD_OBJECTS,
   PRIORITY_FIELDS,
   EXCLUDED_DATA_TYPES,
+  MEASURE_DATA_TYPES,
+  DATE_DATA_TYPES,
 } from '../constants.js';
 
 export class MetadataService {
@@ -23,6 +26,7 @@ export class MetadataService {
   
   // Caches
   private readonly metadataCache = new Map<string, ObjectMetadata>();
+  private readonly metadataTimestamps = new Map<string, number>();
   private readonly objectLabelsCache = new Map<string, string>();
   private readonly labelToResourceCache = new Map<string, string>();
   
@@ -30,11 +34,34 @@ export class MetadataService {
   private discoveredObjects: string[] | null = null;
   private discoveredObjectsTimestamp = 0;
   private customObjectsCache: Array<{ label: string; resourceName: string }> | null = null;
+  
+  // Refresh listeners (e.g. MCP resource notifications)
+  private readonly refreshListeners = new Set<(event: MetadataRefreshEvent) => void>();
 
   constructor(client: ClarityApiClient) {
     this.client = client;
   }
 
+  /**
+   * Subscribe to cache refreshes. Returns an unsubscribe function.
+   */
+  onRefresh(listener: (event: MetadataRefreshEvent) => void): () => void {
+    this.refreshListeners.add(listener);
+    return () => {
+      this.refreshListeners.delete(listener);
+    };
+  }
+
+  private notifyRefresh(event: MetadataRefreshEvent): void {
+    for (const listener of this.refreshListeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('[MetadataService] Refresh listener failed:', error);
+      }
+    }
+  }
+
   async discoverAllObjects(forceRefresh = false): Promise<string[]> {
     const now = Date.now();
 
@@ -87,6 +114,8 @@ export class MetadataService {
 
       console.log(`[MetadataService] Discovered ${this.discoveredObjects.length} objects`);
 
+      this.notifyRefresh({ type: 'objects', objectTypes: this.discoveredObjects });
+
       return this.discoveredObjects;
     } catch (error) {
       console.error('[MetadataService] Discovery failed:', error);
@@ -105,8 +134,14 @@ export class MetadataService {
     return this.customObjectsCache ?? [];
   }
 
-  async getObjectMetadata(objectType: string): Promise<ObjectMetadata> {
-    if (this.metadataCache.has(objectType)) {
+  async getObjectMetadata(objectType: string, forceRefresh = false): Promise<ObjectMetadata> {
+    const cachedAt = this.metadataTimestamps.get(objectType) ?? 0;
+    
+    if (
+      !forceRefresh &&
+      this.metadataCache.has(objectType) &&
+      Date.now() - cachedAt < CACHE_TTL.METADATA
+    ) {
       return this.metadataCache.get(objectType)!;
     }
 
@@ -175,11 +210,18 @@ export class MetadataService {
         attributes,
       };
 
+      const isRefresh = this.metadataCache.has(objectType);
+      
       this.metadataCache.set(objectType, metadata);
+      this.metadataTimestamps.set(objectType, Date.now());
       this.objectLabelsCache.set(objectType, metadata.label);
 
       console.log(`[MetadataService] Loaded ${attributes.length} attributes for ${objectType}`);
 
+      if (isRefresh) {
+        this.notifyRefresh({ type: 'schema', objectType });
+      }
+
       return metadata;
     } catch (error) {
       console.error(`[MetadataService] Failed to get metadata for ${objectType}:`, error);
@@ -187,6 +229,25 @@ export class MetadataService {
     }
   }
 
+  /**
+   * Re-fetch expired caches so refresh listeners fire without waiting for a request
+   */
+  async refreshExpired(): Promise<void> {
+    await this.discoverAllObjects();
+    
+    for (const objectType of Array.from(this.metadataCache.keys())) {
+      try {
+        await this.getObjectMetadata(objectType);
+      } catch {
+        // Logged by getObjectMetadata; keep the stale entry
+      }
+    }
+  }
+
+  getCachedLabel(objectType: string): string | undefined {
+    return this.objectLabelsCache.get(objectType);
+  }
+
   async getObjectLabel(objectType: string): Promise<string> {
     if (this.objectLabelsCache.has(objectType)) {
       return this.objectLabelsCache.get(objectType)!;
@@ -201,12 +262,14 @@ export class MetadataService {
   }
 
   getGroupableFields(metadata: ObjectMetadata): AttributeMetadata[] {
-    const validTypes = ['STRING', 'LOOKUP', 'BOOLEAN', 'NUMBER', 'INTEGER'];
+    const validTypes = ['STRING', 'LOOKUP', 'BOOLEAN', 'NUMBER', 'INTEGER', ...DATE_DATA_TYPES];
     
     return metadata.attributes
       .filter(attr => {
+        const isDate = DATE_DATA_TYPES.includes(attr.dataType);
         if (attr.apiName.startsWith('_') && attr.apiName !== '_internalId') return false;
-        if (attr.isReadOnly && !attr.isLookup) return false;
+        // Read-only dates (created, last updated) still make useful time series
+        if (attr.isReadOnly && !attr.isLookup && !isDate) return false;
         if (!validTypes.includes(attr.dataType) && !attr.isLookup) return false;
         return true;
       })
@@ -223,6 +286,15 @@ export class MetadataService {
       });
   }
 
+  /**
+   * Numeric fields a chart can aggregate (sum, avg, min, max)
+   */
+  getMeasureFields(metadata: ObjectMetadata): AttributeMetadata[] {
+    return metadata.attributes
+      .filter(attr => MEASURE_DATA_TYPES.includes(attr.dataType) && !attr.apiName.startsWith('_'))
+      .sort((a, b) => a.displayName.localeCompare(b.displayName));
+  }
+
   resolveObjectName(nameOrLabel: string): string | null {
     const lower = nameOrLabel.toLowerCase();
     
@@ -0,0 +1,79 @@
+/**
+ * Operation Journal Service
+ * Per-session journal of the writes made from chat, with the state each
+ * record had before, so the last change can be undone.
+ *
+ * - create: the new record's ID (undo deletes it)
+ * - update: old and new values of the changed fields (undo patches them back)
+ * - delete: the whole record as it was read before deleting (undo recreates it)
+ */
+
+import { UNDO_JOURNAL } from '../constants.js';
+
+export type JournalOperation = 'create' | 'update' | 'delete';
+
+// One record touched by an operation
+export interface JournalRecord {
+  recordId: number;
+  recordName: string;
+  before?: Record<string, unknown>;   // update: changed fields; delete: the whole record
+  after?: Record<string, unknown>;    // update: the values written
+}
+
+export interface JournalEntry {
+  sessionId: string;
+  operation: JournalOperation;
+  objectType: string;
+  objectLabel: string;
+  path: string;                       // Collection the records belong to, e.g. /projects/5001/tasks
+  records: JournalRecord[];
+  timestamp: string;
+}
+
+export class OperationJournalService {
+  private journals: Map<string, JournalEntry[]> = new Map();
+  private readonly maxEntries: number;
+
+  constructor(options?: { maxEntries?: number }) {
+    this.maxEntries = options?.maxEntries ?? UNDO_JOURNAL.MAX_ENTRIES;
+  }
+
+  /**
+   * Record a write (timestamp is filled in). The oldest entries fall off.
+   */
+  record(entry: Omit<JournalEntry, 'timestamp'>): JournalEntry {
+    const full: JournalEntry = { ...entry, timestamp: new Date().toISOString() };
+    const journal = this.journals.get(entry.sessionId) ?? [];
+
+    journal.unshift(full);
+    this.journals.set(entry.sessionId, journal.slice(0, this.maxEntries));
+
+    console.log(`[Journal] ${full.operation} ${full.objectType} (${full.records.length} records) session=${full.sessionId}`);
+    return full;
+  }
+
+  /**
+   * The session's most recent write
+   */
+  last(sessionId: string): JournalEntry | null {
+    return this.journals.get(sessionId)?.[0] ?? null;
+  }
+
+  /**
+   * Remove and return the session's most recent write
+   */
+  takeLast(sessionId: string): JournalEntry | null {
+    return this.journals.get(sessionId)?.shift() ?? null;
+  }
+
+  /**
+   * Writes of a session, newest first
+   */
+  list(sessionId: string): JournalEntry[] {
+    return [...(this.journals.get(sessionId) ?? [])];
+  }
+
+  evictSession(sessionId: string): void {
+    this.journals.delete(sessionId);
+  }
+}
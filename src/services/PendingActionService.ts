@@ -0,0 +1,115 @@
+/**
+ * Pending Action Service
+ * Holds updates, bulk updates and deletes until the user confirms them.
+ *
+ * - Each action gets a random one-time token that expires after a few minutes
+ * - A session has at most one pending action; a new one replaces it
+ * - Taking an action removes it, whether or not it then succeeds
+ */
+
+import { randomBytes } from 'node:crypto';
+import { PENDING_ACTIONS } from '../constants.js';
+import type { BulkTarget } from '../query/BulkUpdate.js';
+
+export type PendingActionKind = 'update' | 'delete' | 'bulkUpdate';
+
+// One field of an update, as it is and as it will be
+export interface FieldChange {
+  field: string;
+  displayName: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface PendingAction {
+  token: string;
+  sessionId: string;
+  kind: PendingActionKind;
+  toolId: string;                       // Tool whose permissions are checked again on confirm
+  objectType: string;
+  objectLabel: string;
+  recordId?: number;                    // Single-record actions
+  recordName: string;                   // Bulk update: e.g. "12 Tasks"
+  path?: string;                        // Update and delete: collection holding the record (undo recreates a deleted one there)
+  deepLink?: string;
+  changes: FieldChange[];               // Update: the fields that change; bulk update: before is null; delete: none
+  values?: Record<string, unknown>;     // Update and bulk update: PATCH body
+  records?: BulkTarget[];               // Bulk update: every record it changes
+  expiresAt: number;
+}
+
+// What a client sees of a pending action
+export type PendingActionPreview = Omit<PendingAction, 'sessionId' | 'values' | 'records' | 'expiresAt'> & {
+  recordCount?: number;                 // Bulk update: records it changes
+  expiresAt: string;
+};
+
+export class PendingActionService {
+  private actions: Map<string, PendingAction> = new Map();
+  private readonly ttlMs: number;
+
+  constructor(options?: { ttlMs?: number }) {
+    this.ttlMs = options?.ttlMs ?? PENDING_ACTIONS.TTL_MS;
+  }
+
+  /**
+   * Hold an action for confirmation, replacing any pending action of the session
+   */
+  create(action: Omit<PendingAction, 'token' | 'expiresAt'>): PendingAction {
+    this.discard(action.sessionId);
+
+    const pending: PendingAction = {
+      ...action,
+      token: randomBytes(18).toString('base64url'),
+      expiresAt: Date.now() + this.ttlMs,
+    };
+    this.actions.set(action.sessionId, pending);
+    console.log(`[Pending] ${pending.kind} ${pending.objectType} "${pending.recordName}" awaits confirmation (session ${pending.sessionId})`);
+    return pending;
+  }
+
+  /**
+   * The session's pending action, unless it expired
+   */
+  get(sessionId: string): PendingAction | null {
+    const pending = this.actions.get(sessionId);
+    if (!pending) return null;
+
+    if (pending.expiresAt <= Date.now()) {
+      this.actions.delete(sessionId);
+      return null;
+    }
+    return pending;
+  }
+
+  /**
+   * Remove and return the session's pending action. With a token, the action
+   * must carry it; without one, the session's latest action is taken.
+   */
+  take(sessionId: string, token?: string): PendingAction | null {
+    const pending = this.get(sessionId);
+    if (!pending || (token !== undefined && token !== pending.token)) {
+      return null;
+    }
+    this.actions.delete(sessionId);
+    return pending;
+  }
+
+  /**
+   * Drop the session's pending action (cancelled, replaced or session ended)
+   */
+  discard(sessionId: string): PendingAction | null {
+    const pending = this.get(sessionId);
+    this.actions.delete(sessionId);
+    return pending;
+  }
+
+  preview(action: PendingAction): PendingActionPreview {
+    const { sessionId: _sessionId, values: _values, records, expiresAt, ...visible } = action;
+    return {
+      ...visible,
+      ...(records && { recordCount: records.length }),
+      expiresAt: new Date(expiresAt).toISOString(),
+    };
+  }
+}
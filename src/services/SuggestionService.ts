@@ -33,7 +33,7 @@ export class SuggestionService {
         break;
       
       case 'create':
-        suggestions.push(...this.getCreateSuggestions(context));
+        suggestions.push(...(context.createDraft ? this.getDraftSuggestions() : this.getCreateSuggestions(context)));
         break;
       
       case 'update':
@@ -41,6 +41,10 @@ export class SuggestionService {
         suggestions.push(...this.getModifySuggestions(context));
         break;
       
+      case 'pending':
+        suggestions.push(...this.getPendingSuggestions());
+        break;
+      
       default:
         suggestions.push(...this.getDefaultSuggestions(context));
     }
@@ -185,6 +189,25 @@ export class SuggestionService {
     ];
   }
 
+  /**
+   * Answers to an update or delete waiting for confirmation
+   */
+  private getPendingSuggestions(): Suggestion[] {
+    return [
+      { text: 'Confirm', emoji: '✅', action: 'confirm', priority: 100 },
+      { text: 'Cancel', emoji: '❌', action: 'cancel', priority: 90 },
+    ];
+  }
+
+  /**
+   * While a new record waits for required fields
+   */
+  private getDraftSuggestions(): Suggestion[] {
+    return [
+      { text: 'Cancel', emoji: '❌', action: 'cancel', priority: 100 },
+    ];
+  }
+
   /**
    * Suggestions after update/delete
    */
@@ -0,0 +1,118 @@
+/**
+ * Object Policy
+ * Maps Clarity objects to permission families (projects, tasks, resources,
+ * financials) and strips financial attributes from sessions without access.
+ */
+
+import type { Permission } from './ToolRegistry.js';
+import type { ObjectMetadata, AttributeMetadata } from '../types/clarity.js';
+
+export type ObjectFamily = 'projects' | 'tasks' | 'resources' | 'financials';
+
+// ============================================================================
+// FAMILY DEFINITIONS
+// ============================================================================
+
+export const OBJECT_FAMILIES: Record<ObjectFamily, string[]> = {
+  projects: ['projects', 'investments', 'ideas', 'risks', 'issues', 'changes', 'programs'],
+  tasks: ['tasks', 'assignments'],
+  resources: ['resources', 'timesheets', 'teams', 'roles'],
+  financials: ['costPlans', 'budgetPlans', 'benefitPlans', 'financialPlans', 'transactions', 'chargeCodes'],
+};
+
+// Endpoint path segments that are not Clarity objects
+const NON_OBJECT_SEGMENTS = ['describe'];
+
+// Attribute types that always hold money
+const FINANCIAL_DATA_TYPES = ['MONEY', 'CURRENCY'];
+
+// Attribute names that hold financial data regardless of type
+const FINANCIAL_NAME_PATTERN = /cost|budget|benefit|revenue|npv|roi|irr|capex|opex|spend|financ|billing|currency/i;
+
+// ============================================================================
+// OBJECT POLICY
+// ============================================================================
+
+export class ObjectPolicy {
+  /**
+   * Family an object belongs to, or null for objects outside the families
+   */
+  getObjectFamily(objectType: string): ObjectFamily | null {
+    for (const [family, objects] of Object.entries(OBJECT_FAMILIES)) {
+      if (objects.some(o => o.toLowerCase() === objectType.toLowerCase())) {
+        return family as ObjectFamily;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Object names in an endpoint path, e.g. /projects/{projectId}/tasks → projects, tasks
+   */
+  getPathObjects(endpoint: string): string[] {
+    const path = endpoint.split('?')[0] ?? '';
+    return path
+      .split('/')
+      .filter(segment =>
+        segment &&
+        !/^\d+$/.test(segment) &&
+        !/^\{.*\}$/.test(segment) &&
+        !NON_OBJECT_SEGMENTS.includes(segment)
+      );
+  }
+
+  /**
+   * Check that the permissions include the object's family (admin passes everything)
+   */
+  canAccessFamily(permissions: Permission[], objectType: string): boolean {
+    if (permissions.includes('admin')) return true;
+
+    const family = this.getObjectFamily(objectType);
+    if (!family) return true;
+
+    return permissions.includes(family);
+  }
+
+  isFinancialAttribute(attr: AttributeMetadata): boolean {
+    return FINANCIAL_DATA_TYPES.includes(attr.dataType) || FINANCIAL_NAME_PATTERN.test(attr.apiName);
+  }
+
+  private canSeeFinancials(permissions: Permission[]): boolean {
+    return permissions.includes('admin') || permissions.includes('financials');
+  }
+
+  /**
+   * Metadata with financial attributes removed when the permissions lack financials
+   */
+  filterMetadata(permissions: Permission[], metadata: ObjectMetadata): ObjectMetadata {
+    if (this.canSeeFinancials(permissions)) return metadata;
+
+    return {
+      ...metadata,
+      attributes: metadata.attributes.filter(a => !this.isFinancialAttribute(a)),
+    };
+  }
+
+  /**
+   * Records with financial attributes removed when the permissions lack financials
+   */
+  redactRecords(
+    permissions: Permission[],
+    metadata: ObjectMetadata,
+    records: Array<Record<string, unknown>>
+  ): Array<Record<string, unknown>> {
+    if (this.canSeeFinancials(permissions)) return records;
+
+    const hidden = new Set(
+      metadata.attributes.filter(a => this.isFinancialAttribute(a)).map(a => a.apiName)
+    );
+    if (hidden.size === 0) return records;
+
+    return records.map(record => Object.fromEntries(
+      Object.entries(record).filter(([key]) => !hidden.has(key))
+    ));
+  }
+}
+
+// Export singleton instance
+export const objectPolicy = new ObjectPolicy();
@@ -3,7 +3,8 @@
  * Handles session creation, authentication, and authorization
  */
 
-import { toolRegistry, type Permission, PERMISSION_PRESETS } from './ToolRegistry.js';
+import { toolRegistry, type Permission, PERMISSION_PRESETS, DEFAULT_PERMISSIONS } from './ToolRegistry.js';
+import { objectPolicy } from './ObjectPolicy.js';
 
 export interface SessionConfig {
   sessionId: string;
@@ -34,12 +35,25 @@ export interface SessionInfo {
 export class SessionManager {
   private sessionMetadata: Map<string, Record<string, unknown>> = new Map();
   
+  // Called when a session is ended explicitly (e.g. to drop pooled clients)
+  private endListeners = new Set<(sessionId: string) => void>();
+  
+  /**
+   * Subscribe to session end. Returns an unsubscribe function.
+   */
+  onSessionEnd(listener: (sessionId: string) => void): () => void {
+    this.endListeners.add(listener);
+    return () => {
+      this.endListeners.delete(listener);
+    };
+  }
+  
   /**
    * Create a new session with configuration
    */
   createSession(config: SessionConfig): SessionInfo {
     const permissions = config.permissions ?? 
-      (config.role ? PERMISSION_PRESETS[config.role] : ['read']);
+      (config.role ? PERMISSION_PRESETS[config.role] : DEFAULT_PERMISSIONS);
     
     // Register with tool registry
     const session = toolRegistry.registerSession(
@@ -162,6 +176,12 @@ export class SessionManager {
     reason?: string;
   } {
     if (!toolRegistry.canAccessObject(sessionId, objectType)) {
+      const family = objectPolicy.getObjectFamily(objectType);
+      const permissions = toolRegistry.getEffectivePermissions(sessionId);
+      
+      if (family && !objectPolicy.canAccessFamily(permissions, objectType)) {
+        return { allowed: false, reason: `Access to ${objectType} requires the ${family} permission` };
+      }
       return { allowed: false, reason: `Access denied to object: ${objectType}` };
     }
     
@@ -173,7 +193,13 @@ export class SessionManager {
    */
   endSession(sessionId: string): boolean {
     this.sessionMetadata.delete(sessionId);
-    return toolRegistry.removeSession(sessionId);
+    const removed = toolRegistry.removeSession(sessionId);
+    
+    for (const listener of this.endListeners) {
+      listener(sessionId);
+    }
+    
+    return removed;
   }
   
   /**
@@ -0,0 +1,957 @@
+/**
+ * Tool Executor
+ * Runs registry tools directly against Clarity with structured arguments.
+ * Used by the MCP server, where clients call tools by id instead of chatting.
+ */
+
+import type { ClarityApiClient } from '../services/ClarityApiClient.js';
+import type { ClarityClientPool } from '../services/ClarityClientPool.js';
+import type { MetadataService } from '../services/MetadataService.js';
+import type { LookupService } from '../services/LookupService.js';
+import { ContextService } from '../services/ContextService.js';
+import { DeepLinkService } from '../services/DeepLinkService.js';
+import { ExportService } from '../services/ExportService.js';
+import { ChartImageService, type ChartImage } from '../services/ChartImageService.js';
+import { PendingActionService } from '../services/PendingActionService.js';
+import { EXPORT_FORMATS, type ExportFormat } from '../query/ExportFormats.js';
+import { CHART_TYPES } from '../query/ChartRenderer.js';
+import { toolRegistry, ALL_TOOLS } from './ToolRegistry.js';
+import { objectPolicy } from './ObjectPolicy.js';
+import { filterCompiler } from '../query/FilterCompiler.js';
+import {
+  buildChartBuckets,
+  buildPivot,
+  bucketFilter,
+  resolveMeasure,
+  describeMeasure,
+} from '../query/ChartBuckets.js';
+import type { ObjectMetadata } from '../types/clarity.js';
+import type { FilterNode } from '../types/filter.js';
+import type { PivotData, DateInterval, RecordCursor, ChartData, ChartType } from '../types/context.js';
+import { buildDateSeries } from '../query/DateBuckets.js';
+import { joinRecords, resolveFieldNames, resolveRelation } from '../query/RecordJoiner.js';
+import { resolveSort, toSortParam, topBuckets, topPivotRows, type SortDirection } from '../query/Sorting.js';
+import { buildTable, defaultTableFields, tableColumns, withFields } from '../query/TableBuilder.js';
+import { missingRequired, validateValues, type FieldIssue } from '../query/RecordValues.js';
+import { applyBulkUpdate, selectBulkTargets, type BulkProgress } from '../query/BulkUpdate.js';
+import { ANALYSIS_PAGING, BULK_UPDATES, DATE_DATA_TYPES } from '../constants.js';
+
+export interface ToolExecutionResult {
+  success: boolean;
+  summary: string;
+  data?: unknown;
+  image?: ChartImage;     // Rendered chart, for clients that show images
+  error?: string;
+}
+
+type ToolArgs = Record<string, unknown>;
+
+// ============================================================================
+// TOOL EXECUTOR
+// ============================================================================
+
+export class ToolExecutor {
+  private clientPool: ClarityClientPool;
+  private metadataService: MetadataService;
+  private lookupService: LookupService;
+  private contextService: ContextService;
+  private deepLinkService: DeepLinkService;
+  private exportService: ExportService;
+  private chartImageService: ChartImageService;
+  private pendingActionService: PendingActionService;
+  private bulkUpdateMaxRecords: number;
+
+  constructor(
+    clientPool: ClarityClientPool,
+    metadataService: MetadataService,
+    lookupService: LookupService,
+    clarityBaseUrl: string,
+    options?: {
+      exportService?: ExportService;
+      chartImageService?: ChartImageService;
+      pendingActionService?: PendingActionService;
+      bulkUpdateMaxRecords?: number;
+    }
+  ) {
+    this.clientPool = clientPool;
+    this.metadataService = metadataService;
+    this.lookupService = lookupService;
+    this.contextService = new ContextService();
+    this.deepLinkService = new DeepLinkService(clarityBaseUrl);
+    this.exportService = options?.exportService ?? new ExportService();
+    this.chartImageService = options?.chartImageService ?? new ChartImageService();
+    this.pendingActionService = options?.pendingActionService ?? new PendingActionService();
+    this.bulkUpdateMaxRecords = options?.bulkUpdateMaxRecords ?? BULK_UPDATES.MAX_RECORDS;
+  }
+
+  /**
+   * Execute a tool for a session, enforcing tool and object permissions.
+   * Bulk updates report each record done through `onProgress`.
+   */
+  async execute(
+    toolId: string,
+    args: ToolArgs,
+    sessionId: string,
+    options?: { onProgress?: (progress: BulkProgress) => void }
+  ): Promise<ToolExecutionResult> {
+    if (!ALL_TOOLS.some(t => t.id === toolId)) {
+      return this.failure(`Unknown tool: ${toolId}`);
+    }
+
+    if (!toolRegistry.canUseTool(sessionId, toolId)) {
+      return this.failure(`Insufficient permissions for tool: ${toolId}`);
+    }
+
+    const objectType = this.optionalString(args, 'object');
+    if (objectType && !toolRegistry.canAccessObject(sessionId, objectType)) {
+      return this.failure(`Access denied to object: ${objectType}`);
+    }
+    if (this.optionalString(args, 'project') && !toolRegistry.canAccessObject(sessionId, 'projects')) {
+      return this.failure('Access denied to object: projects');
+    }
+    const related = this.optionalString(args, 'related');
+    if (related && !toolRegistry.canAccessObject(sessionId, related)) {
+      return this.failure(`Access denied to object: ${related}`);
+    }
+
+    try {
+      switch (toolId) {
+        case 'list_records':
+          return await this.listRecords(args, sessionId);
+        case 'join_records':
+          return await this.joinRecords(args, sessionId);
+        case 'count_records':
+          return await this.countRecords(args, sessionId);
+        case 'get_record':
+          return await this.getRecord(args, sessionId);
+        case 'create_chart':
+          return await this.createChart(args, sessionId);
+        case 'drill_down':
+          return await this.drillDown(args, sessionId);
+        case 'get_deep_link':
+          return await this.getDeepLink(args, sessionId);
+        case 'create_record':
+          return await this.createRecord(args, sessionId);
+        case 'update_record':
+          return await this.updateRecord(args, sessionId);
+        case 'bulk_update_records':
+          return await this.bulkUpdateRecords(args, sessionId, options?.onProgress);
+        case 'delete_record':
+          return await this.deleteRecord(args, sessionId);
+        case 'export_data':
+          return await this.exportData(args, sessionId);
+        case 'list_objects':
+          return await this.listObjects();
+        case 'describe_object':
+          return await this.describeObject(args, sessionId);
+        default:
+          return this.failure(`Tool not implemented: ${toolId}`);
+      }
+    } catch (error) {
+      console.error(`[ToolExecutor] ${toolId} failed:`, error);
+      return this.failure(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  // ============================================================================
+  // QUERY TOOLS
+  // ============================================================================
+
+  private async listRecords(args: ToolArgs, sessionId: string): Promise<ToolExecutionResult> {
+    const objectType = this.requireString(args, 'object');
+    const limit = Math.min(this.optionalNumber(args, 'limit') ?? 20, 500);
+    const filter = this.optionalObject(args, 'filter') as FilterNode | undefined;
+
+    const metadata = await this.getMetadata(objectType, sessionId);
+    const resolvedSort = resolveSort(
+      metadata.attributes,
+      this.optionalString(args, 'sortBy'),
+      this.optionalString(args, 'sortDirection')
+    );
+    if ('error' in resolvedSort) {
+      return this.failure(resolvedSort.error);
+    }
+    const sort = resolvedSort.sort;
+
+    const requestedFields = this.optionalString(args, 'fields')?.split(',').map(f => f.trim()).filter(Boolean);
+    const fields = requestedFields
+      ? resolveFieldNames(metadata.attributes, requestedFields, objectType)
+      : { fields: defaultTableFields(metadata.attributes, sort ? [sort.field] : []) };
+    if ('error' in fields) {
+      return this.failure(fields.error);
+    }
+    const columns = tableColumns(metadata.attributes, fields.fields);
+
+    const cursor: RecordCursor = {
+      path: await this.objectPath(args, sessionId),
+      filterParam: filter ? await this.buildFilterParam(objectType, filter, sessionId) : undefined,
+      sortParam: sort ? toSortParam(sort) : undefined,
+      offset: 0,
+      pageSize: limit,
+    };
+
+    let endpoint = `${cursor.path}?limit=${limit}`;
+    if (cursor.filterParam) {
+      endpoint += `&${cursor.filterParam}`;
+    }
+    if (cursor.sortParam) {
+      endpoint += `&${cursor.sortParam}`;
+    }
+    if (requestedFields) {
+      endpoint = withFields(endpoint, fields.fields);
+    }
+
+    const response = await this.clientFor(sessionId).get<Record<string, unknown>>(endpoint);
+    const records = await this.redact(
+      sessionId, objectType, (response._results ?? []) as Array<Record<string, unknown>>
+    );
+    const totalCount = (response._totalCount as number) ?? records.length;
+    const label = await this.metadataService.getObjectLabel(objectType);
+
+    this.contextService.updateLastQuery(sessionId, {
+      objectType,
+      objectLabel: label,
+      action: 'query',
+      results: records,
+      totalCount,
+      table: { columns },
+      cursor,
+      timestamp: new Date().toISOString(),
+    });
+
+    const table = buildTable(
+      objectType, columns, records, totalCount, id => this.deepLinkService.generateRecordLink(objectType, id)
+    );
+
+    return {
+      success: true,
+      summary: `${totalCount} ${label} (showing ${records.length}${sort ? `, by ${sort.field} ${sort.direction}` : ''})`,
+      data: { objectType, totalCount, sort, records, table },
+    };
+  }
+
+  private async joinRecords(args: ToolArgs, sessionId: string): Promise<ToolExecutionResult> {
+    const objectType = this.requireString(args, 'object');
+    const relatedObject = this.requireString(args, 'related');
+    const filter = this.optionalObject(args, 'filter') as FilterNode | undefined;
+    const relatedFilter = this.optionalObject(args, 'relatedFilter') as FilterNode | undefined;
+    const list = (name: string) => this.optionalString(args, name)?.split(',').map(f => f.trim()).filter(Boolean);
+
+    const metadata = await this.getMetadata(objectType, sessionId);
+    const relatedMetadata = await this.getMetadata(relatedObject, sessionId);
+
+    const relation = resolveRelation(objectType, relatedObject, metadata.attributes, this.optionalString(args, 'via'));
+    if ('error' in relation) {
+      return this.failure(relation.error);
+    }
+    if (relatedFilter && relation.relation.kind !== 'parent') {
+      return this.failure(`relatedFilter only applies when ${relatedObject} is the parent of ${objectType}`);
+    }
+
+    const defaultFields = ['name', 'code'].filter(f => metadata.attributes.some(a => a.apiName === f));
+    const fields = resolveFieldNames(metadata.attributes, list('fields') ?? defaultFields, objectType);
+    if ('error' in fields) {
+      return this.failure(fields.error);
+    }
+    const relatedFields = resolveFieldNames(relatedMetadata.attributes, list('relatedFields') ?? ['name'], relatedObject);
+    if ('error' in relatedFields) {
+      return this.failure(relatedFields.error);
+    }
+
+    const result = await joinRecords(this.clientFor(sessionId), {
+      object: objectType,
+      relatedObject,
+      relation: relation.relation,
+      fields: fields.fields,
+      relatedFields: relatedFields.fields,
+      filterParam: filter ? await this.buildFilterParam(objectType, filter, sessionId) : undefined,
+      relatedFilterParam: relatedFilter ? await this.buildFilterParam(relatedObject, relatedFilter, sessionId) : undefined,
+      limit: Math.min(this.optionalNumber(args, 'limit') ?? 50, 500),
+    });
+
+    const label = await this.metadataService.getObjectLabel(objectType);
+    this.contextService.updateLastQuery(sessionId, {
+      objectType,
+      objectLabel: label,
+      action: 'join',
+      results: result.rows,
+      totalCount: result.rows.length,
+      timestamp: new Date().toISOString(),
+    });
+
+    return {
+      success: true,
+      summary: `${result.rows.length} ${label} joined with ${relatedObject}${result.truncated ? ' (more match)' : ''}`,
+      data: {
+        objectType,
+        relatedObject,
+        relation: relation.relation,
+        truncated: result.truncated,
+        rows: result.rows,
+      },
+    };
+  }
+
+  private async countRecords(args: ToolArgs, sessionId: string): Promise<ToolExecutionResult> {
+    const objectType = this.requireString(args, 'object');
+    const response = await this.clientFor(sessionId).get<Record<string, unknown>>(
+      `${await this.objectPath(args, sessionId)}?fields=_internalId&limit=1`
+    );
+    const totalCount = (response._totalCount as number) ?? 0;
+    const label = await this.metadataService.getObjectLabel(objectType);
+
+    return {
+      success: true,
+      summary: `${totalCount} ${label}`,
+      data: { objectType, totalCount },
+    };
+  }
+
+  private async getRecord(args: ToolArgs, sessionId: string): Promise<ToolExecutionResult> {
+    const objectType = this.requireString(args, 'object');
+    const id = this.requireString(args, 'id');
+
+    const recordId = await this.resolveRecordId(sessionId, objectType, id);
+    if (recordId === null) {
+      return this.failure(`Could not find ${objectType} "${id}"`);
+    }
+
+    const response = await this.clientFor(sessionId).get<Record<string, unknown>>(`/${objectType}/${recordId}`);
+    const [record] = await this.redact(sessionId, objectType, [response]);
+
+    return {
+      success: true,
+      summary: `${objectType} ${record?.['name'] ?? record?.['code'] ?? recordId}`,
+      data: {
+        objectType,
+        record,
+        deepLink: this.deepLinkService.generateRecordLink(objectType, recordId),
+      },
+    };
+  }
+
+  // ============================================================================
+  // ANALYZE TOOLS
+  // ============================================================================
+
+  private async createChart(args: ToolArgs, sessionId: string): Promise<ToolExecutionResult> {
+    const objectType = this.requireString(args, 'object');
+    const groupBy = this.requireString(args, 'groupBy');
+
+    const columnBy = this.optionalString(args, 'columnBy');
+    const chartType = this.optionalString(args, 'chartType') as ChartType | undefined;
+    if (chartType && !CHART_TYPES.includes(chartType)) {
+      return this.failure(`Unknown chart type "${chartType}". Use one of: ${CHART_TYPES.join(', ')}`);
+    }
+
+    const metadata = await this.getMetadata(objectType, sessionId);
+    const findField = (name: string) => metadata.attributes.find(a =>
+      a.apiName.toLowerCase() === name.toLowerCase() ||
+      a.displayName.toLowerCase() === name.toLowerCase()
+    );
+    const fieldMeta = findField(groupBy);
+
+    if (!fieldMeta) {
+      return this.failure(`Field "${groupBy}" not found in ${metadata.label}`);
+    }
+
+    // A second grouping field turns the chart into a pivot
+    const columnMeta = columnBy ? findField(columnBy) : undefined;
+    if (columnBy && !columnMeta) {
+      return this.failure(`Field "${columnBy}" not found in ${metadata.label}`);
+    }
+    if (columnMeta?.apiName === fieldMeta.apiName) {
+      return this.failure('A pivot needs two different fields');
+    }
+
+    // Date fields chart as a time series
+    const requestedInterval = this.optionalString(args, 'interval') as DateInterval | undefined;
+    const isDate = DATE_DATA_TYPES.includes(fieldMeta.dataType);
+    if (requestedInterval && !isDate) {
+      return this.failure(`"${fieldMeta.displayName}" is not a date field`);
+    }
+    if (isDate && columnMeta) {
+      return this.failure('A date field cannot be combined with columnBy');
+    }
+    const interval = isDate ? requestedInterval ?? 'month' : undefined;
+
+    const limit = this.optionalNumber(args, 'limit');
+    const direction = (this.optionalString(args, 'sortDirection') ?? 'desc') as SortDirection;
+    if (interval && limit !== undefined) {
+      return this.failure('Top-N applies to groups, not to a time series');
+    }
+
+    const resolved = resolveMeasure(
+      this.metadataService.getMeasureFields(metadata),
+      this.optionalString(args, 'measure'),
+      this.optionalString(args, 'aggregate')
+    );
+    if ('error' in resolved) {
+      return this.failure(resolved.error);
+    }
+    const measure = resolved.measure;
+    const fields = [
+      '_internalId',
+      fieldMeta.apiName,
+      ...(columnMeta ? [columnMeta.apiName] : []),
+      ...(measure ? [measure.field] : []),
+    ];
+
+    const { records, totalCount, capped } = await this.clientFor(sessionId).getAll(
+      `/${objectType}?fields=${fields.join(',')}`,
+      {
+        pageSize: ANALYSIS_PAGING.PAGE_SIZE,
+        concurrency: ANALYSIS_PAGING.CONCURRENCY,
+        maxRecords: ANALYSIS_PAGING.MAX_RECORDS,
+      }
+    );
+
+    let pivot: PivotData | undefined = columnMeta
+      ? {
+          rowField: fieldMeta.apiName,
+          rowDisplayName: fieldMeta.displayName,
+          columnField: columnMeta.apiName,
+          columnDisplayName: columnMeta.displayName,
+          ...buildPivot(records, fieldMeta.apiName, columnMeta.apiName, measure),
+        }
+      : undefined;
+    const series = interval ? buildDateSeries(records, fieldMeta.apiName, interval, measure) : undefined;
+    if (series && 'error' in series) {
+      return this.failure(series.error);
+    }
+    let buckets = pivot?.rows ?? series?.buckets ?? buildChartBuckets(records, fieldMeta.apiName, measure);
+
+    // Top-N / bottom-N groups
+    const groupCount = buckets.length;
+    if (limit !== undefined) {
+      const n = Math.max(1, Math.floor(limit));
+      if (pivot) {
+        pivot = topPivotRows(pivot, n, direction);
+        buckets = pivot.rows;
+      } else {
+        buckets = topBuckets(buckets, n, direction);
+      }
+    }
+
+    const label = await this.metadataService.getObjectLabel(objectType);
+
+    this.contextService.updateLastQuery(sessionId, {
+      objectType,
+      objectLabel: label,
+      action: 'analyze',
+      totalCount,
+      groupByField: fieldMeta.apiName,
+      groupByDisplayName: fieldMeta.displayName,
+      chartData: { [fieldMeta.apiName]: buckets },
+      measure,
+      pivot,
+      interval,
+      timestamp: new Date().toISOString(),
+    });
+
+    const coverage = capped ? `, first ${records.length} of ${totalCount} analyzed` : '';
+    const title = measure ? describeMeasure(measure) : label;
+
+    const chart: ChartData = {
+      groupableFields: [fieldMeta.apiName],
+      chartData: { [fieldMeta.apiName]: buckets },
+      fieldMetadata: { [fieldMeta.apiName]: { displayName: fieldMeta.displayName, dataType: fieldMeta.dataType } },
+      chartType: chartType ?? (interval ? 'line'
+        : pivot && (!measure || measure.aggregate === 'sum') ? 'stacked-bar' : undefined),
+      objectType,
+      groupByField: fieldMeta.apiName,
+      measure,
+      pivot,
+      interval,
+    };
+    const chartTitle = `${title} by ${pivot ? `${fieldMeta.displayName} and ${pivot.columnDisplayName}` : fieldMeta.displayName}`;
+    const imageLink = await this.chartImageService.publish(sessionId, chart, chartTitle);
+    const image = await this.chartImageService.render(chart, imageLink.pngUrl ? 'png' : 'svg', { title: chartTitle });
+
+    const groupedBy = pivot
+      ? `${fieldMeta.displayName} and ${pivot.columnDisplayName} (${pivot.rows.length}×${pivot.columns.length}`
+      : interval
+        ? `${fieldMeta.displayName} per ${interval} (${buckets.length} periods`
+        : buckets.length < groupCount
+          ? `${fieldMeta.displayName} (${direction === 'desc' ? 'top' : 'bottom'} ${buckets.length} of ${groupCount} values`
+          : `${fieldMeta.displayName} (${buckets.length} values`;
+
+    return {
+      success: true,
+      summary: `${title} by ${groupedBy}, ${totalCount} records${coverage})`,
+      data: {
+        objectType,
+        groupByField: fieldMeta.apiName,
+        groupByDisplayName: fieldMeta.displayName,
+        measure,
+        totalCount,
+        analyzedCount: records.length,
+        capped,
+        buckets,
+        pivot,
+        interval,
+        undatedCount: series?.undated,
+        image: imageLink,
+      },
+      ...(!('error' in image) && { image }),
+    };
+  }
+
+  private async drillDown(args: ToolArgs, sessionId: string): Promise<ToolExecutionResult> {
+    const value = this.requireString(args, 'value');
+
+    if (!this.contextService.canDrillDown(sessionId)) {
+      return this.failure('No chart to drill into. Call create_chart first.');
+    }
+
+    const matchedValue = this.contextService.findDrillDownMatch(sessionId, value);
+    if (!matchedValue) {
+      const options = this.contextService.getDrillDownOptions(sessionId);
+      return this.failure(`Value "${value}" not in last chart. Options: ${options.join(', ')}`);
+    }
+
+    // A column value picks one cell of a pivot
+    const column = this.optionalString(args, 'column');
+    const matchedColumn = column ? this.contextService.findDrillDownColumnMatch(sessionId, column) : null;
+    if (column && !matchedColumn) {
+      const options = this.contextService.getDrillDownColumnOptions(sessionId);
+      return this.failure(options.length > 0
+        ? `Column "${column}" not in last pivot. Options: ${options.join(', ')}`
+        : 'The last chart is not a pivot; drill down by value only');
+    }
+
+    const request = this.contextService.buildDrillDownRequest(sessionId, matchedValue, matchedColumn ?? undefined)!;
+    const conditions: FilterNode[] = [
+      bucketFilter(request.fromField, matchedValue, request.selectedCode, request.selectedRange),
+    ];
+    const filterLabel: Record<string, string> = { [request.fromField]: matchedValue };
+    if (request.columnField && request.columnValue) {
+      conditions.push(bucketFilter(request.columnField, request.columnValue, request.columnCode));
+      filterLabel[request.columnField] = request.columnValue;
+    }
+
+    const filter = await this.buildFilterParam(
+      request.objectType,
+      conditions.length === 1 ? conditions[0]! : { op: 'and', filters: conditions },
+      sessionId
+    );
+    const fields = ['_internalId', 'name', 'code', 'status', ...(request.measure ? [request.measure.field] : [])];
+    const response = await this.clientFor(sessionId).get<Record<string, unknown>>(
+      `/${request.objectType}?${filter}&fields=${fields.join(',')}&limit=50`
+    );
+    const records = (response._results ?? []) as Array<Record<string, unknown>>;
+    const totalCount = (response._totalCount as number) ?? records.length;
+
+    return {
+      success: true,
+      summary: `${totalCount} records where ${Object.entries(filterLabel).map(([f, v]) => `${f} = "${v}"`).join(' and ')}`,
+      data: {
+        objectType: request.objectType,
+        filter: filterLabel,
+        totalCount,
+        measure: request.measure,
+        measureValue: !request.measure ? undefined : request.columnValue
+          ? this.contextService.getPivotCell(sessionId, matchedValue, request.columnValue)
+          : this.contextService.getDrillDownBucket(sessionId, matchedValue)?.value,
+        records,
+        deepLink: this.deepLinkService.generateFilteredLink(request.objectType, request.fromField, matchedValue),
+      },
+    };
+  }
+
+  private async getDeepLink(args: ToolArgs, sessionId: string): Promise<ToolExecutionResult> {
+    const objectType = this.optionalString(args, 'object') ?? this.contextService.getLastObjectType(sessionId);
+    const id = this.optionalString(args, 'id');
+
+    if (!objectType) {
+      return this.failure('Specify an object type');
+    }
+
+    if (id) {
+      const recordId = await this.resolveRecordId(sessionId, objectType, id);
+      if (recordId === null) {
+        return this.failure(`Could not find ${objectType} "${id}"`);
+      }
+      const url = this.deepLinkService.generateRecordLink(objectType, recordId);
+      return { success: true, summary: url, data: { url } };
+    }
+
+    const url = this.deepLinkService.generateListLink(objectType);
+    return { success: true, summary: url, data: { url } };
+  }
+
+  // ============================================================================
+  // WRITE TOOLS
+  // ============================================================================
+
+  private async createRecord(args: ToolArgs, sessionId: string): Promise<ToolExecutionResult> {
+    const objectType = this.requireString(args, 'object');
+    const name = this.requireString(args, 'name');
+    const values = this.optionalObject(args, 'values') ?? {};
+
+    const metadata = await this.getMetadata(objectType, sessionId);
+    const validated = await validateValues(
+      metadata,
+      { ...values, name },
+      (lookupType, value) => this.lookupService.resolveWriteValue(lookupType, value),
+      { mode: 'create' }
+    );
+    if (validated.issues.length > 0) {
+      return this.invalidValues(validated.issues);
+    }
+
+    const missing = missingRequired(metadata, validated.values);
+    if (missing.length > 0) {
+      return this.failure(`Missing required fields: ${missing.map(a => `${a.displayName} (${a.apiName})`).join(', ')}`);
+    }
+
+    const result = await this.clientFor(sessionId).post(await this.objectPath(args, sessionId), validated.values);
+
+    return {
+      success: true,
+      summary: `Created ${objectType} "${name}" (ID ${result._internalId})`,
+      data: { objectType, id: result._internalId, record: result },
+    };
+  }
+
+  private async updateRecord(args: ToolArgs, sessionId: string): Promise<ToolExecutionResult> {
+    const objectType = this.requireString(args, 'object');
+    const id = this.requireString(args, 'id');
+    const values = this.optionalObject(args, 'values');
+
+    if (!values || Object.keys(values).length === 0) {
+      return this.failure('No values to update');
+    }
+
+    const validated = await validateValues(
+      await this.getMetadata(objectType, sessionId),
+      values,
+      (lookupType, value) => this.lookupService.resolveWriteValue(lookupType, value),
+      { mode: 'update' }
+    );
+    if (validated.issues.length > 0) {
+      return this.invalidValues(validated.issues);
+    }
+
+    const recordId = await this.resolveRecordId(sessionId, objectType, id, await this.objectPath(args, sessionId));
+    if (recordId === null) {
+      return this.failure(`Could not find ${objectType} "${id}"`);
+    }
+
+    const result = await this.clientFor(sessionId).patch(`/${objectType}/${recordId}`, validated.values);
+
+    return {
+      success: true,
+      summary: `Updated ${objectType} ${recordId}: ${Object.keys(validated.values).join(', ')}`,
+      data: { objectType, id: recordId, record: result },
+    };
+  }
+
+  /**
+   * Count and sample the records a filter selects, held under a one-time token;
+   * with `confirm` and that token, set the values on exactly those records
+   */
+  private async bulkUpdateRecords(
+    args: ToolArgs,
+    sessionId: string,
+    onProgress?: (progress: BulkProgress) => void
+  ): Promise<ToolExecutionResult> {
+    const objectType = this.requireString(args, 'object');
+    if (args['confirm'] === true || args['confirm'] === 'true') {
+      return this.applyBulkUpdate(objectType, this.optionalString(args, 'token'), sessionId, onProgress);
+    }
+
+    const filter = this.optionalObject(args, 'filter') as FilterNode | undefined;
+    const values = this.optionalObject(args, 'values');
+
+    if (!filter && !this.optionalString(args, 'project')) {
+      return this.failure('Give a filter or a project to select the records to update');
+    }
+    if (!values || Object.keys(values).length === 0) {
+      return this.failure('No values to update');
+    }
+
+    const metadata = await this.getMetadata(objectType, sessionId);
+    const validated = await validateValues(
+      metadata,
+      values,
+      (lookupType, value) => this.lookupService.resolveWriteValue(lookupType, value),
+      { mode: 'update' }
+    );
+    if (validated.issues.length > 0) {
+      return this.invalidValues(validated.issues);
+    }
+
+    const fields = Object.keys(validated.values);
+    const selection = await selectBulkTargets(this.clientFor(sessionId), {
+      path: await this.objectPath(args, sessionId),
+      filterParam: filter ? await this.buildFilterParam(objectType, filter, sessionId) : undefined,
+      fields,
+      nameFields: ['name', 'code'].filter(field => metadata.attributes.some(a => a.apiName === field)),
+      maxRecords: this.bulkUpdateMaxRecords,
+    });
+    if (selection.overLimit) {
+      return this.failure(
+        `${selection.totalCount} ${objectType} records match, more than the ${this.bulkUpdateMaxRecords} one bulk update may change; narrow the filter`
+      );
+    }
+
+    const displayName = (field: string) => metadata.attributes.find(a => a.apiName === field)?.displayName ?? field;
+    const pending = this.pendingActionService.create({
+      sessionId,
+      kind: 'bulkUpdate',
+      toolId: 'bulk_update_records',
+      objectType,
+      objectLabel: metadata.label,
+      recordName: `${selection.targets.length} ${metadata.pluralLabel}`,
+      changes: fields.map(field => ({ field, displayName: displayName(field), before: null, after: validated.values[field] })),
+      values: validated.values,
+      records: selection.targets,
+    });
+
+    return {
+      success: true,
+      summary: `${selection.targets.length} ${objectType} records would be updated (${fields.join(', ')}); ` +
+        `call again with confirm: true and token: "${pending.token}" to apply`,
+      data: {
+        objectType,
+        count: selection.targets.length,
+        values: validated.values,
+        sample: selection.targets.slice(0, BULK_UPDATES.SAMPLE_SIZE),
+        token: pending.token,
+        expiresAt: new Date(pending.expiresAt).toISOString(),
+      },
+    };
+  }
+
+  /**
+   * Apply the bulk update previewed under `token`, once
+   */
+  private async applyBulkUpdate(
+    objectType: string,
+    token: string | undefined,
+    sessionId: string,
+    onProgress?: (progress: BulkProgress) => void
+  ): Promise<ToolExecutionResult> {
+    if (!token) {
+      return this.failure('confirm needs the token of a preview; call without confirm first');
+    }
+    const pending = this.pendingActionService.take(sessionId, token);
+    if (!pending || pending.kind !== 'bulkUpdate' || pending.objectType !== objectType) {
+      return this.failure('No pending bulk update for this token - it expired, was used or was replaced; preview again');
+    }
+
+    const outcomes = await applyBulkUpdate(this.clientFor(sessionId), objectType, pending.records ?? [], pending.values ?? {}, {
+      concurrency: BULK_UPDATES.CONCURRENCY,
+      onProgress,
+    });
+    const failed = outcomes.filter(outcome => outcome.error);
+    if (outcomes.length > 0 && failed.length === outcomes.length) {
+      return this.failure(`No ${objectType} records were updated:\n` +
+        failed.slice(0, 10).map(outcome => `${outcome.recordName} (${outcome.recordId}): ${outcome.error}`).join('\n'));
+    }
+
+    return {
+      success: true,
+      summary: `Updated ${outcomes.length - failed.length} of ${outcomes.length} ${objectType} records` +
+        (failed.length > 0 ? `; ${failed.length} failed` : ''),
+      data: { objectType, updated: outcomes.length - failed.length, failed: failed.length, records: outcomes },
+    };
+  }
+
+  private async deleteRecord(args: ToolArgs, sessionId: string): Promise<ToolExecutionResult> {
+    const objectType = this.requireString(args, 'object');
+    const id = this.requireString(args, 'id');
+
+    const recordId = await this.resolveRecordId(sessionId, objectType, id, await this.objectPath(args, sessionId));
+    if (recordId === null) {
+      return this.failure(`Could not find ${objectType} "${id}"`);
+    }
+
+    await this.clientFor(sessionId).delete(`/${objectType}/${recordId}`);
+
+    return {
+      success: true,
+      summary: `Deleted ${objectType} ${recordId}`,
+      data: { objectType, id: recordId },
+    };
+  }
+
+  private async exportData(args: ToolArgs, sessionId: string): Promise<ToolExecutionResult> {
+    const format = (this.optionalString(args, 'format') ?? 'csv') as ExportFormat;
+    if (!EXPORT_FORMATS.includes(format)) {
+      return this.failure(`Unknown format "${format}". Use ${EXPORT_FORMATS.join(', ')}`);
+    }
+
+    const lastQuery = this.contextService.getContext(sessionId).lastQuery;
+    const result = await this.exportService.exportLastQuery(sessionId, lastQuery, this.clientFor(sessionId), format);
+    if ('error' in result) {
+      return this.failure(result.error);
+    }
+
+    return {
+      success: true,
+      summary: `Exported ${result.rows} rows to ${result.filename}${result.capped ? ` (first ${result.rows} of ${result.totalCount})` : ''}`,
+      data: result,
+    };
+  }
+
+  // ============================================================================
+  // ADMIN TOOLS
+  // ============================================================================
+
+  private async listObjects(): Promise<ToolExecutionResult> {
+    const objects = await this.metadataService.discoverAllObjects();
+    const customObjects = await this.metadataService.getCustomObjects();
+
+    return {
+      success: true,
+      summary: `${objects.length} objects (${customObjects.length} custom)`,
+      data: { objects, customObjects },
+    };
+  }
+
+  private async describeObject(args: ToolArgs, sessionId: string): Promise<ToolExecutionResult> {
+    const objectType = this.requireString(args, 'object');
+    const metadata = await this.getMetadata(objectType, sessionId);
+    const groupable = this.metadataService.getGroupableFields(metadata).map(a => a.apiName);
+
+    return {
+      success: true,
+      summary: `${metadata.label}: ${metadata.attributes.length} fields`,
+      data: { ...metadata, groupableFields: groupable },
+    };
+  }
+
+  // ============================================================================
+  // HELPER METHODS
+  // ============================================================================
+
+  /**
+   * Clarity client carrying this session's own credentials
+   */
+  private clientFor(sessionId: string): ClarityApiClient {
+    return this.clientPool.getClient(sessionId);
+  }
+
+  /**
+   * Object metadata as the session may see it
+   */
+  private async getMetadata(objectType: string, sessionId: string): Promise<ObjectMetadata> {
+    const metadata = await this.metadataService.getObjectMetadata(objectType);
+    return objectPolicy.filterMetadata(toolRegistry.getEffectivePermissions(sessionId), metadata);
+  }
+
+  /**
+   * Remove fields the session may not see from raw records
+   */
+  private async redact(
+    sessionId: string,
+    objectType: string,
+    records: Array<Record<string, unknown>>
+  ): Promise<Array<Record<string, unknown>>> {
+    const metadata = await this.metadataService.getObjectMetadata(objectType);
+    return objectPolicy.redactRecords(toolRegistry.getEffectivePermissions(sessionId), metadata, records);
+  }
+
+  /**
+   * `filter=` query parameter with lookup display values resolved to codes
+   */
+  private async buildFilterParam(objectType: string, filter: FilterNode, sessionId: string): Promise<string> {
+    const metadata = await this.getMetadata(objectType, sessionId);
+    const resolved = await filterCompiler.resolveLookups(
+      filter,
+      metadata,
+      (lookupType, value) => this.lookupService.resolveToCode(lookupType, value)
+    );
+    return filterCompiler.toQueryParam(resolved, metadata);
+  }
+
+  /**
+   * Collection path for an object, nested under the parent project when one is given
+   */
+  private async objectPath(args: ToolArgs, sessionId: string): Promise<string> {
+    const objectType = this.requireString(args, 'object');
+    const project = this.optionalString(args, 'project');
+    if (!project) return `/${objectType}`;
+
+    const projectId = await this.resolveRecordId(sessionId, 'projects', project);
+    if (projectId === null) {
+      throw new Error(`Project not found: ${project}`);
+    }
+    return `/projects/${projectId}/${objectType}`;
+  }
+
+  /**
+   * Resolve a numeric ID, code, or name to an internal ID, looking names up in
+   * `path` (the object's top-level collection by default). Throws when a name
+   * matches more than one record.
+   */
+  private async resolveRecordId(
+    sessionId: string,
+    objectType: string,
+    idOrCode: string,
+    path = `/${objectType}`
+  ): Promise<number | null> {
+    if (/^\d+$/.test(idOrCode)) {
+      return parseInt(idOrCode, 10);
+    }
+
+    const filter = filterCompiler.toQueryParam(filterCompiler.anyOf([
+      filterCompiler.equals('code', idOrCode),
+      filterCompiler.equals('name', idOrCode),
+    ]));
+    const response = await this.clientFor(sessionId).get<Record<string, unknown>>(
+      `${path}?${filter}&fields=_internalId,name,code&limit=2`
+    );
+    const records = (response._results ?? []) as Array<Record<string, unknown>>;
+    const match = records.length === 1 ? records[0] : records.find(r => r['code'] === idOrCode);
+    if (match) {
+      return match['_internalId'] as number;
+    }
+    if (records.length === 0) return null;
+
+    const candidates = records.map(r => `${r['name'] ?? idOrCode} (${r['code'] ?? r['_internalId']})`);
+    throw new Error(`Several ${objectType} are named "${idOrCode}", use a code: ${candidates.join(', ')}`);
+  }
+
+  private requireString(args: ToolArgs, name: string): string {
+    const value = this.optionalString(args, name);
+    if (!value) {
+      throw new Error(`Missing required parameter: ${name}`);
+    }
+    return value;
+  }
+
+  private optionalString(args: ToolArgs, name: string): string | undefined {
+    const value = args[name];
+    if (value === undefined || value === null || value === '') return undefined;
+    return String(value);
+  }
+
+  private optionalNumber(args: ToolArgs, name: string): number | undefined {
+    const value = args[name];
+    if (value === undefined || value === null || value === '') return undefined;
+    const num = Number(value);
+    return Number.isFinite(num) ? num : undefined;
+  }
+
+  private optionalObject(args: ToolArgs, name: string): Record<string, unknown> | undefined {
+    const value = args[name];
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      return value as Record<string, unknown>;
+    }
+    return undefined;
+  }
+
+  /**
+   * Failure listing the per-field problems of a write payload, one per line
+   */
+  private invalidValues(issues: FieldIssue[]): ToolExecutionResult {
+    return this.failure(issues.map(issue => `${issue.displayName}: ${issue.message}`).join('\n'));
+  }
+
+  private failure(error: string): ToolExecutionResult {
+    return { success: false, summary: error, error };
+  }
+}
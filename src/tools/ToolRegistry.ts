@@ -6,6 +6,14 @@
  * 3. Objects that actually exist in the system
  */
 
+import { objectPolicy } from './ObjectPolicy.js';
+import { FILTER_INPUT_SCHEMA } from '../query/FilterCompiler.js';
+import { AGGREGATE_FUNCTIONS } from '../query/ChartBuckets.js';
+import { DATE_INTERVALS } from '../query/DateBuckets.js';
+import { SORT_DIRECTIONS } from '../query/Sorting.js';
+import { EXPORT_FORMATS } from '../query/ExportFormats.js';
+import { CHART_TYPES } from '../query/ChartRenderer.js';
+
 export interface ToolDefinition {
   id: string;
   name: string;
@@ -21,11 +29,29 @@ export interface ToolDefinition {
 
 export interface ToolParameter {
   name: string;
-  type: 'string' | 'number' | 'boolean' | 'select';
+  type: 'string' | 'number' | 'boolean' | 'select' | 'object';
   required: boolean;
   description: string;
   options?: string[]; // For select type
   default?: string | number | boolean;
+  schema?: Record<string, unknown>; // Full JSON Schema for object types
+}
+
+/**
+ * JSON Schema describing a tool's input, built from its ToolParameters.
+ * Shared by the MCP server and anything else that needs a typed tool contract.
+ */
+export interface ToolInputSchema {
+  type: 'object';
+  properties: Record<string, {
+    type: 'string' | 'number' | 'boolean' | 'object';
+    description: string;
+    enum?: string[];
+    default?: string | number | boolean;
+    additionalProperties?: boolean;
+    [keyword: string]: unknown;
+  }>;
+  required?: string[];
 }
 
 export type Permission = 
@@ -98,9 +124,39 @@ export const ALL_TOOLS: ToolDefinition[] = [
     parameters: [
       { name: 'object', type: 'string', required: true, description: 'Object type to query' },
       { name: 'limit', type: 'number', required: false, description: 'Max records to return', default: 20 },
-      { name: 'filter', type: 'string', required: false, description: 'Filter expression' },
+      {
+        name: 'filter',
+        type: 'object',
+        required: false,
+        description: 'Filter, e.g. {"op":"and","filters":[{"op":"=","field":"status","value":"ACTIVE"},{"op":"between","field":"finishDate","from":"2024-01-01","to":"2024-03-31"}]}',
+        schema: FILTER_INPUT_SCHEMA,
+      },
+      { name: 'project', type: 'string', required: false, description: 'Parent project name or code, for objects under a project such as tasks' },
+      { name: 'sortBy', type: 'string', required: false, description: 'Field to sort by; with limit gives top-N / bottom-N records' },
+      { name: 'sortDirection', type: 'select', required: false, description: 'Sort direction (default: asc)', options: SORT_DIRECTIONS },
+      { name: 'fields', type: 'string', required: false, description: 'Comma-separated fields to show as table columns (default: name, status)' },
     ],
-    examples: ['list projects', 'show all tasks', 'list custom object Y'],
+    examples: ['list projects', 'show all tasks', 'list custom object Y', 'the 5 projects with the latest finish date', 'projects with their manager and finish date'],
+    isAvailable: () => clarityCapabilities.canRead,
+  },
+  {
+    id: 'join_records',
+    name: 'Join Records',
+    description: 'List records of one object combined with fields of a related object: its parent (tasks → projects) or a record one of its fields references',
+    icon: '🧩',
+    category: 'query',
+    requiredPermissions: ['read'],
+    parameters: [
+      { name: 'object', type: 'string', required: true, description: 'Object to list, e.g. tasks' },
+      { name: 'related', type: 'string', required: true, description: 'Related object to pull fields from, e.g. projects' },
+      { name: 'via', type: 'string', required: false, description: 'Field of object that references the related record (not needed for tasks → projects)' },
+      { name: 'fields', type: 'string', required: false, description: 'Comma-separated fields of object (default: name, code)' },
+      { name: 'relatedFields', type: 'string', required: false, description: 'Comma-separated fields of the related object (default: name)' },
+      { name: 'filter', type: 'object', required: false, description: 'Filter on object (same syntax as list_records)', schema: FILTER_INPUT_SCHEMA },
+      { name: 'relatedFilter', type: 'object', required: false, description: 'Filter on the related object (parent joins only)', schema: FILTER_INPUT_SCHEMA },
+      { name: 'limit', type: 'number', required: false, description: 'Max rows to return', default: 50 },
+    ],
+    examples: ['tasks due this week with their project manager', 'risks with their project status'],
     isAvailable: () => clarityCapabilities.canRead,
   },
   {
@@ -112,6 +168,7 @@ export const ALL_TOOLS: ToolDefinition[] = [
     requiredPermissions: ['read'],
     parameters: [
       { name: 'object', type: 'string', required: true, description: 'Object type to count' },
+      { name: 'project', type: 'string', required: false, description: 'Parent project name or code, for objects under a project such as tasks' },
     ],
     examples: ['how many projects', 'count tasks'],
     isAvailable: () => clarityCapabilities.canRead,
@@ -135,15 +192,22 @@ export const ALL_TOOLS: ToolDefinition[] = [
   {
     id: 'create_chart',
     name: 'Create Chart',
-    description: 'Create distribution chart grouped by a field',
+    description: 'Create distribution chart grouped by a field, counting records or aggregating a numeric field',
     icon: '📊',
     category: 'analyze',
     requiredPermissions: ['read', 'analyze'],
     parameters: [
       { name: 'object', type: 'string', required: true, description: 'Object type to analyze' },
       { name: 'groupBy', type: 'string', required: true, description: 'Field to group by' },
+      { name: 'measure', type: 'string', required: false, description: 'Numeric field (NUMBER, INTEGER, MONEY) to aggregate per group' },
+      { name: 'aggregate', type: 'select', required: false, description: 'Aggregate function (default: count, or sum when a measure is given)', options: AGGREGATE_FUNCTIONS },
+      { name: 'columnBy', type: 'string', required: false, description: 'Second field to group by - makes a pivot (cross-tab, stacked bars)' },
+      { name: 'interval', type: 'select', required: false, description: 'Date bucket when groupBy is a date field (default: month) - makes a time series', options: DATE_INTERVALS },
+      { name: 'limit', type: 'number', required: false, description: 'Keep only the N largest groups (pivot: rows) - top-N' },
+      { name: 'sortDirection', type: 'select', required: false, description: 'With limit: desc keeps the largest groups (default), asc the smallest', options: SORT_DIRECTIONS },
+      { name: 'chartType', type: 'select', required: false, description: 'Chart style (default: bar; pivots stack, time series draw lines)', options: CHART_TYPES },
     ],
-    examples: ['show project distribution by status', 'chart tasks by priority'],
+    examples: ['show project distribution by status', 'chart tasks by priority', 'total budget by department', 'projects by status and by department', 'projects started per month'],
     isAvailable: () => clarityCapabilities.canRead,
   },
   {
@@ -154,9 +218,10 @@ export const ALL_TOOLS: ToolDefinition[] = [
     category: 'analyze',
     requiredPermissions: ['read', 'analyze'],
     parameters: [
-      { name: 'value', type: 'string', required: true, description: 'Value to filter by' },
+      { name: 'value', type: 'string', required: true, description: 'Value to filter by (pivot: the row value)' },
+      { name: 'column', type: 'string', required: false, description: 'Pivot column value, to drill into one cell' },
     ],
-    examples: ['show me the active ones', 'drill down to completed'],
+    examples: ['show me the active ones', 'drill down to completed', 'show the active ones in IT'],
     isAvailable: () => clarityCapabilities.canRead,
   },
   
@@ -168,6 +233,10 @@ export const ALL_TOOLS: ToolDefinition[] = [
     icon: '🔗',
     category: 'query',
     requiredPermissions: ['read'],
+    parameters: [
+      { name: 'object', type: 'string', required: false, description: 'Object type (defaults to the last queried object)' },
+      { name: 'id', type: 'string', required: false, description: 'Record ID or code for a record link' },
+    ],
     examples: ['give me a link', 'open in clarity', 'link to project X'],
     isAvailable: () => clarityCapabilities.canRead,
   },
@@ -183,6 +252,8 @@ export const ALL_TOOLS: ToolDefinition[] = [
     parameters: [
       { name: 'object', type: 'string', required: true, description: 'Object type' },
       { name: 'name', type: 'string', required: true, description: 'Record name' },
+      { name: 'values', type: 'object', required: false, description: 'Additional field values keyed by apiName or display name; lookups by code or display value, dates as YYYY-MM-DD or e.g. "next friday"' },
+      { name: 'project', type: 'string', required: false, description: 'Parent project name or code, for objects under a project such as tasks' },
     ],
     examples: ['create project called X', 'add task Y'],
     isAvailable: () => clarityCapabilities.canWrite,
@@ -199,10 +270,36 @@ export const ALL_TOOLS: ToolDefinition[] = [
     parameters: [
       { name: 'object', type: 'string', required: true, description: 'Object type' },
       { name: 'id', type: 'string', required: true, description: 'Record ID or code' },
+      { name: 'values', type: 'object', required: true, description: 'Field values to set, keyed by apiName or display name; lookups by code or display value, null to clear' },
+      { name: 'project', type: 'string', required: false, description: 'Parent project name or code, for objects under a project such as tasks' },
     ],
     examples: ['update project X status', 'change task Y priority'],
     isAvailable: () => clarityCapabilities.canWrite,
   },
+  {
+    id: 'bulk_update_records',
+    name: 'Bulk Update Records',
+    description: 'Set the same field values on every record matching a filter, after a preview of the records affected',
+    icon: '🗂️',
+    category: 'update',
+    requiredPermissions: ['write'],
+    parameters: [
+      { name: 'object', type: 'string', required: true, description: 'Object type' },
+      {
+        name: 'filter',
+        type: 'object',
+        required: false,
+        description: 'Records to update, e.g. {"op":"=","field":"status","value":"ACTIVE"}; a filter or a project is required',
+        schema: FILTER_INPUT_SCHEMA,
+      },
+      { name: 'project', type: 'string', required: false, description: 'Parent project name or code, for objects under a project such as tasks' },
+      { name: 'values', type: 'object', required: true, description: 'Field values to set on every record, keyed by apiName or display name' },
+      { name: 'confirm', type: 'boolean', required: false, description: 'MCP only: apply the update previewed under token; without it only the count, a sample and a token are returned' },
+      { name: 'token', type: 'string', required: false, description: 'MCP only: token returned by the preview, required with confirm' },
+    ],
+    examples: ['set all tasks in project X to 100% complete', 'close every active risk of project Y'],
+    isAvailable: () => clarityCapabilities.canWrite,
+  },
   
   // Delete Tools
   {
@@ -215,6 +312,7 @@ export const ALL_TOOLS: ToolDefinition[] = [
     parameters: [
       { name: 'object', type: 'string', required: true, description: 'Object type' },
       { name: 'id', type: 'string', required: true, description: 'Record ID or code' },
+      { name: 'project', type: 'string', required: false, description: 'Parent project name or code, for objects under a project such as tasks' },
     ],
     examples: ['delete project X', 'remove task Y'],
     isAvailable: () => clarityCapabilities.canDelete,
@@ -224,11 +322,14 @@ export const ALL_TOOLS: ToolDefinition[] = [
   {
     id: 'export_data',
     name: 'Export Data',
-    description: 'Export data to various formats',
+    description: 'Export the last record list or chart in full as a file and return a short-lived download URL',
     icon: '📥',
     category: 'export',
     requiredPermissions: ['read', 'export'],
-    examples: ['export to excel', 'download as CSV'],
+    parameters: [
+      { name: 'format', type: 'select', required: false, description: 'File format (default: csv)', options: EXPORT_FORMATS },
+    ],
+    examples: ['export to excel', 'download as CSV', 'export the chart as JSON'],
     isAvailable: () => clarityCapabilities.canRead,
   },
   
@@ -262,14 +363,99 @@ export const ALL_TOOLS: ToolDefinition[] = [
 // PERMISSION PRESETS
 // ============================================================================
 
+// Object families (projects, tasks, resources, financials) are enforced by ObjectPolicy
 export const PERMISSION_PRESETS: Record<string, Permission[]> = {
-  readonly: ['read'],
-  analyst: ['read', 'analyze', 'export'],
-  editor: ['read', 'analyze', 'write'],
+  readonly: ['read', 'projects', 'tasks'],
+  analyst: ['read', 'analyze', 'export', 'projects', 'tasks', 'resources'],
+  editor: ['read', 'analyze', 'write', 'projects', 'tasks'],
   manager: ['read', 'analyze', 'write', 'export', 'custom_objects', 'projects', 'tasks'],
   admin: ['read', 'analyze', 'write', 'delete', 'export', 'admin', 'custom_objects', 'projects', 'tasks', 'resources', 'financials'],
 };
 
+// Permissions for sessions that were never registered
+export const DEFAULT_PERMISSIONS: Permission[] = PERMISSION_PRESETS['readonly']!;
+
+// ============================================================================
+// INPUT SCHEMAS
+// ============================================================================
+
+/**
+ * Build the JSON Schema for a tool from its parameter list
+ */
+export function buildToolInputSchema(tool: ToolDefinition): ToolInputSchema {
+  const schema: ToolInputSchema = { type: 'object', properties: {} };
+  const required: string[] = [];
+  
+  for (const param of tool.parameters ?? []) {
+    const property: ToolInputSchema['properties'][string] = {
+      type: param.type === 'select' ? 'string' : param.type,
+      description: param.description,
+    };
+    
+    if (param.type === 'select' && param.options) {
+      property.enum = param.options;
+    }
+    if (param.type === 'object') {
+      Object.assign(property, param.schema ?? { additionalProperties: true }, { description: param.description });
+    }
+    if (param.default !== undefined) {
+      property.default = param.default;
+    }
+    
+    schema.properties[param.name] = property;
+    if (param.required) required.push(param.name);
+  }
+  
+  if (required.length > 0) schema.required = required;
+  
+  return schema;
+}
+
+/**
+ * Check tool input against the tool's schema.
+ * Returns the list of problems (empty when the input is valid).
+ */
+export function validateToolInput(tool: ToolDefinition, input: unknown): string[] {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return ['Input must be an object'];
+  }
+  
+  const schema = buildToolInputSchema(tool);
+  const values = input as Record<string, unknown>;
+  const errors: string[] = [];
+  
+  for (const name of schema.required ?? []) {
+    if (values[name] === undefined || values[name] === null || values[name] === '') {
+      errors.push(`Missing required parameter "${name}"`);
+    }
+  }
+  
+  for (const [name, value] of Object.entries(values)) {
+    const property = schema.properties[name];
+    if (!property) {
+      errors.push(`Unknown parameter "${name}"`);
+      continue;
+    }
+    if (value === undefined || value === null) continue;
+    
+    const matchesType = property.type === 'object'
+      ? typeof value === 'object' && !Array.isArray(value)
+      : property.type === 'number'
+        ? typeof value === 'number' && Number.isFinite(value)
+        : typeof value === property.type;
+    if (!matchesType) {
+      errors.push(`Parameter "${name}" must be a ${property.type}`);
+      continue;
+    }
+    
+    if (property.enum && !property.enum.includes(value as string)) {
+      errors.push(`Parameter "${name}" must be one of: ${property.enum.join(', ')}`);
+    }
+  }
+  
+  return errors;
+}
+
 // ============================================================================
 // TOOL REGISTRY CLASS
 // ============================================================================
@@ -396,7 +582,7 @@ export class ToolRegistry {
     }
   ): SessionPermissions {
     const perms = typeof permissions === 'string' 
-      ? PERMISSION_PRESETS[permissions] ?? ['read']
+      ? PERMISSION_PRESETS[permissions] ?? DEFAULT_PERMISSIONS
       : permissions;
     
     const session: SessionPermissions = {
@@ -434,13 +620,19 @@ export class ToolRegistry {
     return session;
   }
   
+  /**
+   * Permissions in effect for a session (defaults for unknown sessions)
+   */
+  getEffectivePermissions(sessionId: string): Permission[] {
+    return this.getSessionPermissions(sessionId)?.permissions ?? DEFAULT_PERMISSIONS;
+  }
+  
   /**
    * Get tools available for a session
    * Filters by BOTH: permission AND actual API capability
    */
   getAvailableTools(sessionId: string): ToolDefinition[] {
-    const session = this.getSessionPermissions(sessionId);
-    const perms = session?.permissions ?? ['read'];
+    const perms = this.getEffectivePermissions(sessionId);
     
     return ALL_TOOLS.filter(tool => {
       // Check 1: User has required permissions
@@ -462,10 +654,27 @@ export class ToolRegistry {
     return availableTools.some(t => t.id === toolId);
   }
   
+  /**
+   * Permissions a session lacks for a tool (empty if it has them all)
+   */
+  getMissingPermissions(sessionId: string, toolId: string): Permission[] {
+    const tool = ALL_TOOLS.find(t => t.id === toolId);
+    if (!tool) return [];
+    
+    const perms = this.getEffectivePermissions(sessionId);
+    
+    return tool.requiredPermissions.filter(p => !perms.includes(p));
+  }
+  
   /**
    * Check if session can access an object
+   * (object family permission plus the session's allow/deny lists)
    */
   canAccessObject(sessionId: string, objectType: string): boolean {
+    if (!objectPolicy.canAccessFamily(this.getEffectivePermissions(sessionId), objectType)) {
+      return false;
+    }
+    
     const session = this.getSessionPermissions(sessionId);
     
     if (!session) return true;
@@ -549,7 +758,7 @@ export class ToolRegistry {
         category: t.category,
         examples: t.examples ?? [],
       })),
-      permissions: session?.permissions ?? ['read'],
+      permissions: session?.permissions ?? DEFAULT_PERMISSIONS,
       categories: [...new Set(tools.map(t => t.category))],
       capabilities: {
         hasProjects: clarityCapabilities.hasProjects,
@@ -32,6 +32,10 @@ export interface ObjectDescriptor {
   }>;
 }
 
+export type MetadataRefreshEvent =
+  | { type: 'objects'; objectTypes: string[] }
+  | { type: 'schema'; objectType: string };
+
 export interface LookupValue {
   code: string;
   displayValue: string;
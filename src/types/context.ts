@@ -16,7 +16,14 @@ export interface ConversationContext {
     totalCount?: number;
     groupByField?: string;
     groupByDisplayName?: string;
-    chartData?: Record<string, Array<{ label: string; value: number }>>;
+    chartData?: Record<string, ChartBucket[]>;
+    measure?: ChartMeasure;
+    pivot?: PivotData;
+    interval?: DateInterval;
+    table?: {
+      columns: TableColumn[];     // Columns of the last record table
+    };
+    cursor?: RecordCursor;
     timestamp: string;
   };
   
@@ -28,6 +35,9 @@ export interface ConversationContext {
     url?: string;
   };
   
+  // Record being created while required fields are still asked for
+  createDraft?: CreateDraft;
+  
   // Conversation history (last N messages)
   history: ConversationTurn[];
   
@@ -39,6 +49,108 @@ export interface ConversationContext {
   };
 }
 
+// One bar/slice of a distribution chart. Lookup values keep their code,
+// since Clarity filters lookups by code rather than by label.
+export interface ChartBucket {
+  label: string;
+  value: number;        // Record count, or the aggregate when the chart has a measure
+  code?: string;
+  count?: number;       // Records in the bucket (measure charts only)
+  from?: string;        // Time buckets: first day of the period (YYYY-MM-DD)
+  to?: string;          // Time buckets: last day of the period
+}
+
+export type DateInterval = 'day' | 'week' | 'month' | 'quarter' | 'year';
+
+// Cross-tab of two fields. cells[r][c] is the count (or measure aggregate) for
+// rows[r] × columns[c]; row and column buckets hold the totals.
+export interface PivotData {
+  rowField: string;
+  rowDisplayName: string;
+  columnField: string;
+  columnDisplayName: string;
+  rows: ChartBucket[];
+  columns: ChartBucket[];
+  cells: number[][];
+  grandTotal: number;
+}
+
+export type AggregateFunction = 'count' | 'sum' | 'avg' | 'min' | 'max';
+
+// Numeric field aggregated per bucket instead of counting records
+export interface ChartMeasure {
+  field: string;
+  displayName: string;
+  aggregate: Exclude<AggregateFunction, 'count'>;
+}
+
+export type ChartType = 'bar' | 'pie' | 'line' | 'doughnut' | 'horizontal-bar' | 'stacked-bar';
+
+// Chart payload of a response, drawn by the extension or rendered to SVG/PNG
+export interface ChartData {
+  groupableFields: string[];
+  chartData: Record<string, ChartBucket[]>;
+  fieldMetadata: Record<string, { displayName: string; dataType: string }>;
+  chartType?: ChartType;
+  drillDownEnabled?: boolean;
+  objectType?: string;
+  groupByField?: string;
+  // Set when bucket values aggregate a numeric field rather than count records
+  measure?: ChartMeasure;
+  // Cross-tab when the chart groups on two fields
+  pivot?: PivotData;
+  // Date bucket size of a time series (chartType 'line'), buckets in time order
+  interval?: DateInterval;
+  // Records behind the chart; capped when the collection exceeded the analysis limit
+  coverage?: { analyzed: number; total: number; capped: boolean };
+}
+
+// Request behind the last record list, so other pages of it can be read
+export interface RecordCursor {
+  path: string;            // Collection path, e.g. /projects or /projects/5001/tasks
+  filterParam?: string;    // Compiled `filter=` parameter
+  sortParam?: string;      // `sort=` parameter
+  offset: number;          // First record of the page shown
+  pageSize: number;        // Records per page
+}
+
+export type TableColumnType = 'text' | 'number' | 'date' | 'boolean' | 'lookup';
+
+// Column of a record table, labelled with the field's display name
+export interface TableColumn {
+  field: string;
+  displayName: string;
+  type: TableColumnType;
+}
+
+// Cells keep their type: numbers as numbers, dates as YYYY-MM-DD, lookups as
+// their display value, null when the record has no value
+export type TableCell = string | number | boolean | null;
+
+export interface TableRow {
+  id: string | number;   // _internalId of the record
+  cells: TableCell[];    // One per column, in column order
+  link?: string;         // Deep link to the record in Clarity
+}
+
+// Records of a query as a typed table, for clients that render their own grid
+export interface TableBlock {
+  objectType: string;
+  columns: TableColumn[];
+  rows: TableRow[];
+  totalCount: number;    // Matching records; rows may hold fewer
+}
+
+// New record whose required fields are asked for over several messages
+export interface CreateDraft {
+  objectType: string;
+  objectLabel: string;
+  path: string;                         // Collection to create it in, e.g. /projects/5001/tasks
+  values: Record<string, unknown>;      // Converted values so far, keyed by API name
+  missing: string[];                    // API names of the required fields still asked for
+  timestamp: string;
+}
+
 export interface ConversationTurn {
   timestamp: string;
   role: 'user' | 'assistant';
@@ -51,6 +163,12 @@ export interface ConversationTurn {
 export interface DrillDownRequest {
   fromField: string;           // Field that was grouped by
   selectedValue: string;       // The value clicked (e.g., "Active")
+  selectedCode?: string;       // Lookup code behind the value (e.g., "ACTIVE")
+  measure?: ChartMeasure;      // Measure of the chart, if any
+  selectedRange?: { from: string; to: string };  // Date range of a time bucket
+  columnField?: string;        // Pivot column field, when a cell was picked
+  columnValue?: string;        // Pivot column value (e.g., "IT")
+  columnCode?: string;         // Lookup code behind the column value
   objectType: string;          // Object type (e.g., "projects")
   additionalFilters?: Record<string, string>;
 }
@@ -69,6 +187,52 @@ export interface DrillDownResponse {
 
 // Context-aware follow-up patterns
 export const FOLLOW_UP_PATTERNS = {
+  // Answers to a pending update or delete
+  confirm: [
+    /^\s*confirm\s+([\w-]{20,})\s*$/i,                                                // "confirm <token>"
+    /^\s*(?:yes|confirm(?:ed)?|go\s+ahead|do\s+it|apply(?:\s+it)?|proceed)[\s!.]*$/i,   // "yes", "go ahead"
+    /^\s*(?:כן|אשר|אישור|בצע)[\s!.]*$/,                                               // Hebrew: "כן", "אשר"
+  ],
+  cancel: [
+    /^\s*(?:no|cancel|abort|stop|never\s*mind)[\s!.]*$/i,                              // "cancel", "no"
+    /^\s*(?:לא|בטל|ביטול)[\s!.]*$/,                                                   // Hebrew: "בטל"
+  ],
+
+  // Revert the last change made from chat
+  undo: [
+    /^\s*undo(?:\s+(?:that|it|(?:the\s+|my\s+)?last(?:\s+(?:change|action|update|delete))?))?[\s!.]*$/i,  // "undo", "undo the last change"
+    /^\s*revert\s+(?:that|it|(?:the\s+|my\s+)?last\s+(?:change|action))[\s!.]*$/i,                          // "revert the last change"
+    /(?:בטל|החזר)\s*(?:את\s*)?(?:השינוי|הפעולה)\s*(?:האחרון|האחרונה)?/,                                         // Hebrew: "בטל את השינוי האחרון"
+  ],
+
+  // Table columns
+  addColumn: [
+    /(?:add|show|include)\s+(?:the\s+)?columns?\s+(.+)/i,              // "add columns budget and manager"
+    /(?:add|show|include)\s+(?:me\s+)?(?:the\s+)?(.+?)\s+columns?\b/i,  // "add the finish date column"
+    /הוסף\s*(את\s*)?עמודת\s*(.+)/i,                          // Hebrew: "הוסף את עמודת תאריך סיום"
+  ],
+  hideColumn: [
+    /^\s*hide\s+(?:the\s+)?(.+?)(?:\s+columns?)?\s*$/i,       // "hide status"
+    /(?:remove|drop)\s+(?:the\s+)?(.+?)\s+columns?\b/i,        // "remove the status column"
+    /הסתר\s*(את\s*)?(.+)/i,                                    // Hebrew: "הסתר את סטטוס"
+  ],
+
+  // Paging through the last record list
+  nextPage: [
+    /^\s*(?:show\s+)?(?:me\s+)?(?:the\s+)?next\s*(\d+)?\s*(?:page|ones|records)?\s*$/i,  // "show the next 15", "next page"
+    /^\s*(?:show\s+)?(?:me\s+)?(\d+\s+)?more\s*$/i,                                   // "more", "show 10 more"
+    /^\s*(?:העמוד\s+)?(\d+)?\s*ה?ב(?:א|אה|אים)[\s!.]*$/,                             // Hebrew: "הבא", "15 הבאים", "העמוד הבא"
+  ],
+  previousPage: [
+    /^\s*(?:show\s+)?(?:me\s+)?(?:the\s+)?prev(?:ious)?\s*(\d+)?\s*(?:page|ones|records)?\s*$/i,  // "previous page"
+    /^\s*(?:go\s+)?back\s*$/i,                                                                 // "back"
+    /^\s*(?:העמוד\s+)?(\d+)?\s*ה?קוד(?:ם|מת|מים)[\s!.]*$/,                                       // Hebrew: "הקודם", "העמוד הקודם"
+  ],
+  showAll: [
+    /^\s*(?:show|list)\s+(?:me\s+)?(?:them\s+)?all(?:\s+of\s+them|\s+results|\s+records)?\s*$/i,  // "show all", "show them all"
+    /הצג\s*(את\s*)?הכל/i,                                                                        // Hebrew: "הצג הכל"
+  ],
+
   // Drill-down from chart
   showSelected: [
     /show\s*(me\s*)?(the\s*)?(\w+)\s*ones?/i,           // "show me the active ones"
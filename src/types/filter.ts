@@ -0,0 +1,32 @@
+/**
+ * Filter Types
+ * Typed filter expressions that compile to Clarity REST filter syntax
+ */
+
+export type ComparisonOperator = '=' | '!=' | '>' | '<' | '>=' | '<=';
+
+export type FilterValue = string | number | boolean;
+
+export type FilterNode =
+  | { op: 'and' | 'or'; filters: FilterNode[] }
+  | { op: 'not'; filter: FilterNode }
+  | { op: ComparisonOperator; field: string; value: FilterValue }
+  | { op: 'in' | 'notIn'; field: string; values: FilterValue[] }
+  | { op: 'contains' | 'startsWith'; field: string; value: string }
+  | { op: 'isNull' | 'isNotNull'; field: string }
+  // Inclusive range; either end may be left open
+  | { op: 'between'; field: string; from?: FilterValue; to?: FilterValue };
+
+// Filters on a single field (everything but and / or / not)
+export type FieldFilter = Exclude<FilterNode, { filters: FilterNode[] } | { filter: FilterNode }>;
+
+export type FilterOperator = FilterNode['op'];
+
+export const FILTER_OPERATORS: FilterOperator[] = [
+  'and', 'or', 'not',
+  '=', '!=', '>', '<', '>=', '<=',
+  'in', 'notIn',
+  'contains', 'startsWith',
+  'isNull', 'isNotNull',
+  'between',
+];
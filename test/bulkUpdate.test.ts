@@ -0,0 +1,57 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createToolExecutor, type FakeObject } from './helpers/fakeClarity.js';
+
+const SESSION = 'mcp-bulk-update';
+
+const OBJECTS: Record<string, FakeObject> = {
+  risks: {
+    label: 'Risk',
+    pluralLabel: 'Risks',
+    attributes: [
+      { name: '_internalId', displayName: 'Internal ID', dataType: 'NUMBER', isReadOnly: true },
+      { name: 'name', displayName: 'Name', dataType: 'STRING', isRequired: true },
+      { name: 'status', displayName: 'Status', dataType: 'STRING' },
+    ],
+  },
+};
+
+const collections = () => ({
+  '/risks': [
+    { _internalId: 1, name: 'Vendor delay', status: 'OPEN' },
+    { _internalId: 2, name: 'Budget cut', status: 'OPEN' },
+  ],
+});
+
+const BULK = { object: 'risks', filter: { op: '=', field: 'status', value: 'OPEN' }, values: { status: 'CLOSED' } };
+
+test('a confirmed bulk update patches exactly the records its preview selected', async () => {
+  const { executor, clarity } = await createToolExecutor(SESSION, OBJECTS, collections());
+
+  const preview = await executor.execute('bulk_update_records', BULK, SESSION);
+  assert.equal(preview.success, true);
+  const { token, count } = preview.data as { token: string; count: number };
+  assert.equal(count, 2);
+
+  // A record that starts matching after the preview is left alone
+  await clarity.post('/risks', { name: 'Scope creep', status: 'OPEN' });
+  clarity.writes.length = 0;
+
+  const applied = await executor.execute('bulk_update_records', { ...BULK, confirm: true, token }, SESSION);
+  assert.equal(applied.success, true);
+  assert.deepEqual(clarity.writes.map(w => w.endpoint).sort(), ['/risks/1', '/risks/2']);
+
+  const reused = await executor.execute('bulk_update_records', { ...BULK, confirm: true, token }, SESSION);
+  assert.equal(reused.success, false);
+  assert.equal(clarity.writes.length, 2);
+});
+
+test('confirm without a valid token updates nothing', async () => {
+  const { executor, clarity } = await createToolExecutor(`${SESSION}-token`, OBJECTS, collections());
+
+  for (const args of [{ ...BULK, confirm: true }, { ...BULK, confirm: true, token: 'not-a-token' }]) {
+    const result = await executor.execute('bulk_update_records', args, `${SESSION}-token`);
+    assert.equal(result.success, false);
+  }
+  assert.deepEqual(clarity.writes, []);
+});
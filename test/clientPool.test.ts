@@ -0,0 +1,28 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ClarityApiClient } from '../src/services/ClarityApiClient.js';
+import { ClarityClientPool, MissingCredentialsError } from '../src/services/ClarityClientPool.js';
+
+const config = { baseUrl: 'https://clarity.example.com/ppm/rest/v1' };
+
+test('sessions without credentials are refused by default', () => {
+  const service = new ClarityApiClient(config);
+  const pool = new ClarityClientPool(config, service);
+
+  assert.throws(() => pool.getClient('anonymous'), MissingCredentialsError);
+
+  pool.setCredentials('user', { authToken: 'token' });
+  assert.notEqual(pool.getClient('user'), service);
+});
+
+test('the service account is used only when allowed', () => {
+  const service = new ClarityApiClient(config);
+
+  const fallback = new ClarityClientPool(config, service, { allowServiceAccountFallback: true });
+  assert.equal(fallback.getClient('anonymous'), service);
+
+  const pool = new ClarityClientPool(config, service);
+  pool.useServiceAccount('mcp-stdio');
+  assert.equal(pool.getClient('mcp-stdio'), service);
+  assert.throws(() => pool.getClient('other'), MissingCredentialsError);
+});
@@ -0,0 +1,56 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createChatHandler, type FakeObject } from './helpers/fakeClarity.js';
+
+const OBJECTS: Record<string, FakeObject> = {
+  tasks: {
+    label: 'Task',
+    pluralLabel: 'Tasks',
+    attributes: [
+      { name: 'name', displayName: 'Name', dataType: 'STRING', isRequired: true },
+      { name: 'finish', displayName: 'Finish', dataType: 'DATE', isRequired: true },
+      { name: 'phase', displayName: 'Phase', dataType: 'STRING', isRequired: true },
+    ],
+  },
+};
+
+test('an unrelated message does not fill a text field of a waiting create', async () => {
+  const session = 'create-draft-text';
+  const { handler, clarity, planner } = await createChatHandler(session, OBJECTS, { '/tasks': [] });
+
+  planner.callTool('create_record', { object: 'tasks', name: 'Kickoff', values: { finish: '2025-03-01' } });
+  const asked = await handler.handleMessage('create a task Kickoff finishing 2025-03-01', session);
+  assert.match(asked.reply, /please give:[\s\S]*\*\*Phase\*\*/);
+  assert.match(asked.reply, /Reply like "Phase: \.\.\."/);
+
+  await handler.handleMessage('show my tasks', session);
+  assert.deepEqual(clarity.writes, []);
+
+  const created = await handler.handleMessage('Phase: Design', session);
+  assert.equal(created.success, true);
+  assert.deepEqual(clarity.writes, [{
+    method: 'POST',
+    endpoint: '/tasks',
+    body: { name: 'Kickoff', finish: '2025-03-01T00:00:00', phase: 'Design' },
+  }]);
+});
+
+test('a bare reply answers a date field only when it is a date', async () => {
+  const session = 'create-draft-date';
+  const { handler, clarity, planner } = await createChatHandler(session, OBJECTS, { '/tasks': [] });
+
+  planner.callTool('create_record', { object: 'tasks', name: 'Kickoff', values: { phase: 'Design' } });
+  const asked = await handler.handleMessage('create a task called Kickoff in the design phase', session);
+  assert.match(asked.reply, /please give:[\s\S]*\*\*Finish\*\*/);
+
+  await handler.handleMessage('show my tasks', session);
+  assert.deepEqual(clarity.writes, []);
+
+  const created = await handler.handleMessage('2025-04-15', session);
+  assert.equal(created.success, true);
+  assert.deepEqual(clarity.writes, [{
+    method: 'POST',
+    endpoint: '/tasks',
+    body: { name: 'Kickoff', phase: 'Design', finish: '2025-04-15T00:00:00' },
+  }]);
+});
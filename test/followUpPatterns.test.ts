@@ -0,0 +1,19 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { detectFollowUpIntent } from '../src/types/context.js';
+
+test('Hebrew paging commands page through the last list', () => {
+  assert.deepEqual(detectFollowUpIntent('הבא'), { type: 'nextPage', extractedValue: undefined });
+  assert.deepEqual(detectFollowUpIntent('15 הבאים'), { type: 'nextPage', extractedValue: '15' });
+  assert.equal(detectFollowUpIntent('העמוד הבא').type, 'nextPage');
+  assert.equal(detectFollowUpIntent('הקודם').type, 'previousPage');
+  assert.equal(detectFollowUpIntent('העמוד הקודם').type, 'previousPage');
+});
+
+test('Hebrew date phrases are not paging commands', () => {
+  for (const message of ['משימות לשבוע הבא', 'פרויקטים מהחודש הקודם', 'פרויקטים שמתחילים בחודש הבא']) {
+    const { type } = detectFollowUpIntent(message);
+    assert.notEqual(type, 'nextPage', message);
+    assert.notEqual(type, 'previousPage', message);
+  }
+});
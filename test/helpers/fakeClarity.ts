@@ -0,0 +1,216 @@
+/**
+ * In-memory Clarity and planner for tests of the chat handler and MCP tools.
+ *
+ * FakeClarityClient answers the REST calls the server makes: object
+ * descriptions, record lists with simple `=` filters, reads by ID, and writes,
+ * which it applies and records. FakePlanner replays queued tool calls in place
+ * of the model. createChatHandler and createToolExecutor build the real
+ * services on top of them.
+ */
+
+import type Anthropic from '@anthropic-ai/sdk';
+import { AIChatHandler, type PlannerClient } from '../../src/aiChatHandler.js';
+import { ClarityApiClient } from '../../src/services/ClarityApiClient.js';
+import { ClarityClientPool } from '../../src/services/ClarityClientPool.js';
+import { MetadataService } from '../../src/services/MetadataService.js';
+import { LookupService } from '../../src/services/LookupService.js';
+import { toolRegistry } from '../../src/tools/ToolRegistry.js';
+import { ToolExecutor } from '../../src/tools/ToolExecutor.js';
+import { sessionManager } from '../../src/tools/SessionManager.js';
+
+export interface FakeAttribute {
+  name: string;
+  displayName: string;
+  dataType: string;
+  isRequired?: boolean;
+  isReadOnly?: boolean;
+}
+
+export interface FakeObject {
+  label: string;
+  pluralLabel: string;
+  attributes: FakeAttribute[];
+}
+
+export type FakeRecord = Record<string, unknown> & { _internalId: number };
+
+export interface FakeWrite {
+  method: 'POST' | 'PATCH' | 'DELETE';
+  endpoint: string;
+  body?: Record<string, unknown>;
+}
+
+type Response = Record<string, unknown> & { _results?: unknown[]; _totalCount?: number; _internalId?: number };
+
+const CONDITION = /\((\w+) = '((?:[^']|'')*)'\)/g;
+
+export class FakeClarityClient extends ClarityApiClient {
+  readonly writes: FakeWrite[] = [];
+  private readonly objects: Record<string, FakeObject>;
+  private readonly collections: Record<string, FakeRecord[]>;
+  private nextId = 9000;
+
+  /**
+   * `collections` are keyed by path: '/projects', '/projects/5000001/tasks'
+   */
+  constructor(objects: Record<string, FakeObject>, collections: Record<string, FakeRecord[]>) {
+    super({ baseUrl: 'https://clarity.example.com/ppm/rest/v1' });
+    this.objects = objects;
+    this.collections = collections;
+  }
+
+  override async get<T = Record<string, unknown>>(endpoint: string): Promise<T & { _results?: unknown[]; _totalCount?: number }> {
+    return this.read(endpoint) as T & Response;
+  }
+
+  override async post<T = Record<string, unknown>>(endpoint: string, body: Record<string, unknown>): Promise<T & { _internalId?: number }> {
+    this.writes.push({ method: 'POST', endpoint, body });
+    const record: FakeRecord = { ...body, _internalId: this.nextId++ };
+    (this.collections[endpoint] ??= []).push(record);
+    return { _internalId: record._internalId } as T & Response;
+  }
+
+  override async patch<T = Record<string, unknown>>(endpoint: string, body: Record<string, unknown>): Promise<T> {
+    this.writes.push({ method: 'PATCH', endpoint, body });
+    Object.assign(this.findById(endpoint), body);
+    return {} as T;
+  }
+
+  override async delete<T = Record<string, unknown>>(endpoint: string): Promise<T> {
+    this.writes.push({ method: 'DELETE', endpoint });
+    const record = this.findById(endpoint);
+    for (const records of Object.values(this.collections)) {
+      const index = records.indexOf(record);
+      if (index >= 0) records.splice(index, 1);
+    }
+    return {} as T;
+  }
+
+  private read(endpoint: string): Response {
+    const [path = '', query = ''] = endpoint.split('?');
+    const params = new URLSearchParams(query);
+
+    if (path === '/describe') {
+      return { _results: Object.entries(this.objects).map(([resourceName, o]) => ({ resourceName, label: o.label })) };
+    }
+    const described = path.match(/^\/describe\/(\w+)$/);
+    if (described) {
+      const object = this.objects[described[1]!];
+      if (!object) throw new Error(`HTTP 404: no object ${described[1]}`);
+      return { label: object.label, pluralLabel: object.pluralLabel, attributes: object.attributes };
+    }
+    if (/\/\d+$/.test(path)) {
+      return { ...this.findById(path) };
+    }
+
+    const matches = this.recordsAt(path).filter(record => this.matches(record, params.get('filter') ?? ''));
+    const offset = Number(params.get('offset') ?? 0);
+    const limit = Number(params.get('limit') ?? 25);
+    return { _results: matches.slice(offset, offset + limit).map(record => ({ ...record })), _totalCount: matches.length };
+  }
+
+  // A flat path (/tasks) also lists the records nested under parents
+  private recordsAt(path: string): FakeRecord[] {
+    return Object.entries(this.collections)
+      .filter(([key]) => key === path || (path.split('/').length === 2 && key.endsWith(path)))
+      .flatMap(([, records]) => records);
+  }
+
+  private findById(endpoint: string): FakeRecord {
+    const [, objectType, id] = endpoint.match(/^\/(\w+)\/(\d+)$/) ?? [];
+    const record = this.recordsAt(`/${objectType}`).find(r => r._internalId === Number(id));
+    if (!record) throw new Error(`HTTP 404: ${endpoint} not found`);
+    return record;
+  }
+
+  // Conditions joined by "or" match any, otherwise all
+  private matches(record: FakeRecord, filter: string): boolean {
+    const conditions = [...filter.matchAll(CONDITION)].map(m => ({ field: m[1]!, value: m[2]!.replace(/''/g, "'") }));
+    if (conditions.length === 0) return true;
+    const test = (c: { field: string; value: string }) => String(record[c.field] ?? '') === c.value;
+    return / or /.test(filter) ? conditions.some(test) : conditions.every(test);
+  }
+}
+
+export class FakePlanner implements PlannerClient {
+  private readonly queued: Anthropic.Message[] = [];
+  readonly messages = {
+    create: async (_body: Anthropic.MessageCreateParamsNonStreaming): Promise<Anthropic.Message> =>
+      this.queued.shift() ?? this.message([{ type: 'text', text: 'I can only answer questions about Clarity.', citations: null }]),
+  };
+
+  /**
+   * Have the next planner call pick this tool
+   */
+  callTool(name: string, input: Record<string, unknown>): void {
+    this.queued.push(this.message([{ type: 'tool_use', id: `toolu_${this.queued.length}`, name, input }]));
+  }
+
+  private message(content: Anthropic.ContentBlock[]): Anthropic.Message {
+    return {
+      id: 'msg_test',
+      type: 'message',
+      role: 'assistant',
+      model: 'claude-sonnet-4-20250514',
+      content,
+      stop_reason: content.some(block => block.type === 'tool_use') ? 'tool_use' : 'end_turn',
+      stop_sequence: null,
+      usage: {
+        input_tokens: 0,
+        output_tokens: 0,
+        cache_creation_input_tokens: null,
+        cache_read_input_tokens: null,
+        server_tool_use: null,
+        service_tier: null,
+      },
+    };
+  }
+}
+
+/**
+ * Chat handler over a fake Clarity, with an admin session `sessionId`
+ */
+export async function createChatHandler(
+  sessionId: string,
+  objects: Record<string, FakeObject>,
+  collections: Record<string, FakeRecord[]>
+): Promise<{ handler: AIChatHandler; clarity: FakeClarityClient; planner: FakePlanner }> {
+  const { clarity, services } = await connect(sessionId, objects, collections);
+  const planner = new FakePlanner();
+  const handler = new AIChatHandler(...services, CLARITY_URL, { anthropic: planner });
+  return { handler, clarity, planner };
+}
+
+/**
+ * MCP tool executor over a fake Clarity, with an admin session `sessionId`
+ */
+export async function createToolExecutor(
+  sessionId: string,
+  objects: Record<string, FakeObject>,
+  collections: Record<string, FakeRecord[]>
+): Promise<{ executor: ToolExecutor; clarity: FakeClarityClient }> {
+  const { clarity, services } = await connect(sessionId, objects, collections);
+  return { executor: new ToolExecutor(...services, CLARITY_URL), clarity };
+}
+
+const CLARITY_URL = 'https://clarity.example.com';
+
+async function connect(
+  sessionId: string,
+  objects: Record<string, FakeObject>,
+  collections: Record<string, FakeRecord[]>
+): Promise<{ clarity: FakeClarityClient; services: [ClarityClientPool, MetadataService, LookupService] }> {
+  const clarity = new FakeClarityClient(objects, collections);
+
+  await toolRegistry.validateCapabilities(clarity);
+  sessionManager.createSession({ sessionId, role: 'admin' });
+
+  return {
+    clarity,
+    services: [
+      new ClarityClientPool({ baseUrl: `${CLARITY_URL}/ppm/rest/v1` }, clarity, { allowServiceAccountFallback: true }),
+      new MetadataService(clarity),
+      new LookupService(clarity),
+    ],
+  };
+}
@@ -0,0 +1,37 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { validateValues } from '../src/query/RecordValues.js';
+import type { AttributeMetadata, ObjectMetadata } from '../src/types/clarity.js';
+
+const field = (apiName: string, dataType: string): AttributeMetadata =>
+  ({ apiName, displayName: apiName, dataType, isRequired: false, isReadOnly: false, isLookup: false });
+
+const PROJECT: ObjectMetadata = {
+  resourceName: 'projects',
+  label: 'Project',
+  pluralLabel: 'Projects',
+  isCustom: false,
+  attributes: [field('finish', 'DATE'), field('budget', 'MONEY'), field('effort', 'NUMBER')],
+};
+
+const validate = (input: Record<string, unknown>) =>
+  validateValues(PROJECT, input, async () => null, { mode: 'update', now: new Date('2025-03-01T00:00:00Z') });
+
+test('a date with a time must exist on the calendar', async () => {
+  assert.deepEqual((await validate({ finish: '2025-02-28 17:30' })).values, { finish: '2025-02-28T17:30:00' });
+
+  for (const value of ['2025-02-30 10:00', '2025-13-01T10:00', '2025-02-28 24:00', '2025-02-28T10:60:00']) {
+    const { values, issues } = await validate({ finish: value });
+    assert.deepEqual(values, {}, value);
+    assert.equal(issues[0]?.message, `"${value}" is not a real date and time`);
+  }
+});
+
+test('an amount may carry a currency symbol', async () => {
+  assert.deepEqual((await validate({ budget: '$1,200' })).values, { budget: 1200 });
+  assert.deepEqual((await validate({ budget: '₪ 350.50' })).values, { budget: 350.5 });
+
+  const { issues } = await validate({ effort: '$40' });
+  assert.equal(issues[0]?.message, 'expected a number, got "$40"');
+  assert.match((await validate({ budget: 'USD 10' })).issues[0]?.message ?? '', /expected an amount \(e\.g\. 1200\.50 or \$1,200\)/);
+});
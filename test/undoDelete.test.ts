@@ -0,0 +1,50 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createChatHandler, type FakeObject } from './helpers/fakeClarity.js';
+
+const SESSION = 'undo-child-delete';
+
+const OBJECTS: Record<string, FakeObject> = {
+  projects: {
+    label: 'Project',
+    pluralLabel: 'Projects',
+    attributes: [
+      { name: 'name', displayName: 'Name', dataType: 'STRING', isRequired: true },
+      { name: 'code', displayName: 'ID', dataType: 'STRING', isRequired: true },
+    ],
+  },
+  tasks: {
+    label: 'Task',
+    pluralLabel: 'Tasks',
+    attributes: [
+      { name: '_internalId', displayName: 'Internal ID', dataType: 'NUMBER', isReadOnly: true },
+      { name: 'name', displayName: 'Name', dataType: 'STRING', isRequired: true },
+      { name: 'code', displayName: 'Task ID', dataType: 'STRING' },
+    ],
+  },
+};
+
+test('undoing the delete of a task recreates it under its project', async () => {
+  const { handler, clarity, planner } = await createChatHandler(SESSION, OBJECTS, {
+    '/projects': [{ _internalId: 5000001, name: 'Apollo', code: 'PRJ-1' }],
+    '/projects/5000001/tasks': [{ _internalId: 42, name: 'Design review', code: 'T-42' }],
+  });
+
+  planner.callTool('delete_record', { object: 'tasks', id: 'Design review', project: 'Apollo' });
+  const preview = await handler.handleMessage('delete task Design review in project Apollo', SESSION);
+  assert.equal(preview.success, true);
+  assert.match(preview.reply, /reply \*\*undo\*\* to recreate it/);
+  assert.deepEqual(clarity.writes, []);
+
+  const deleted = await handler.confirmAction(SESSION);
+  assert.equal(deleted.success, true);
+  assert.deepEqual(clarity.writes, [{ method: 'DELETE', endpoint: '/tasks/42' }]);
+
+  const undone = await handler.undoLastChange(SESSION);
+  assert.equal(undone.success, true);
+  assert.deepEqual(clarity.writes[1], {
+    method: 'POST',
+    endpoint: '/projects/5000001/tasks',
+    body: { name: 'Design review', code: 'T-42' },
+  });
+});
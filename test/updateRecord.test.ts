@@ -0,0 +1,64 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createChatHandler, type FakeObject } from './helpers/fakeClarity.js';
+
+const SESSION = 'update-child-record';
+
+const OBJECTS: Record<string, FakeObject> = {
+  projects: {
+    label: 'Project',
+    pluralLabel: 'Projects',
+    attributes: [
+      { name: 'name', displayName: 'Name', dataType: 'STRING', isRequired: true },
+      { name: 'code', displayName: 'ID', dataType: 'STRING', isRequired: true },
+    ],
+  },
+  tasks: {
+    label: 'Task',
+    pluralLabel: 'Tasks',
+    attributes: [
+      { name: '_internalId', displayName: 'Internal ID', dataType: 'NUMBER', isReadOnly: true },
+      { name: 'name', displayName: 'Name', dataType: 'STRING', isRequired: true },
+      { name: 'code', displayName: 'Task ID', dataType: 'STRING' },
+      { name: 'owner', displayName: 'Owner', dataType: 'STRING' },
+    ],
+  },
+};
+
+// Fresh records per test, since the fake applies writes to them
+const collections = () => ({
+  '/projects': [
+    { _internalId: 5000001, name: 'Apollo', code: 'PRJ-1' },
+    { _internalId: 5000002, name: 'Gemini', code: 'PRJ-2' },
+  ],
+  '/projects/5000001/tasks': [{ _internalId: 41, name: 'Design review', code: 'T-41' }],
+  '/projects/5000002/tasks': [{ _internalId: 42, name: 'Design review', code: 'T-42' }],
+});
+
+test('updating a task named in a project changes the task of that project', async () => {
+  const { handler, clarity, planner } = await createChatHandler(SESSION, OBJECTS, collections());
+
+  planner.callTool('update_record', { object: 'tasks', id: 'Design review', project: 'Gemini', values: { owner: 'Dana' } });
+  const preview = await handler.handleMessage('set the owner of task Design review in project Gemini to Dana', SESSION);
+  assert.equal(preview.success, true);
+  assert.deepEqual(clarity.writes, []);
+
+  const updated = await handler.confirmAction(SESSION);
+  assert.equal(updated.success, true);
+  assert.deepEqual(clarity.writes, [{ method: 'PATCH', endpoint: '/tasks/42', body: { owner: 'Dana' } }]);
+});
+
+test('a task name shared by two tasks is not updated until one is named by its code', async () => {
+  const { handler, clarity, planner } = await createChatHandler(`${SESSION}-ambiguous`, OBJECTS, collections());
+
+  planner.callTool('update_record', { object: 'tasks', id: 'Design review', values: { owner: 'Dana' } });
+  const ambiguous = await handler.handleMessage('set the owner of task Design review to Dana', `${SESSION}-ambiguous`);
+  assert.equal(ambiguous.success, false);
+  assert.match(ambiguous.reply, /Several tasks are named "Design review"/);
+  assert.match(ambiguous.reply, /• Design review \(T-41\)\n• Design review \(T-42\)/);
+
+  planner.callTool('update_record', { object: 'tasks', id: 'T-41', values: { owner: 'Dana' } });
+  await handler.handleMessage('set the owner of task T-41 to Dana', `${SESSION}-ambiguous`);
+  await handler.confirmAction(`${SESSION}-ambiguous`);
+  assert.deepEqual(clarity.writes, [{ method: 'PATCH', endpoint: '/tasks/41', body: { owner: 'Dana' } }]);
+});